@@ -24,10 +24,53 @@ export interface SourceDescription {
     contents?: string;
 }
 
+/**
+ * A range in the deployed bytecode holding the value of an immutable variable
+ */
+export interface ImmutableReference {
+    start: number;
+    length: number;
+}
+
 export interface PartialBytecodeDescription {
     object: UnprefixedHexString;
     sourceMap: string;
     generatedSources?: SourceDescription[];
+    /// Map from the AST ids of immutable variables to the ranges in the deployed bytecode holding their values
+    immutableReferences?: { [astId: string]: ImmutableReference[] };
+}
+
+/**
+ * A state variable (or struct member) in the `storageLayout` output of solc
+ */
+export interface SolcStorageLayoutItem {
+    astId: number;
+    contract: string;
+    label: string;
+    offset: number;
+    slot: string;
+    type: string;
+}
+
+/**
+ * A type in the `storageLayout` output of solc
+ */
+export interface SolcStorageLayoutType {
+    encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+    label: string;
+    numberOfBytes: string;
+    base?: string;
+    key?: string;
+    value?: string;
+    members?: SolcStorageLayoutItem[];
+}
+
+/**
+ * The `storageLayout` output of solc. Only emitted by solc >= 0.5.13 when requested in the output selection.
+ */
+export interface SolcStorageLayout {
+    storage: SolcStorageLayoutItem[];
+    types: { [typeId: string]: SolcStorageLayoutType } | null;
 }
 
 export interface PartialCompiledContract {
@@ -35,6 +78,7 @@ export interface PartialCompiledContract {
         bytecode: PartialBytecodeDescription;
         deployedBytecode: PartialBytecodeDescription;
     };
+    storageLayout?: SolcStorageLayout;
 }
 
 export interface PartialSolcOutput {
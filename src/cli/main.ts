@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+import { createInterface } from "readline";
+import { SolDbgRepl } from "./repl";
+
+const USAGE = `Usage: sol-dbg [--source-root <dir>] <artifacts> <txs.json> [txIdx]
+
+  <artifacts>          A solc standard JSON artifact, or a directory of artifacts
+  <txs.json>           JSON description of an initial state and a sequence of transactions
+  [txIdx]              Index of the transaction to debug. Defaults to the last transaction.
+  --source-root <dir>  Directory relative to which the source file names in the artifacts are
+                       resolved. Defaults to the current directory.`;
+
+async function main(): Promise<void> {
+    const args = process.argv.slice(2);
+    const rootIdx = args.indexOf("--source-root");
+    let sourceRoot = process.cwd();
+
+    if (rootIdx !== -1 && rootIdx + 1 < args.length) {
+        sourceRoot = args[rootIdx + 1];
+        args.splice(rootIdx, 2);
+    }
+
+    if (args.length < 2 || args.length > 3 || args.includes("--help")) {
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    const txIdx = args.length === 3 ? Number(args[2]) : undefined;
+
+    if (txIdx !== undefined && !(Number.isSafeInteger(txIdx) && txIdx >= 0)) {
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    const repl = await SolDbgRepl.load(args[0], args[1], txIdx, sourceRoot);
+    const rl = createInterface({ input: process.stdin, output: process.stdout });
+
+    console.log(repl.where());
+
+    rl.setPrompt("(sol-dbg) ");
+    rl.prompt();
+
+    for await (const line of rl) {
+        let output: string;
+
+        try {
+            output = repl.execute(line);
+        } catch (e) {
+            output = `Error: ${e instanceof Error ? e.message : String(e)}`;
+        }
+
+        if (repl.quit) {
+            break;
+        }
+
+        if (output !== "") {
+            console.log(output);
+        }
+
+        rl.prompt();
+    }
+
+    rl.close();
+}
+
+main().then(
+    () => process.exit(0),
+    (e) => {
+        console.error(e);
+        process.exit(1);
+    }
+);
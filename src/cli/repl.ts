@@ -0,0 +1,464 @@
+import fse from "fs-extra";
+import {
+    ArtifactManager,
+    breakpointPredicate,
+    DataView,
+    DebugSession,
+    decodeConstants,
+    decodeContractState,
+    decodeImmutables,
+    decodeValue,
+    FrameKind,
+    getArgs,
+    getFrameName,
+    getKeccakPreimages,
+    getWatchpointHit,
+    getLocals,
+    getStepSourceLoc,
+    IArtifactManager,
+    isDuplicateFrame,
+    lastExternalFrame,
+    loadArtifacts,
+    ppValue,
+    resolveBreakpoint,
+    resolveStorageWatchpoint,
+    SolTxDebugger,
+    SourceBreakpoint,
+    StepState,
+    TxSequenceDescription,
+    TxSession,
+    WatchList,
+    Watchpoint,
+    watchpointPredicate
+} from "..";
+
+/// Number of source lines shown before and after the current line by `list`
+const LIST_CONTEXT = 5;
+
+const HELP = `Commands:
+  step, s               Step to the next line, entering calls
+  next, n               Step to the next line, stepping over calls
+  out, o                Step out of the current function
+  continue, c           Run until the next breakpoint or the end of the transaction
+  bt                    Print the call stack
+  print, p <var>        Print the value of an argument or local in the current function
+  state                 Print the state variables of the current contract
+  storage               Print the storage of the current contract
+  memory                Print the current memory
+  list, l               Print the source around the current line
+  break, b [file:line]  Set a breakpoint, or list breakpoints if no location is given
+  watch, w [expr]       Add a watch expression, or print the values of all watch expressions
+  watchpoint, wp [var]  Stop when the state variable (or mapping entry, field...) var changes, or list watchpoints
+  wp memory <off> <len> Stop when the given memory range of the current call changes
+  help, h               Print this message
+  quit, q               Exit the debugger`;
+
+/**
+ * A line-oriented command interpreter for debugging a single transaction. The interpreter
+ * is I/O-agnostic - each command line is passed to `execute`, which returns the text to show to the
+ * user. See `src/cli/main.ts` for the interactive `sol-dbg` front-end.
+ */
+export class SolDbgRepl {
+    readonly session: DebugSession;
+    private artifactManager: IArtifactManager;
+    private breakpoints: SourceBreakpoint[];
+    private watches: WatchList;
+    private watchpoints: Watchpoint[];
+    private _quit: boolean;
+
+    constructor(session: DebugSession, artifactManager: IArtifactManager) {
+        this.session = session;
+        this.artifactManager = artifactManager;
+        this.breakpoints = [];
+        this.watches = new WatchList();
+        this.watchpoints = [];
+        this._quit = false;
+    }
+
+    /**
+     * Load the artifacts in `artifactsPath` and the transaction sequence description in `txsPath`,
+     * replay the transactions and create a REPL debugging the `txIdx`-th one (the last one by default).
+     */
+    static async load(
+        artifactsPath: string,
+        txsPath: string,
+        txIdx?: number,
+        sourceRoot: string = process.cwd()
+    ): Promise<SolDbgRepl> {
+        const artifactManager = new ArtifactManager(loadArtifacts(artifactsPath, sourceRoot));
+        const desc: TxSequenceDescription = fse.readJsonSync(txsPath);
+        const txSession = await TxSession.fromDescription(desc);
+        const idx = txIdx === undefined ? txSession.txs.length - 1 : txIdx;
+        const [trace] = await txSession.debugTx(new SolTxDebugger(artifactManager), idx);
+
+        return new SolDbgRepl(new DebugSession(trace), artifactManager);
+    }
+
+    /// True after the user has issued the `quit` command
+    get quit(): boolean {
+        return this._quit;
+    }
+
+    /**
+     * Execute a single command line and return its output
+     */
+    execute(line: string): string {
+        const [cmd, ...args] = line.trim().split(/\s+/);
+        const session = this.session;
+
+        switch (cmd) {
+            case "":
+                return "";
+            case "step":
+            case "s":
+                session.stepLine(() => session.stepInto());
+
+                return this.where();
+            case "next":
+            case "n":
+                session.stepLine(() => session.stepOver());
+
+                return this.where();
+            case "out":
+            case "o":
+                session.stepOut();
+
+                return this.where();
+            case "continue":
+            case "c":
+                session.continue();
+
+                return [...this.watchpointHits(), this.where()].join("\n");
+            case "bt":
+                return this.backtrace();
+            case "print":
+            case "p":
+                return args.length === 1 ? this.print(args[0]) : `Usage: print <var>`;
+            case "state":
+                return this.state();
+            case "storage":
+                return this.storage();
+            case "memory":
+                return this.memory();
+            case "list":
+            case "l":
+                return this.list();
+            case "break":
+            case "b":
+                return args.length === 0 ? this.listBreakpoints() : this.addBreakpoint(args[0]);
+            case "watch":
+            case "w":
+                return args.length === 0 ? this.printWatches() : this.addWatch(args.join(" "));
+            case "watchpoint":
+            case "wp":
+                return args.length === 0 ? this.listWatchpoints() : this.addWatchpoint(args);
+            case "help":
+            case "h":
+                return HELP;
+            case "quit":
+            case "q":
+                this._quit = true;
+
+                return "";
+            default:
+                return `Unknown command ${cmd}. Type "help" for a list of commands.`;
+        }
+    }
+
+    /**
+     * Describe the location of `step` as `file:line` (or the pc, if the step doesn't map to a source line)
+     */
+    private ppLocation(step: StepState): string {
+        const loc = getStepSourceLoc(step);
+
+        return loc === undefined ? `pc ${step.pc}` : `${loc.file.name}:${loc.line}`;
+    }
+
+    /**
+     * Describe the current position - the current source line, or the outcome of the transaction if
+     * we reached the end of the trace.
+     */
+    where(): string {
+        const session = this.session;
+        const step = session.curStep;
+
+        if (session.finished) {
+            const mnemonic = step.op.mnemonic;
+
+            return mnemonic === "REVERT" || mnemonic === "INVALID"
+                ? `Transaction reverted (${mnemonic} at ${this.ppLocation(step)})`
+                : `Transaction finished`;
+        }
+
+        const loc = getStepSourceLoc(step);
+
+        if (loc === undefined || loc.file.contents === undefined) {
+            return this.ppLocation(step);
+        }
+
+        const text = loc.file.contents.split("\n")[loc.line - 1];
+
+        return `${loc.file.name}:${loc.line}: ${text.trim()}`;
+    }
+
+    private backtrace(): string {
+        const session = this.session;
+        const stack = session.curStep.stack;
+        const lines: string[] = [];
+
+        for (let i = stack.length - 1; i >= 0; i--) {
+            if (isDuplicateFrame(stack, i)) {
+                continue;
+            }
+
+            const name = getFrameName(stack[i]);
+
+            lines.push(`#${lines.length} ${name} at ${this.ppLocation(session.getFrameStep(i))}`);
+        }
+
+        return lines.join("\n");
+    }
+
+    private print(name: string): string {
+        const step = this.session.curStep;
+        const stack = step.stack;
+
+        if (stack.length === 0) {
+            return `No current frame`;
+        }
+
+        const frame = stack[stack.length - 1];
+        let views: Array<[string, DataView | undefined]>;
+        let viewStep: StepState;
+
+        if (frame.kind === FrameKind.InternalCall) {
+            views = [...(getArgs(step) || []), ...(getLocals(step) || [])];
+            viewStep = step;
+        } else {
+            // Arguments of external frames are decoded at the start of the frame
+            views = frame.arguments || [];
+            viewStep = this.session.trace[frame.startStep];
+        }
+
+        const entry = views.find(([varName]) => varName === name);
+
+        if (entry === undefined) {
+            return `No variable ${name} in the current frame`;
+        }
+
+        const view = entry[1];
+
+        if (view === undefined) {
+            return `${name} = <unknown>`;
+        }
+
+        let value: any;
+
+        try {
+            value = decodeValue(view, viewStep);
+        } catch (e) {
+            value = undefined;
+        }
+
+        const typ = view.originalType !== undefined ? view.originalType : view.type;
+
+        return `${name} = ${ppValue(typ, value)}`;
+    }
+
+    private state(): string {
+        const session = this.session;
+        const step = session.curStep;
+
+        if (step.contractInfo === undefined) {
+            return `No debug info for the current contract`;
+        }
+
+        // Mapping keys are recovered from the hashes computed so far
+        const preimages = getKeccakPreimages(session.trace.slice(0, session.curIdx + 1));
+        const vars = decodeContractState(step.contractInfo, step.storage, preimages);
+
+        if (vars === undefined) {
+            return `Failed computing the storage layout of ${step.contractInfo.contractName}`;
+        }
+
+        vars.push(...decodeImmutables(step), ...decodeConstants(step.contractInfo));
+
+        if (vars.length === 0) {
+            return "<no state variables>";
+        }
+
+        return vars.map(({ name, type, value }) => `${name} = ${ppValue(type, value)}`).join("\n");
+    }
+
+    private storage(): string {
+        const entries = [...this.session.curStep.storage.entries()].sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0
+        );
+
+        if (entries.length === 0) {
+            return "<empty>";
+        }
+
+        return entries
+            .map(([key, val]) => `0x${key.toString(16)}: 0x${val.toString("hex")}`)
+            .join("\n");
+    }
+
+    private memory(): string {
+        const memory = this.session.curStep.memory;
+        const lines: string[] = [];
+
+        for (let off = 0; off < memory.length; off += 32) {
+            lines.push(
+                `0x${off.toString(16).padStart(4, "0")}: ${memory
+                    .slice(off, off + 32)
+                    .toString("hex")}`
+            );
+        }
+
+        return lines.length === 0 ? "<empty>" : lines.join("\n");
+    }
+
+    private list(): string {
+        const loc = getStepSourceLoc(this.session.curStep);
+
+        if (loc === undefined || loc.file.contents === undefined) {
+            return `No source for the current step`;
+        }
+
+        const fileLines = loc.file.contents.split("\n");
+        const start = Math.max(1, loc.line - LIST_CONTEXT);
+        const end = Math.min(fileLines.length, loc.line + LIST_CONTEXT);
+        const width = `${end}`.length;
+        const lines: string[] = [];
+
+        for (let line = start; line <= end; line++) {
+            const marker = line === loc.line ? "=>" : "  ";
+
+            lines.push(`${marker} ${`${line}`.padStart(width)} ${fileLines[line - 1]}`);
+        }
+
+        return lines.join("\n");
+    }
+
+    private addBreakpoint(location: string): string {
+        const m = location.match(/^(.+):([0-9]+)$/);
+
+        if (m === null) {
+            return `Usage: break <file>:<line>`;
+        }
+
+        const bp: SourceBreakpoint = { file: m[1], line: Number(m[2]) };
+        const resolved = resolveBreakpoint(bp, this.artifactManager);
+
+        if (resolved.locations.length === 0) {
+            return `No code at ${location}`;
+        }
+
+        this.session.addBreakpoint(breakpointPredicate(resolved, this.session.trace));
+        this.breakpoints.push(bp);
+
+        return `Breakpoint ${this.breakpoints.length} at ${location}`;
+    }
+
+    private listBreakpoints(): string {
+        if (this.breakpoints.length === 0) {
+            return `No breakpoints`;
+        }
+
+        return this.breakpoints.map((bp, i) => `${i + 1}: ${bp.file}:${bp.line}`).join("\n");
+    }
+
+    private addWatch(expression: string): string {
+        try {
+            this.watches.add(expression);
+        } catch (e) {
+            return e instanceof Error ? e.message : String(e);
+        }
+
+        return this.printWatches();
+    }
+
+    private printWatches(): string {
+        if (this.watches.expressions.length === 0) {
+            return `No watch expressions`;
+        }
+
+        return this.watches
+            .evaluate(this.session.curStep)
+            .map(
+                ([expression, val]) =>
+                    `${expression} = ${
+                        val === undefined ? "<unavailable>" : ppValue(val.type, val.value)
+                    }`
+            )
+            .join("\n");
+    }
+
+    private addWatchpoint(args: string[]): string {
+        const step = this.session.curStep;
+        let wp: Watchpoint;
+
+        if (args[0] === "memory") {
+            const start = Number(args[1]);
+            const length = Number(args[2]);
+
+            // Also reject numbers too large to be represented exactly
+            if (
+                args.length !== 3 ||
+                !args.slice(1).every((arg) => /^(0x[0-9a-f]+|[0-9]+)$/i.test(arg)) ||
+                !Number.isSafeInteger(start + length)
+            ) {
+                return `Usage: watchpoint memory <offset> <length>`;
+            }
+
+            wp = {
+                kind: "memory",
+                frame: lastExternalFrame(step.stack),
+                start,
+                length,
+                description: `memory[0x${start.toString(16)}:0x${(start + length).toString(16)}]`
+            };
+        } else {
+            try {
+                wp = resolveStorageWatchpoint(args.join(" "), step);
+            } catch (e) {
+                return e instanceof Error ? e.message : String(e);
+            }
+        }
+
+        this.session.addBreakpoint(watchpointPredicate(wp, this.session.trace));
+        this.watchpoints.push(wp);
+
+        return `Watchpoint ${this.watchpoints.length}: ${wp.description}`;
+    }
+
+    private listWatchpoints(): string {
+        if (this.watchpoints.length === 0) {
+            return `No watchpoints`;
+        }
+
+        return this.watchpoints.map((wp, i) => `${i + 1}: ${wp.description}`).join("\n");
+    }
+
+    /**
+     * Describe the watchpoints hit by the current step
+     */
+    private watchpointHits(): string[] {
+        const res: string[] = [];
+
+        this.watchpoints.forEach((wp, i) => {
+            const hit = getWatchpointHit(wp, this.session.trace, this.session.curIdx);
+
+            if (hit !== undefined) {
+                res.push(
+                    `Watchpoint ${i + 1}: ${wp.description}\n  old: 0x${hit.oldValue.toString(
+                        "hex"
+                    )}\n  new: 0x${hit.newValue.toString("hex")}`
+                );
+            }
+        });
+
+        return res;
+    }
+}
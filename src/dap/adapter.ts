@@ -0,0 +1,583 @@
+import fse from "fs-extra";
+import { basename, resolve } from "path";
+import { TypeNode } from "solc-typed-ast";
+import {
+    ArtifactManager,
+    breakpointPredicate,
+    DataView,
+    DebugSession,
+    decodeConstants,
+    decodeContractState,
+    decodeImmutables,
+    decodeValue,
+    evalWatchExpression,
+    FrameKind,
+    getArgs,
+    getFrameName,
+    getKeccakPreimages,
+    getLocals,
+    getStepSourceLoc,
+    getValueComponents,
+    getWatchpointHit,
+    isDuplicateFrame,
+    loadArtifacts,
+    parseWatchExpression,
+    ppValue,
+    resolveBreakpoint,
+    resolveStorageWatchpoint,
+    SolTxDebugger,
+    StepState,
+    StorageWatchpoint,
+    TxSequenceDescription,
+    TxSession,
+    watchpointPredicate
+} from "..";
+import {
+    Breakpoint,
+    DataBreakpoint,
+    DataBreakpointInfoResponseBody,
+    EvaluateResponseBody,
+    Event,
+    LaunchArguments,
+    ProtocolMessage,
+    Request,
+    Response,
+    Scope,
+    Source,
+    SourceBreakpoint,
+    StackFrame,
+    Variable
+} from "./protocol";
+
+/// We only ever debug a single transaction, so we report a single thread
+const THREAD_ID = 1;
+
+interface ScopeHandle {
+    kind: "scope";
+    step: StepState;
+    views: Array<[string, DataView | undefined]>;
+}
+
+interface StateHandle {
+    kind: "state";
+    step: StepState;
+    stepIdx: number;
+}
+
+interface ValueHandle {
+    kind: "value";
+    type: TypeNode;
+    value: any;
+}
+
+type VariableHandle = ScopeHandle | StateHandle | ValueHandle;
+
+/**
+ * A Debug Adapter Protocol implementation on top of `SolTxDebugger`. The adapter is transport-agnostic -
+ * requests are passed in through `handleRequest`, and responses/events are sent out through the
+ * `send` callback given to the constructor.
+ *
+ * The expected sequence of requests is:
+ *
+ * 1. `initialize`
+ * 2. `launch` - loads the artifacts, replays the transactions and debugs the chosen one. After it
+ * completes the adapter sends the `initialized` event.
+ * 3. Any configuration requests (e.g. `setBreakpoints`) followed by `configurationDone`. At this
+ * point the adapter either stops on entry, or runs until the first breakpoint.
+ */
+export class SolDebugAdapter {
+    private send: (msg: ProtocolMessage) => void;
+    private seq: number;
+    private session: DebugSession | undefined;
+    private artifactManager: ArtifactManager | undefined;
+    private sourceRoot: string;
+    private stopOnEntry: boolean;
+    private breakpointIds: Map<string, number[]>;
+    private nextBreakpointId: number;
+    /// Storage watchpoints resolved by `dataBreakpointInfo` requests, by their data ids
+    private dataIds: Map<string, StorageWatchpoint>;
+    private dataBreakpoints: Array<[number, StorageWatchpoint]>;
+    private handles: Map<number, VariableHandle>;
+    private nextHandle: number;
+
+    constructor(send: (msg: ProtocolMessage) => void) {
+        this.send = send;
+        this.seq = 1;
+        this.sourceRoot = process.cwd();
+        this.stopOnEntry = false;
+        this.breakpointIds = new Map();
+        this.nextBreakpointId = 1;
+        this.dataIds = new Map();
+        this.dataBreakpoints = [];
+        this.handles = new Map();
+        this.nextHandle = 1;
+    }
+
+    private sendEvent(event: string, body?: any): void {
+        const evt: Event = { seq: this.seq++, type: "event", event, body };
+
+        this.send(evt);
+    }
+
+    private sendResponse(req: Request, body?: any): void {
+        const resp: Response = {
+            seq: this.seq++,
+            type: "response",
+            request_seq: req.seq,
+            success: true,
+            command: req.command,
+            body
+        };
+
+        this.send(resp);
+    }
+
+    private sendError(req: Request, message: string): void {
+        const resp: Response = {
+            seq: this.seq++,
+            type: "response",
+            request_seq: req.seq,
+            success: false,
+            command: req.command,
+            message
+        };
+
+        this.send(resp);
+    }
+
+    private getSession(): DebugSession {
+        if (this.session === undefined) {
+            throw new Error(`No transaction is being debugged`);
+        }
+
+        return this.session;
+    }
+
+    /**
+     * Handle a single DAP request. Any errors are reported back as failed responses.
+     */
+    async handleRequest(req: Request): Promise<void> {
+        const args = req.arguments === undefined ? {} : req.arguments;
+
+        try {
+            switch (req.command) {
+                case "initialize":
+                    return this.sendResponse(req, {
+                        supportsConfigurationDoneRequest: true,
+                        supportsDataBreakpoints: true,
+                        supportsEvaluateForHovers: true,
+                        supportsStepBack: true
+                    });
+                case "launch":
+                    await this.launch(args as LaunchArguments);
+                    this.sendResponse(req);
+
+                    return this.sendEvent("initialized");
+                case "setBreakpoints":
+                    return this.sendResponse(req, {
+                        breakpoints: this.setBreakpoints(args.source.path, args.breakpoints || [])
+                    });
+                case "dataBreakpointInfo":
+                    return this.sendResponse(
+                        req,
+                        this.dataBreakpointInfo(args.name, args.variablesReference, args.frameId)
+                    );
+                case "setDataBreakpoints":
+                    return this.sendResponse(req, {
+                        breakpoints: this.setDataBreakpoints(args.breakpoints || [])
+                    });
+                case "setExceptionBreakpoints":
+                    return this.sendResponse(req);
+                case "configurationDone":
+                    this.sendResponse(req);
+
+                    if (this.stopOnEntry) {
+                        return this.reportStop("entry");
+                    }
+
+                    this.getSession().continue();
+
+                    return this.reportStop(this.breakpointStopReason());
+                case "threads":
+                    return this.sendResponse(req, {
+                        threads: [{ id: THREAD_ID, name: "transaction" }]
+                    });
+                case "stackTrace": {
+                    const stackFrames = this.stackTrace();
+
+                    return this.sendResponse(req, {
+                        stackFrames,
+                        totalFrames: stackFrames.length
+                    });
+                }
+                case "scopes":
+                    return this.sendResponse(req, { scopes: this.scopes(args.frameId) });
+                case "variables":
+                    return this.sendResponse(req, {
+                        variables: this.variables(args.variablesReference)
+                    });
+                case "evaluate":
+                    return this.sendResponse(req, this.evaluate(args.expression, args.frameId));
+                case "next":
+                    this.getSession().stepLine(() => this.getSession().stepOver());
+                    this.sendResponse(req);
+
+                    return this.reportStop("step");
+                case "stepIn":
+                    this.getSession().stepLine(() => this.getSession().stepInto());
+                    this.sendResponse(req);
+
+                    return this.reportStop("step");
+                case "stepOut":
+                    this.getSession().stepOut();
+                    this.sendResponse(req);
+
+                    return this.reportStop("step");
+                case "stepBack":
+                    this.getSession().stepLine(() => this.getSession().stepBackOver());
+                    this.sendResponse(req);
+
+                    return this.reportStop("step");
+                case "continue":
+                    this.getSession().continue();
+                    this.sendResponse(req, { allThreadsContinued: true });
+
+                    return this.reportStop(this.breakpointStopReason());
+                case "reverseContinue":
+                    this.getSession().reverseContinue();
+                    this.sendResponse(req);
+
+                    return this.reportStop(this.breakpointStopReason());
+                case "disconnect":
+                case "terminate":
+                    this.session = undefined;
+
+                    return this.sendResponse(req);
+                default:
+                    return this.sendError(req, `Unsupported request ${req.command}`);
+            }
+        } catch (e) {
+            this.sendError(req, e instanceof Error ? e.message : String(e));
+        }
+    }
+
+    private async launch(args: LaunchArguments): Promise<void> {
+        if (args.sourceRoot !== undefined) {
+            this.sourceRoot = args.sourceRoot;
+        }
+
+        this.stopOnEntry = !!args.stopOnEntry;
+        this.artifactManager = new ArtifactManager(loadArtifacts(args.artifacts, this.sourceRoot));
+
+        const desc: TxSequenceDescription = fse.readJsonSync(args.txs);
+        const txSession = await TxSession.fromDescription(desc);
+        const txIdx = args.txIdx === undefined ? txSession.txs.length - 1 : args.txIdx;
+        const [trace] = await txSession.debugTx(new SolTxDebugger(this.artifactManager), txIdx);
+
+        this.session = new DebugSession(trace);
+    }
+
+    /**
+     * Report that execution stopped (after a step or a continue). If we reached the end of the trace
+     * we either report an exception (if the transaction reverted) or terminate the session.
+     */
+    private reportStop(reason: string): void {
+        const session = this.getSession();
+
+        this.handles.clear();
+
+        if (session.finished) {
+            const mnemonic = session.curStep.op.mnemonic;
+
+            if (mnemonic === "REVERT" || mnemonic === "INVALID") {
+                return this.sendEvent("stopped", {
+                    reason: "exception",
+                    description: "Transaction reverted",
+                    threadId: THREAD_ID,
+                    allThreadsStopped: true
+                });
+            }
+
+            return this.sendEvent("terminated");
+        }
+
+        this.sendEvent("stopped", { reason, threadId: THREAD_ID, allThreadsStopped: true });
+    }
+
+    private setBreakpoints(filePath: string, bps: SourceBreakpoint[]): Breakpoint[] {
+        const session = this.getSession();
+        const artifactManager = this.artifactManager as ArtifactManager;
+        const oldIds = this.breakpointIds.get(filePath);
+
+        if (oldIds !== undefined) {
+            oldIds.forEach((id) => session.removeBreakpoint(id));
+        }
+
+        const ids: number[] = [];
+        const res: Breakpoint[] = [];
+
+        for (const bp of bps) {
+            const resolved = resolveBreakpoint(
+                { file: filePath, line: bp.line, column: bp.column },
+                artifactManager
+            );
+
+            ids.push(session.addBreakpoint(breakpointPredicate(resolved, session.trace)));
+
+            res.push({
+                id: this.nextBreakpointId++,
+                verified: resolved.locations.length > 0,
+                line: bp.line
+            });
+        }
+
+        this.breakpointIds.set(filePath, ids);
+
+        return res;
+    }
+
+    /**
+     * Resolve the variable `name` (in the variables container `variablesReference`, or in the frame
+     * `frameId`) to a storage location that can be watched by a data breakpoint. Any Solidity
+     * expression referring to storage (e.g. `balances[msg.sender]`) is accepted as well.
+     */
+    private dataBreakpointInfo(
+        name: string,
+        variablesReference?: number,
+        frameId?: number
+    ): DataBreakpointInfoResponseBody {
+        const session = this.getSession();
+        const handle =
+            variablesReference === undefined ? undefined : this.handles.get(variablesReference);
+        let step: StepState;
+
+        if (handle !== undefined && handle.kind !== "value") {
+            step = handle.step;
+        } else {
+            const stack = session.curStep.stack;
+
+            step = session.getFrameStep(frameId === undefined ? stack.length - 1 : frameId);
+        }
+
+        let wp: StorageWatchpoint;
+
+        try {
+            wp = resolveStorageWatchpoint(name, step);
+        } catch (e) {
+            return { dataId: null, description: e instanceof Error ? e.message : String(e) };
+        }
+
+        const dataId = `${wp.address.toString()}:${wp.slot.toString(16)}:${wp.offset}:${wp.size}`;
+
+        this.dataIds.set(dataId, wp);
+
+        return { dataId, description: name, accessTypes: ["write"], canPersist: false };
+    }
+
+    private setDataBreakpoints(bps: DataBreakpoint[]): Breakpoint[] {
+        const session = this.getSession();
+
+        this.dataBreakpoints.forEach(([id]) => session.removeBreakpoint(id));
+        this.dataBreakpoints = [];
+
+        return bps.map((bp) => {
+            const wp = this.dataIds.get(bp.dataId);
+
+            if (wp !== undefined) {
+                const id = session.addBreakpoint(watchpointPredicate(wp, session.trace));
+
+                this.dataBreakpoints.push([id, wp]);
+            }
+
+            return { id: this.nextBreakpointId++, verified: wp !== undefined };
+        });
+    }
+
+    /**
+     * Reason to report when stopping after a `continue`: data breakpoints take precedence over
+     * source breakpoints at the same step
+     */
+    private breakpointStopReason(): string {
+        const session = this.getSession();
+        const isDataHit = this.dataBreakpoints.some(
+            ([, wp]) => getWatchpointHit(wp, session.trace, session.curIdx) !== undefined
+        );
+
+        return isDataHit ? "data breakpoint" : "breakpoint";
+    }
+
+    private getSource(step: StepState): [Source | undefined, number, number] {
+        const loc = getStepSourceLoc(step);
+
+        if (loc === undefined) {
+            return [undefined, 0, 0];
+        }
+
+        const source: Source = {
+            name: basename(loc.file.name),
+            path: resolve(this.sourceRoot, loc.file.name)
+        };
+
+        return [source, loc.line, loc.column];
+    }
+
+    private stackTrace(): StackFrame[] {
+        const session = this.getSession();
+        const stack = session.curStep.stack;
+        const res: StackFrame[] = [];
+
+        for (let i = stack.length - 1; i >= 0; i--) {
+            // External call frames are duplicated by the internal frame for the called function
+            if (isDuplicateFrame(stack, i)) {
+                continue;
+            }
+
+            const [source, line, column] = this.getSource(session.getFrameStep(i));
+
+            res.push({ id: i, name: getFrameName(stack[i]), source, line, column });
+        }
+
+        return res;
+    }
+
+    private addHandle(handle: VariableHandle): number {
+        const id = this.nextHandle++;
+
+        this.handles.set(id, handle);
+
+        return id;
+    }
+
+    private scopes(frameId: number): Scope[] {
+        const session = this.getSession();
+        const frame = session.curStep.stack[frameId];
+
+        if (frame === undefined) {
+            throw new Error(`Unknown frame ${frameId}`);
+        }
+
+        const step = session.getFrameStep(frameId);
+        const state: Scope = {
+            name: "Contract State",
+            variablesReference: this.addHandle({ kind: "state", step, stepIdx: session.curIdx }),
+            expensive: true
+        };
+
+        if (frame.kind === FrameKind.InternalCall) {
+            const views = [...(getArgs(step) || []), ...(getLocals(step) || [])];
+
+            return [
+                {
+                    name: "Locals",
+                    variablesReference: this.addHandle({ kind: "scope", step, views }),
+                    expensive: false
+                },
+                state
+            ];
+        }
+
+        // Arguments of external frames are decoded at the start of the frame
+        return [
+            {
+                name: "Arguments",
+                variablesReference: this.addHandle({
+                    kind: "scope",
+                    step: session.trace[frame.startStep],
+                    views: frame.arguments || []
+                }),
+                expensive: false
+            },
+            state
+        ];
+    }
+
+    private makeVariable(name: string, typ: TypeNode, value: any): Variable {
+        const components = getValueComponents(typ, value);
+
+        return {
+            name,
+            value: ppValue(typ, value),
+            type: typ.pp(),
+            variablesReference:
+                components === undefined ? 0 : this.addHandle({ kind: "value", type: typ, value })
+        };
+    }
+
+    /**
+     * Evaluate a watch (or hover) expression in the frame `frameId` (the top frame by default)
+     */
+    private evaluate(expression: string, frameId?: number): EvaluateResponseBody {
+        const session = this.getSession();
+        const stack = session.curStep.stack;
+        const step = session.getFrameStep(frameId === undefined ? stack.length - 1 : frameId);
+        const val = evalWatchExpression(parseWatchExpression(expression), step);
+
+        if (val === undefined) {
+            throw new Error(`Cannot evaluate ${expression} in the current frame`);
+        }
+
+        const variable = this.makeVariable(expression, val.type, val.value);
+
+        return {
+            result: variable.value,
+            type: variable.type,
+            variablesReference: variable.variablesReference
+        };
+    }
+
+    private variables(ref: number): Variable[] {
+        const handle = this.handles.get(ref);
+
+        if (handle === undefined) {
+            throw new Error(`Unknown variables reference ${ref}`);
+        }
+
+        if (handle.kind === "value") {
+            const components = getValueComponents(handle.type, handle.value) || [];
+
+            return components.map(([name, typ, value]) => this.makeVariable(name, typ, value));
+        }
+
+        if (handle.kind === "state") {
+            if (handle.step.contractInfo === undefined) {
+                return [];
+            }
+
+            // Mapping keys are recovered from the hashes computed so far
+            const preimages = getKeccakPreimages(
+                this.getSession().trace.slice(0, handle.stepIdx + 1)
+            );
+            const vars = decodeContractState(
+                handle.step.contractInfo,
+                handle.step.storage,
+                preimages
+            );
+
+            return [
+                ...(vars || []),
+                ...decodeImmutables(handle.step),
+                ...decodeConstants(handle.step.contractInfo)
+            ].map(({ name, type, value }) => this.makeVariable(name, type, value));
+        }
+
+        return handle.views.map(([name, view]) => {
+            if (view === undefined) {
+                return { name, value: "<unknown>", variablesReference: 0 };
+            }
+
+            let value: any;
+
+            try {
+                value = decodeValue(view, handle.step);
+            } catch (e) {
+                value = undefined;
+            }
+
+            return this.makeVariable(
+                name,
+                view.originalType !== undefined ? view.originalType : view.type,
+                value
+            );
+        });
+    }
+}
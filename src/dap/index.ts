@@ -0,0 +1,3 @@
+export * from "./adapter";
+export * from "./protocol";
+export * from "./transport";
@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+import { serveDebugAdapter } from "./transport";
+
+serveDebugAdapter(process.stdin, process.stdout).then(
+    () => process.exit(0),
+    (e) => {
+        console.error(e);
+        process.exit(1);
+    }
+);
@@ -0,0 +1,110 @@
+/**
+ * The subset of the Debug Adapter Protocol message types that we use.
+ * @see https://microsoft.github.io/debug-adapter-protocol/specification
+ */
+
+export interface ProtocolMessage {
+    seq: number;
+    type: "request" | "response" | "event";
+}
+
+export interface Request extends ProtocolMessage {
+    type: "request";
+    command: string;
+    arguments?: any;
+}
+
+export interface Response extends ProtocolMessage {
+    type: "response";
+    request_seq: number;
+    success: boolean;
+    command: string;
+    message?: string;
+    body?: any;
+}
+
+export interface Event extends ProtocolMessage {
+    type: "event";
+    event: string;
+    body?: any;
+}
+
+export interface Source {
+    name: string;
+    path: string;
+}
+
+export interface StackFrame {
+    id: number;
+    name: string;
+    source?: Source;
+    line: number;
+    column: number;
+}
+
+export interface Scope {
+    name: string;
+    variablesReference: number;
+    expensive: boolean;
+}
+
+export interface Variable {
+    name: string;
+    value: string;
+    type?: string;
+    variablesReference: number;
+}
+
+export interface Breakpoint {
+    id: number;
+    verified: boolean;
+    line?: number;
+    source?: Source;
+}
+
+export interface SourceBreakpoint {
+    line: number;
+    column?: number;
+}
+
+export interface DataBreakpoint {
+    /// Id returned by a `dataBreakpointInfo` request
+    dataId: string;
+    accessType?: string;
+}
+
+/**
+ * Body of the response to a `dataBreakpointInfo` request. `dataId` is null when no data breakpoint
+ * can be set on the requested variable, in which case `description` explains why.
+ */
+export interface DataBreakpointInfoResponseBody {
+    dataId: string | null;
+    description: string;
+    accessTypes?: Array<"read" | "write" | "readWrite">;
+    canPersist?: boolean;
+}
+
+/**
+ * Body of the response to an `evaluate` request
+ */
+export interface EvaluateResponseBody {
+    result: string;
+    type?: string;
+    variablesReference: number;
+}
+
+/**
+ * Arguments of the `launch` request supported by the sol-dbg debug adapter
+ */
+export interface LaunchArguments {
+    /// Path to a solc standard JSON artifact, or a directory containing artifacts
+    artifacts: string;
+    /// Path to a JSON transaction sequence description (see `TxSequenceDescription`)
+    txs: string;
+    /// Index of the transaction to debug in the sequence. Defaults to the last transaction.
+    txIdx?: number;
+    /// Directory relative to which the source file names in the artifacts are resolved. Defaults to the CWD.
+    sourceRoot?: string;
+    /// Stop at the first source-level step instead of running until the first breakpoint
+    stopOnEntry?: boolean;
+}
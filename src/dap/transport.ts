@@ -0,0 +1,108 @@
+import { Readable, Writable } from "stream";
+import { SolDebugAdapter } from "./adapter";
+import { ProtocolMessage, Request } from "./protocol";
+
+const HEADER_SEPARATOR = "\r\n\r\n";
+
+/**
+ * Encode a DAP message with its `Content-Length` header
+ */
+export function encodeMessage(msg: ProtocolMessage): Buffer {
+    const body = Buffer.from(JSON.stringify(msg), "utf-8");
+    const header = Buffer.from(`Content-Length: ${body.length}${HEADER_SEPARATOR}`, "ascii");
+
+    return Buffer.concat([header, body]);
+}
+
+/**
+ * Incrementally decodes a stream of DAP messages, each preceded by a `Content-Length` header.
+ */
+export class MessageDecoder {
+    private buf: Buffer;
+
+    constructor() {
+        this.buf = Buffer.alloc(0);
+    }
+
+    /**
+     * Add the `chunk` of data received, and return any messages that were completed by it.
+     */
+    push(chunk: Buffer): ProtocolMessage[] {
+        const res: ProtocolMessage[] = [];
+
+        this.buf = Buffer.concat([this.buf, chunk]);
+
+        while (true) {
+            const headerEnd = this.buf.indexOf(HEADER_SEPARATOR);
+
+            if (headerEnd === -1) {
+                break;
+            }
+
+            const header = this.buf.slice(0, headerEnd).toString("ascii");
+            const match = header.match(/Content-Length: *(\d+)/i);
+
+            if (match === null) {
+                throw new Error(`Missing Content-Length in header ${header}`);
+            }
+
+            const bodyStart = headerEnd + HEADER_SEPARATOR.length;
+            const bodyEnd = bodyStart + Number(match[1]);
+
+            if (this.buf.length < bodyEnd) {
+                break;
+            }
+
+            res.push(JSON.parse(this.buf.slice(bodyStart, bodyEnd).toString("utf-8")));
+
+            this.buf = this.buf.slice(bodyEnd);
+        }
+
+        return res;
+    }
+}
+
+/**
+ * Serve DAP requests read from `input` using a new `SolDebugAdapter`, writing the responses and
+ * events to `output`. Requests are handled one at a time, in the order they are received.
+ * Returns a promise that resolves once `input` ends or a `disconnect` request is handled.
+ */
+export function serveDebugAdapter(input: Readable, output: Writable): Promise<void> {
+    const adapter = new SolDebugAdapter((msg) => output.write(encodeMessage(msg)));
+    const decoder = new MessageDecoder();
+    let queue = Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+        const onData = (chunk: Buffer) => {
+            let msgs: ProtocolMessage[];
+
+            try {
+                msgs = decoder.push(chunk);
+            } catch (e) {
+                input.off("data", onData);
+
+                return reject(e);
+            }
+
+            for (const msg of msgs) {
+                if (msg.type !== "request") {
+                    continue;
+                }
+
+                const req = msg as Request;
+
+                queue = queue.then(async () => {
+                    await adapter.handleRequest(req);
+
+                    if (req.command === "disconnect") {
+                        input.off("data", onData);
+                        resolve();
+                    }
+                });
+            }
+        };
+
+        input.on("data", onData);
+        input.on("end", () => queue.then(() => resolve()));
+    });
+}
@@ -10,6 +10,7 @@ import {
     enumToIntType,
     FixedBytesType,
     FunctionDefinition,
+    FunctionType,
     IntType,
     MappingType,
     PointerType,
@@ -24,7 +25,8 @@ import {
     variableDeclarationToTypeNode
 } from "solc-typed-ast";
 import { ABIEncoderVersion } from "solc-typed-ast/dist/types/abi";
-import { DataLocationKind, DataView } from ".";
+import { DataLocation, DataLocationKind, DataView } from ".";
+import { cd_decodeValue } from "./decoding";
 import { getFunctionSelector } from "../utils";
 
 export function changeToLocation(typ: TypeNode, newLoc: SolDataLocation): TypeNode {
@@ -56,7 +58,8 @@ export function changeToLocation(typ: TypeNode, newLoc: SolDataLocation): TypeNo
         typ instanceof FixedBytesType ||
         typ instanceof StringType ||
         typ instanceof BytesType ||
-        typ instanceof UserDefinedType
+        typ instanceof UserDefinedType ||
+        typ instanceof FunctionType
     ) {
         return typ;
     }
@@ -121,8 +124,6 @@ export function decodeMsgData(
     kind: DataLocationKind.Memory | DataLocationKind.CallData,
     encoderVersion: ABIEncoderVersion
 ): Array<[string, DataView | undefined]> {
-    const res: Array<[string, DataView | undefined]> = [];
-
     const selector =
         callee instanceof FunctionDefinition
             ? getFunctionSelector(callee, encoderVersion)
@@ -141,15 +142,108 @@ export function decodeMsgData(
               ])
             : callee.getterArgsAndReturn()[0].map((typ, i) => [`ARG_${i}`, typ]);
 
-    let staticOff = 4;
+    return buildArgViews(formals, 4, data.length, kind, encoderVersion);
+}
+
+/**
+ * Build `DataView`s for the ABI-encoded arguments of the constructor `constr`, that are appended
+ * at offset `argsOffset` after the creation bytecode in `data`. Similarly to `decodeMsgData` this
+ * is resilient to partially present arguments. Returns undefined if the types of the constructor
+ * parameters can't be resolved.
+ */
+export function decodeConstructorArgs(
+    constr: FunctionDefinition,
+    data: Buffer,
+    argsOffset: number,
+    encoderVersion: ABIEncoderVersion
+): Array<[string, DataView | undefined]> | undefined {
+    let formals: Array<[string, TypeNode]>;
+
+    try {
+        formals = constr.vParameters.vParameters.map((argDef) => [
+            argDef.name,
+            variableDeclarationToTypeNode(argDef)
+        ]);
+    } catch (e) {
+        // `variableDeclarationToTypeNode` may fail when referencing structs/contracts that are defined
+        // in SourceUnits that are missing
+        return undefined;
+    }
 
-    const len = data.length;
+    return buildArgViews(
+        formals,
+        argsOffset,
+        data.length,
+        DataLocationKind.CallData,
+        encoderVersion
+    );
+}
+
+/**
+ * Build `DataView`s for the ABI-encoded return values of `callee`, that reside in the memory range
+ * `[off, off + size)` (i.e. the memory region passed to the RETURN instruction).
+ */
+export function decodeReturnData(
+    callee: FunctionDefinition | VariableDeclaration,
+    off: number,
+    size: number,
+    encoderVersion: ABIEncoderVersion
+): Array<[string, DataView | undefined]> {
+    let formals: Array<[string, TypeNode]>;
+
+    if (callee instanceof FunctionDefinition) {
+        formals = callee.vReturnParameters.vParameters.map((retDef, i) => [
+            retDef.name === "" ? `RET_${i}` : retDef.name,
+            variableDeclarationToTypeNode(retDef)
+        ]);
+    } else {
+        const retT = callee.getterArgsAndReturn()[1];
+        const retTs = retT instanceof TupleType ? retT.elements : [retT];
+
+        formals = retTs.map((typ, i) => [`RET_${i}`, typ]);
+    }
+
+    return buildArgViews(
+        formals,
+        off,
+        off + size,
+        DataLocationKind.Memory,
+        encoderVersion,
+        BigInt(off)
+    );
+}
+
+/**
+ * Helper to build `DataView`s for each of the `formals`, assuming they are ABI-encoded
+ * starting at `staticOff`. Arguments whose static part doesn't fit before `end` are left undefined.
+ * When given, `abiEncodingBase` is attached to the (memory) locations of the arguments.
+ */
+function buildArgViews(
+    formals: Array<[string, TypeNode]>,
+    staticOff: number,
+    end: number,
+    kind: DataLocationKind.Memory | DataLocationKind.CallData,
+    encoderVersion: ABIEncoderVersion,
+    abiEncodingBase?: bigint
+): Array<[string, DataView | undefined]> {
+    const res: Array<[string, DataView | undefined]> = [];
 
     for (const [name, originalType] of formals) {
         const typ = toABIEncodedType(originalType, encoderVersion);
         const staticSize = abiStaticTypeSize(typ);
-        const loc =
-            staticOff + staticSize <= len ? { kind, address: BigInt(staticOff) } : undefined;
+        let loc: DataLocation | undefined;
+
+        if (staticOff + staticSize <= end) {
+            loc =
+                abiEncodingBase === undefined
+                    ? { kind, address: BigInt(staticOff) }
+                    : {
+                          kind: DataLocationKind.Memory,
+                          address: BigInt(staticOff),
+                          abiEncodingBase,
+                          abiEncoderVersion: encoderVersion
+                      };
+        }
 
         staticOff += staticSize;
 
@@ -161,6 +255,41 @@ export function decodeMsgData(
     return res;
 }
 
+/**
+ * Decode the values of the given `formals`, that are ABI-encoded in `data` starting at offset `startOff`.
+ * Unlike `decodeMsgData` this does the actual decoding. Returns undefined if any of the values fails decoding.
+ */
+export function abiDecodeValues(
+    formals: Array<[string, TypeNode]>,
+    data: Buffer,
+    startOff: number,
+    encoderVersion: ABIEncoderVersion
+): Array<[string, any]> | undefined {
+    const res: Array<[string, any]> = [];
+    let off = startOff;
+
+    for (const [name, originalType] of formals) {
+        const typ = toABIEncodedType(originalType, encoderVersion);
+        const decodeRes = cd_decodeValue(
+            typ,
+            originalType,
+            { kind: DataLocationKind.CallData, address: BigInt(off) },
+            data,
+            BigInt(startOff)
+        );
+
+        if (decodeRes === undefined) {
+            return undefined;
+        }
+
+        res.push([name, decodeRes[0]]);
+
+        off += decodeRes[1];
+    }
+
+    return res;
+}
+
 /**
  * Determine if the specified type `typ` is dynamic or not. Dynamic means
  * that if we are trying to read `typ` at location `loc`, in `loc` there should be just a
@@ -5,6 +5,8 @@ import {
     ASTNode,
     ASTReader,
     ContractDefinition,
+    ErrorDefinition,
+    EventDefinition,
     getABIEncoderVersion,
     SourceUnit
 } from "solc-typed-ast";
@@ -24,11 +26,19 @@ import {
 } from "..";
 import { HexString } from "../artifacts";
 import { OpcodeInfo } from "./opcodes";
+import {
+    fromSolcStorageLayout,
+    fromSolcStructLayouts,
+    StorageLayout,
+    StructLayouts
+} from "./storage_layout";
 
 export interface IArtifactManager {
     getContractFromDeployedBytecode(code: string | Buffer): ContractInfo | undefined;
     getContractFromCreationBytecode(code: string | Buffer): ContractInfo | undefined;
     getContractFromMDHash(hash: HexString): ContractInfo | undefined;
+    getErrorsBySelector(selector: UnprefixedHexString): ErrorDefinition[];
+    getEventsBySelector(selector: UnprefixedHexString): EventDefinition[];
     artifacts(): ArtifactInfo[];
     contracts(): ContractInfo[];
     // TODO: Need a better way of identifying runtime contracts than (bytecode, isCreation)
@@ -52,6 +62,10 @@ export interface ContractInfo {
     bytecode: BytecodeInfo;
     deployedBytecode: BytecodeInfo;
     mdHash: PrefixedHexString;
+    /// Storage layout reported by the compiler, if the artifact includes it
+    storageLayout: StorageLayout | undefined;
+    /// Layouts of the structs in storage reported by the compiler, if the artifact includes them
+    structLayouts: StructLayouts | undefined;
 }
 
 export interface ArtifactInfo {
@@ -118,6 +132,32 @@ export function getOffsetSrc(off: number, bytecode: BytecodeInfo): DecodedByteco
     return bytecode.srcMap[idx];
 }
 
+/**
+ * Add the error/event definition `def` to the selector map `m`, keyed by its selector.
+ */
+function addBySelector<T extends ErrorDefinition | EventDefinition>(
+    m: Map<UnprefixedHexString, T[]>,
+    def: T,
+    abiEncoderVersion: ABIEncoderVersion
+): void {
+    let selector: UnprefixedHexString;
+
+    try {
+        selector = def.canonicalSignatureHash(abiEncoderVersion);
+    } catch (e) {
+        // Computing the signature may fail when referencing types from missing SourceUnits
+        return;
+    }
+
+    const defs = m.get(selector);
+
+    if (defs === undefined) {
+        m.set(selector, [def]);
+    } else {
+        defs.push(def);
+    }
+}
+
 /**
  * ArtifactManager contains a set of solc standard JSON compiler artifacts, and allows for quick
  * lookup from creation or deployed bytecode to the actual compiler artifact.
@@ -126,11 +166,15 @@ export class ArtifactManager implements IArtifactManager {
     private _artifacts: ArtifactInfo[];
     private _contracts: ContractInfo[];
     private _mdHashToContractInfo: Map<string, ContractInfo>;
+    private _selectorToErrors: Map<UnprefixedHexString, ErrorDefinition[]>;
+    private _selectorToEvents: Map<UnprefixedHexString, EventDefinition[]>;
 
     constructor(artifacts: PartialSolcOutput[]) {
         this._artifacts = [];
         this._contracts = [];
         this._mdHashToContractInfo = new Map<string, ContractInfo>();
+        this._selectorToErrors = new Map<UnprefixedHexString, ErrorDefinition[]>();
+        this._selectorToEvents = new Map<UnprefixedHexString, EventDefinition[]>();
 
         for (const artifact of artifacts) {
             const reader = new ASTReader();
@@ -174,6 +218,19 @@ export class ArtifactManager implements IArtifactManager {
                 fileMap,
                 srcMap
             });
+
+            for (const unit of units) {
+                for (const errorDef of unit.getChildrenByType(ErrorDefinition)) {
+                    addBySelector(this._selectorToErrors, errorDef, abiEncoderVersion);
+                }
+
+                for (const eventDef of unit.getChildrenByType(EventDefinition)) {
+                    // Anonymous events don't have a selector topic
+                    if (!eventDef.anonymous) {
+                        addBySelector(this._selectorToEvents, eventDef, abiEncoderVersion);
+                    }
+                }
+            }
         }
 
         for (const artifactInfo of this._artifacts) {
@@ -237,7 +294,21 @@ export class ArtifactManager implements IArtifactManager {
                                 contractArtifact.evm.deployedBytecode.object
                             )
                         },
-                        mdHash: hash
+                        mdHash: hash,
+                        storageLayout:
+                            contractArtifact.storageLayout === undefined
+                                ? undefined
+                                : fromSolcStorageLayout(
+                                      contractArtifact.storageLayout,
+                                      artifactInfo.ctx
+                                  ),
+                        structLayouts:
+                            contractArtifact.storageLayout === undefined
+                                ? undefined
+                                : fromSolcStructLayouts(
+                                      contractArtifact.storageLayout,
+                                      artifactInfo.ctx
+                                  )
                     };
 
                     this._contracts.push(contractInfo);
@@ -256,6 +327,26 @@ export class ArtifactManager implements IArtifactManager {
         return this._mdHashToContractInfo.get(hash);
     }
 
+    /**
+     * Get all error definitions (from all artifacts) with the given 4-byte `selector`.
+     * Note that there may be several definitions with the same signature in different artifacts/scopes.
+     */
+    getErrorsBySelector(selector: UnprefixedHexString): ErrorDefinition[] {
+        const res = this._selectorToErrors.get(selector);
+
+        return res === undefined ? [] : res;
+    }
+
+    /**
+     * Get all non-anonymous event definitions (from all artifacts) whose selector (i.e. first topic)
+     * is the given 32-byte `selector`.
+     */
+    getEventsBySelector(selector: UnprefixedHexString): EventDefinition[] {
+        const res = this._selectorToEvents.get(selector);
+
+        return res === undefined ? [] : res;
+    }
+
     getContractFromDeployedBytecode(bytecode: string | Buffer): ContractInfo | undefined {
         const hash = getCodeHash(bytecode);
 
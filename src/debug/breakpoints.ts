@@ -0,0 +1,285 @@
+import {
+    ArtifactInfo,
+    ContractInfo,
+    IArtifactManager,
+    SourceFileInfo,
+    SourceFileType
+} from "./artifact_manager";
+import { decodeValue } from "./decoding";
+import { getArgs, getLocals } from "./locals";
+import { StepPredicate } from "./session";
+import { DataView, FrameKind, lastExternalFrame, StepState } from "./sol_debugger";
+
+/**
+ * Condition for a conditional breakpoint. It receives the decoded arguments and locals of the current
+ * function (see `getArgs`/`getLocals`) and the current step.
+ */
+export type BreakpointCondition = (values: { [name: string]: any }, step: StepState) => boolean;
+
+export interface SourceBreakpoint {
+    /// Source file name. Matches any file whose name is `file` or a suffix of `file` (or vice versa)
+    file: string;
+    /// 1-based line number
+    line: number;
+    /// Optional 1-based (byte) column number
+    column?: number;
+    condition?: BreakpointCondition;
+}
+
+/**
+ * The set of instruction indices in the creation or deployed bytecode of a given contract that map
+ * to the source range of a breakpoint.
+ */
+export interface BreakpointLocation {
+    contract: ContractInfo;
+    isCreation: boolean;
+    instructions: Set<number>;
+}
+
+export interface ResolvedBreakpoint {
+    breakpoint: SourceBreakpoint;
+    locations: BreakpointLocation[];
+}
+
+/**
+ * Given the contents of a source file, compute the byte range `[start, end)` of the given 1-based
+ * `line`. Returns undefined if the line is out of range.
+ */
+export function getLineRange(contents: string, line: number): [number, number] | undefined {
+    const buf = Buffer.from(contents, "utf-8");
+    let start = 0;
+
+    for (let curLine = 1; curLine < line; curLine++) {
+        const nextNewline = buf.indexOf(0x0a, start);
+
+        if (nextNewline === -1) {
+            return undefined;
+        }
+
+        start = nextNewline + 1;
+    }
+
+    if (line < 1 || start > buf.length) {
+        return undefined;
+    }
+
+    const end = buf.indexOf(0x0a, start);
+
+    return [start, end === -1 ? buf.length : end];
+}
+
+/**
+ * Given the contents of a source file, compute the 1-based line and (byte) column of the byte offset `off`.
+ */
+export function getLineCol(contents: string, off: number): [number, number] {
+    const buf = Buffer.from(contents, "utf-8");
+    let line = 1;
+    let lineStart = 0;
+
+    for (let i = buf.indexOf(0x0a); i !== -1 && i < off; i = buf.indexOf(0x0a, i + 1)) {
+        line++;
+        lineStart = i + 1;
+    }
+
+    return [line, off - lineStart + 1];
+}
+
+/**
+ * Return true if the file `name` from the artifacts matches the user-given `file`. Either one may
+ * be a suffix of the other (e.g. when `file` is just a file name, or an absolute path).
+ */
+function fileMatches(name: string, file: string): boolean {
+    return name === file || name.endsWith("/" + file) || file.endsWith("/" + name);
+}
+
+/**
+ * Find the Solidity source file described by `file` in `artifact`
+ */
+function findFile(artifact: ArtifactInfo, file: string): SourceFileInfo | undefined {
+    for (const fileInfo of artifact.fileMap.values()) {
+        if (fileInfo.type === SourceFileType.Solidity && fileMatches(fileInfo.name, file)) {
+            return fileInfo;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Resolve the source breakpoint `bp` to the set of instructions in all contracts known to
+ * `artifactManager`, whose source map entries start on the breakpoint's line (and contain the
+ * breakpoint's column, if one is specified).
+ *
+ * Note that this requires the source file contents to be present in the artifacts (`sources[file].contents`).
+ */
+export function resolveBreakpoint(
+    bp: SourceBreakpoint,
+    artifactManager: IArtifactManager
+): ResolvedBreakpoint {
+    const locations: BreakpointLocation[] = [];
+
+    for (const contract of artifactManager.contracts()) {
+        const fileInfo = findFile(contract.artifact, bp.file);
+
+        if (fileInfo === undefined || fileInfo.contents === undefined) {
+            continue;
+        }
+
+        const fileIdx = fileInfo.fileIndex;
+        const range = getLineRange(fileInfo.contents, bp.line);
+
+        if (range === undefined) {
+            continue;
+        }
+
+        const [lineStart, lineEnd] = range;
+        const colOff = bp.column !== undefined ? lineStart + bp.column - 1 : undefined;
+
+        for (const [isCreation, bytecodeInfo] of [
+            [true, contract.bytecode],
+            [false, contract.deployedBytecode]
+        ] as const) {
+            const instructions = new Set<number>();
+
+            bytecodeInfo.srcMap.forEach((entry, i) => {
+                if (
+                    entry.sourceIndex === fileIdx &&
+                    entry.start >= lineStart &&
+                    entry.start < lineEnd &&
+                    (colOff === undefined ||
+                        (entry.start <= colOff && colOff < entry.start + entry.length))
+                ) {
+                    instructions.add(i);
+                }
+            });
+
+            if (instructions.size > 0) {
+                locations.push({ contract, isCreation, instructions });
+            }
+        }
+    }
+
+    return { breakpoint: bp, locations };
+}
+
+/**
+ * Return true if the instruction executed at `step` is one of the instructions of `bp`.
+ */
+function atBreakpoint(bp: ResolvedBreakpoint, step: StepState): boolean {
+    if (step.stack.length === 0) {
+        return false;
+    }
+
+    const extFrame = lastExternalFrame(step.stack);
+    const isCreation = extFrame.kind === FrameKind.Creation;
+
+    if (extFrame.info === undefined) {
+        return false;
+    }
+
+    const bytecodeInfo = isCreation ? extFrame.info.bytecode : extFrame.info.deployedBytecode;
+    const instrIdx = bytecodeInfo.offsetToIndexMap.get(step.pc);
+
+    if (instrIdx === undefined) {
+        return false;
+    }
+
+    return bp.locations.some(
+        (loc) =>
+            loc.contract === extFrame.info &&
+            loc.isCreation === isCreation &&
+            loc.instructions.has(instrIdx)
+    );
+}
+
+/**
+ * Decode the values of the arguments and locals of the current function at `step` into a name-value
+ * object. Values that fail decoding are undefined.
+ */
+function decodeFunValues(step: StepState): { [name: string]: any } {
+    const res: { [name: string]: any } = {};
+    const views: Array<[string, DataView | undefined]> = [
+        ...(getArgs(step) || []),
+        ...(getLocals(step) || [])
+    ];
+
+    for (const [name, view] of views) {
+        try {
+            res[name] = view === undefined ? undefined : decodeValue(view, step);
+        } catch (e) {
+            res[name] = undefined;
+        }
+    }
+
+    return res;
+}
+
+/**
+ * Return true if the step at index `idx` in `trace` hits the breakpoint `bp`. A step hits
+ * a breakpoint if it executes one of the breakpoint's instructions, while the previous step in the
+ * same frame (ignoring any calls made in between) didn't, and the breakpoint condition (if any) holds.
+ */
+export function isBreakpointHit(bp: ResolvedBreakpoint, trace: StepState[], idx: number): boolean {
+    const step = trace[idx];
+
+    if (!atBreakpoint(bp, step)) {
+        return false;
+    }
+
+    // Find the previous step in the same frame, skipping over any calls made from it
+    const depth = step.stack.length;
+
+    for (let i = idx - 1; i >= 0; i--) {
+        const prev = trace[i];
+
+        // Note that the step returning from an internal call already has the caller's stack depth
+        if (prev.stack.length > depth || (i > 0 && trace[i - 1].stack.length > depth)) {
+            continue;
+        }
+
+        if (
+            prev.stack.length === depth &&
+            prev.stack[depth - 1] === step.stack[depth - 1] &&
+            atBreakpoint(bp, prev)
+        ) {
+            return false;
+        }
+
+        break;
+    }
+
+    const condition = bp.breakpoint.condition;
+
+    if (condition === undefined) {
+        return true;
+    }
+
+    try {
+        return condition(decodeFunValues(step), step);
+    } catch (e) {
+        return false;
+    }
+}
+
+/**
+ * Return the indices of all steps in `trace` that hit the breakpoint `bp`.
+ */
+export function findBreakpointHits(bp: ResolvedBreakpoint, trace: StepState[]): number[] {
+    const res: number[] = [];
+
+    for (let i = 0; i < trace.length; i++) {
+        if (isBreakpointHit(bp, trace, i)) {
+            res.push(i);
+        }
+    }
+
+    return res;
+}
+
+/**
+ * Convert the resolved breakpoint `bp` to a predicate, that can be added to a `DebugSession` that
+ * is debugging `trace`.
+ */
+export function breakpointPredicate(bp: ResolvedBreakpoint, trace: StepState[]): StepPredicate {
+    return (step, idx) => isBreakpointHit(bp, trace, idx);
+}
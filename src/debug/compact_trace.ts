@@ -0,0 +1,274 @@
+import { Block } from "@ethereumjs/block";
+import { Transaction } from "@ethereumjs/tx";
+import { RunTxResult } from "@ethereumjs/vm/dist/runTx";
+import { StateManager } from "@ethereumjs/vm/dist/state";
+import { assert } from "solc-typed-ast";
+import { Memory, SolTxDebugger, Stack, StepState, Storage } from "./sol_debugger";
+
+/// By default take a full checkpoint of the low-level state every 1000 steps
+export const DEFAULT_CHECKPOINT_INTERVAL = 1000;
+
+const WORD_SIZE = 32;
+
+/**
+ * A step without its low-level VM state (`evmStack`, `memory` and `storage`)
+ */
+type LightStep = Omit<StepState, "evmStack" | "memory" | "storage">;
+
+/**
+ * Full snapshot of the low-level VM state of a step
+ */
+interface LowLevelState {
+    evmStack: Stack;
+    memory: Memory;
+    storage: Storage;
+}
+
+/**
+ * Change in the low-level VM state between a step and the step before it:
+ *
+ * - `pop` words are popped off the EVM stack, after which the words in `push` are pushed
+ * - `memorySize` is the new memory size, and `memoryWrites` are the (32-byte aligned) chunks that changed.
+ * If the memory is unchanged both are undefined.
+ * - `storageWrites` are the storage slots that changed. If any slots were removed, then the whole new
+ * storage is recorded in `storage` instead.
+ */
+interface StepDelta {
+    pop: number;
+    push: Buffer[];
+    memorySize?: number;
+    memoryWrites?: Array<[number, Buffer]>;
+    storageWrites?: Array<[bigint, Buffer]>;
+    storage?: Storage;
+}
+
+function diffStack(before: Stack, after: Stack): [number, Buffer[]] {
+    let common = 0;
+
+    while (
+        common < before.length &&
+        common < after.length &&
+        before[common].equals(after[common])
+    ) {
+        common++;
+    }
+
+    return [before.length - common, after.slice(common)];
+}
+
+/**
+ * Compute the 32-byte aligned chunks of `after` that differ from `before` (anything past the end of
+ * `before` is considered different). Consecutive changed words are merged into a single chunk.
+ */
+function diffMemory(before: Memory, after: Memory): Array<[number, Buffer]> {
+    const res: Array<[number, Buffer]> = [];
+    let chunkStart: number | undefined;
+
+    for (let off = 0; off <= after.length; off += WORD_SIZE) {
+        const end = Math.min(off + WORD_SIZE, after.length);
+        const changed =
+            off < after.length &&
+            (end > before.length || before.compare(after, off, end, off, end) !== 0);
+
+        if (changed && chunkStart === undefined) {
+            chunkStart = off;
+        } else if (!changed && chunkStart !== undefined) {
+            res.push([chunkStart, Buffer.from(after.slice(chunkStart, off))]);
+            chunkStart = undefined;
+        }
+    }
+
+    if (chunkStart !== undefined) {
+        res.push([chunkStart, Buffer.from(after.slice(chunkStart))]);
+    }
+
+    return res;
+}
+
+/**
+ * Compute the storage slots that differ between `before` and `after`. Returns undefined if any slots
+ * were removed.
+ */
+function diffStorage(before: Storage, after: Storage): Array<[bigint, Buffer]> | undefined {
+    const res: Array<[bigint, Buffer]> = [];
+    const afterEntries = new Map(after.entries());
+
+    for (const [key] of before.entries()) {
+        if (!afterEntries.has(key)) {
+            return undefined;
+        }
+    }
+
+    for (const [key, val] of afterEntries) {
+        const oldVal = before.get(key);
+
+        if (oldVal === undefined || !oldVal.equals(val)) {
+            res.push([key, val]);
+        }
+    }
+
+    return res;
+}
+
+function computeDelta(before: LowLevelState, after: LowLevelState): StepDelta {
+    const [pop, push] = diffStack(before.evmStack, after.evmStack);
+    const delta: StepDelta = { pop, push };
+
+    // Memory and storage are aliased between steps that don't change them
+    if (after.memory !== before.memory) {
+        delta.memorySize = after.memory.length;
+        delta.memoryWrites = diffMemory(before.memory, after.memory);
+    }
+
+    if (after.storage !== before.storage) {
+        const writes = diffStorage(before.storage, after.storage);
+
+        if (writes === undefined) {
+            delta.storage = after.storage;
+        } else {
+            delta.storageWrites = writes;
+        }
+    }
+
+    return delta;
+}
+
+function applyDelta(state: LowLevelState, delta: StepDelta): LowLevelState {
+    const evmStack = [...state.evmStack.slice(0, state.evmStack.length - delta.pop), ...delta.push];
+    let memory = state.memory;
+    let storage = state.storage;
+
+    if (delta.memorySize !== undefined && delta.memoryWrites !== undefined) {
+        memory = Buffer.alloc(delta.memorySize, 0);
+        state.memory.copy(memory, 0, 0, Math.min(state.memory.length, delta.memorySize));
+
+        for (const [off, chunk] of delta.memoryWrites) {
+            chunk.copy(memory, off);
+        }
+    }
+
+    if (delta.storage !== undefined) {
+        storage = delta.storage;
+    } else if (delta.storageWrites !== undefined) {
+        storage = storage.setMany(delta.storageWrites);
+    }
+
+    return { evmStack, memory, storage };
+}
+
+/**
+ * A compact representation of a trace. Instead of keeping full snapshots of the EVM stack, memory
+ * and storage for every step, `CompactTrace` keeps a full checkpoint of them every `checkpointInterval`
+ * steps, and only the changes (stack pushes/pops, memory writes and storage writes) for all other
+ * steps. Steps are reconstructed lazily on access by `get`, and have the same shape as the steps
+ * returned by `SolTxDebugger.debugTx`.
+ *
+ * Reconstructing a step requires replaying the changes from the nearest preceding checkpoint. The
+ * last reconstructed state is cached, so accessing the steps in order is cheap.
+ */
+export class CompactTrace {
+    readonly checkpointInterval: number;
+    private steps: LightStep[];
+    private deltas: StepDelta[];
+    private checkpoints: LowLevelState[];
+    /// Low-level state of the last pushed step. Needed to compute the delta for the next step
+    private lastState: LowLevelState | undefined;
+    /// Cache of the last reconstructed state
+    private cursor: [number, LowLevelState] | undefined;
+
+    constructor(checkpointInterval: number = DEFAULT_CHECKPOINT_INTERVAL) {
+        assert(checkpointInterval > 0, `Checkpoint interval must be positive`);
+
+        this.checkpointInterval = checkpointInterval;
+        this.steps = [];
+        this.deltas = [];
+        this.checkpoints = [];
+    }
+
+    /**
+     * Debug the transaction `tx` (see `SolTxDebugger.debugTxStream`) and build a `CompactTrace` for it
+     * without ever materializing the full trace.
+     */
+    static async fromTx(
+        solDbg: SolTxDebugger,
+        tx: Transaction,
+        block: Block | undefined,
+        stateManager: StateManager | undefined,
+        checkpointInterval?: number
+    ): Promise<[CompactTrace, RunTxResult]> {
+        const trace = new CompactTrace(checkpointInterval);
+        const txRes = await solDbg.debugTxStream(tx, block, stateManager, (step) =>
+            trace.push(step)
+        );
+
+        return [trace, txRes];
+    }
+
+    get length(): number {
+        return this.steps.length;
+    }
+
+    /**
+     * Append `step` to the end of the trace
+     */
+    push(step: StepState): void {
+        const { evmStack, memory, storage, ...light } = step;
+        const state: LowLevelState = { evmStack, memory, storage };
+        const idx = this.steps.length;
+
+        this.steps.push(light);
+
+        if (idx % this.checkpointInterval === 0) {
+            this.checkpoints.push(state);
+            // Keep the indices of `deltas` aligned with the steps
+            this.deltas.push({ pop: 0, push: [] });
+        } else {
+            this.deltas.push(computeDelta(this.lastState as LowLevelState, state));
+        }
+
+        this.lastState = state;
+    }
+
+    private getLowLevelState(idx: number): LowLevelState {
+        const checkpointIdx = idx - (idx % this.checkpointInterval);
+        let curIdx: number;
+        let state: LowLevelState;
+
+        if (this.cursor !== undefined && this.cursor[0] <= idx && this.cursor[0] >= checkpointIdx) {
+            [curIdx, state] = this.cursor;
+        } else {
+            curIdx = checkpointIdx;
+            state = this.checkpoints[checkpointIdx / this.checkpointInterval];
+        }
+
+        for (; curIdx < idx; curIdx++) {
+            state = applyDelta(state, this.deltas[curIdx + 1]);
+        }
+
+        this.cursor = [idx, state];
+
+        return state;
+    }
+
+    /**
+     * Reconstruct the `idx`-th step of the trace
+     */
+    get(idx: number): StepState {
+        assert(idx >= 0 && idx < this.steps.length, `Step ${idx} out of range`);
+
+        return { ...this.steps[idx], ...this.getLowLevelState(idx) };
+    }
+
+    *[Symbol.iterator](): Iterator<StepState> {
+        for (let i = 0; i < this.steps.length; i++) {
+            yield this.get(i);
+        }
+    }
+
+    /**
+     * Reconstruct all steps. Note that this uses as much memory as the trace returned by `debugTx`.
+     */
+    toArray(): StepState[] {
+        return [...this];
+    }
+}
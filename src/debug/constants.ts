@@ -0,0 +1,517 @@
+import { Address, keccak256 } from "ethereumjs-util";
+import {
+    AddressType,
+    BinaryOperation,
+    BoolType,
+    BytesType,
+    Conditional,
+    ContractDefinition,
+    ElementaryTypeNameExpression,
+    EnumDefinition,
+    EnumValue,
+    Expression,
+    FixedBytesType,
+    FunctionCall,
+    FunctionCallKind,
+    Identifier,
+    IntType,
+    Literal,
+    LiteralKind,
+    MemberAccess,
+    PointerType,
+    StringType,
+    TupleExpression,
+    TypeNode,
+    UnaryOperation,
+    UserDefinedType,
+    UserDefinedValueTypeDefinition,
+    typeNameToTypeNode,
+    VariableDeclaration,
+    variableDeclarationToTypeNode
+} from "solc-typed-ast";
+import { bigEndianBufToBigint, bigIntToBuf, fits, limits } from "..";
+
+/**
+ * Value of a constant expression during evaluation. Integers (of any type) are bigints, fixed and
+ * dynamic bytes are Buffers and string literals are strings.
+ */
+type ConstValue = bigint | boolean | string | Buffer | Address;
+
+const TEN = BigInt(10);
+
+/// solc rejects rational literal expressions whose values don't fit in 4096 bits
+const LITERAL_BITS = 4096;
+
+/// Multipliers of the ether and time subdenominations of number literals
+const SUBDENOMINATIONS: { [unit: string]: bigint } = {
+    wei: BigInt(1),
+    gwei: TEN ** BigInt(9),
+    szabo: TEN ** BigInt(12),
+    finney: TEN ** BigInt(15),
+    ether: TEN ** BigInt(18),
+    seconds: BigInt(1),
+    minutes: BigInt(60),
+    hours: BigInt(3600),
+    days: BigInt(86400),
+    weeks: BigInt(604800),
+    years: BigInt(31536000)
+};
+
+/**
+ * Wrap the integer `val` to the range of the integer type `typ`, as an explicit conversion would
+ */
+function wrapInt(val: bigint, typ: IntType): bigint {
+    return typ.signed ? BigInt.asIntN(typ.nBits, val) : BigInt.asUintN(typ.nBits, val);
+}
+
+function parseNumberLiteral(lit: Literal): bigint | undefined {
+    const str = lit.value.replace(/_/g, "");
+    let res: bigint;
+    let denominator = BigInt(1);
+
+    if (str.startsWith("0x")) {
+        res = BigInt(str);
+    } else {
+        const m = str.match(/^([0-9]*)(?:\.([0-9]*))?(?:[eE](-?[0-9]+))?$/);
+
+        if (m === null) {
+            return undefined;
+        }
+
+        const fraction = m[2] === undefined ? "" : m[2];
+        const exp = m[3] === undefined ? 0 : Number(m[3]) - fraction.length;
+
+        res = BigInt(m[1] + fraction);
+
+        if (exp >= 0) {
+            res *= TEN ** BigInt(exp);
+        } else {
+            denominator = TEN ** BigInt(-exp);
+        }
+    }
+
+    if (lit.subdenomination !== undefined) {
+        res *= SUBDENOMINATIONS[lit.subdenomination];
+    }
+
+    // Rational constants are only allowed in intermediate computations, which we don't support
+    return res % denominator === BigInt(0) ? res / denominator : undefined;
+}
+
+function evalLiteral(lit: Literal): ConstValue | undefined {
+    switch (lit.kind) {
+        case LiteralKind.Number:
+            return parseNumberLiteral(lit);
+        case LiteralKind.Bool:
+            return lit.value === "true";
+        case LiteralKind.HexString:
+            return Buffer.from(lit.hexValue, "hex");
+        default:
+            return lit.value;
+    }
+}
+
+/**
+ * Compute the type that an explicit conversion (or a `type(T)` expression) with type string
+ * `typeString` converts to. Returns undefined for types we don't convert to.
+ */
+function typeStringToType(typeString: string): TypeNode | undefined {
+    const str = typeString.replace(/^type\((.*)\)$/, "$1");
+    let m = str.match(/^(u?)int([0-9]*)$/);
+
+    if (m !== null) {
+        return new IntType(m[2] === "" ? 256 : Number(m[2]), m[1] === "");
+    }
+
+    m = str.match(/^bytes([0-9]+)$/);
+
+    if (m !== null) {
+        return new FixedBytesType(Number(m[1]));
+    }
+
+    if (str === "address" || str === "address payable" || str.startsWith("contract ")) {
+        return new AddressType(str === "address payable");
+    }
+
+    if (str === "bool") {
+        return new BoolType();
+    }
+
+    return undefined;
+}
+
+/**
+ * Convert the value `val` to the type `typ`, following the semantics of explicit conversions in
+ * Solidity (e.g. integers are truncated, fixed bytes are padded on the right)
+ */
+function convertValue(val: ConstValue, typ: TypeNode): ConstValue | undefined {
+    if (typ instanceof PointerType) {
+        typ = typ.to;
+    }
+
+    if (typ instanceof UserDefinedType) {
+        const def = typ.definition;
+
+        if (def instanceof UserDefinedValueTypeDefinition) {
+            return convertValue(val, typeNameToTypeNode(def.underlyingType));
+        }
+
+        if (def instanceof ContractDefinition) {
+            return convertValue(val, new AddressType(false));
+        }
+
+        return def instanceof EnumDefinition && typeof val === "bigint" ? val : undefined;
+    }
+
+    if (typ instanceof IntType) {
+        if (val instanceof Buffer) {
+            val = bigEndianBufToBigint(val);
+        } else if (val instanceof Address) {
+            val = bigEndianBufToBigint(val.toBuffer());
+        }
+
+        return typeof val === "bigint" ? wrapInt(val, typ) : undefined;
+    }
+
+    if (typ instanceof FixedBytesType) {
+        if (typeof val === "bigint") {
+            return bigIntToBuf(val, typ.size, "big");
+        }
+
+        if (typeof val === "string") {
+            val = Buffer.from(val, "utf-8");
+        }
+
+        if (!(val instanceof Buffer)) {
+            return undefined;
+        }
+
+        const res = Buffer.alloc(typ.size, 0);
+
+        val.copy(res, 0, 0, Math.min(val.length, typ.size));
+
+        return res;
+    }
+
+    if (typ instanceof AddressType) {
+        if (val instanceof Address) {
+            return val;
+        }
+
+        if (typeof val === "bigint") {
+            return new Address(bigIntToBuf(val, 20, "big"));
+        }
+
+        return val instanceof Buffer && val.length === 20 ? new Address(val) : undefined;
+    }
+
+    if (typ instanceof BoolType) {
+        return typeof val === "boolean" ? val : undefined;
+    }
+
+    if (typ instanceof StringType) {
+        return typeof val === "string" ? val : undefined;
+    }
+
+    if (typ instanceof BytesType) {
+        return typeof val === "string" ? Buffer.from(val, "utf-8") : val;
+    }
+
+    return undefined;
+}
+
+/**
+ * Apply the overflow rules of the type with type string `typeString` to the result `val` of an
+ * arithmetic operation. Results that don't fit in an integer type would revert (as in checked
+ * arithmetic), while rational literal expressions are only limited to `LITERAL_BITS` bits.
+ */
+function checkOverflow(val: bigint, typeString: string): bigint | undefined {
+    const typ = typeStringToType(typeString);
+
+    if (typ instanceof IntType) {
+        return fits(val, typ) ? val : undefined;
+    }
+
+    return fits(val, new IntType(LITERAL_BITS + 1, true)) ? val : undefined;
+}
+
+/**
+ * Get the number of bits of the integer type with type string `typeString` (`LITERAL_BITS` for
+ * rational literal expressions)
+ */
+function intTypeWidth(typeString: string): bigint {
+    const typ = typeStringToType(typeString);
+
+    return BigInt(typ instanceof IntType ? typ.nBits : LITERAL_BITS);
+}
+
+function toBytes(val: ConstValue): Buffer | undefined {
+    if (typeof val === "string") {
+        return Buffer.from(val, "utf-8");
+    }
+
+    if (val instanceof Address) {
+        return val.toBuffer();
+    }
+
+    return val instanceof Buffer ? val : undefined;
+}
+
+function evalUnary(expr: UnaryOperation): ConstValue | undefined {
+    const val = evalExpr(expr.vSubExpression);
+
+    if (expr.operator === "!") {
+        return typeof val === "boolean" ? !val : undefined;
+    }
+
+    if (typeof val !== "bigint") {
+        return undefined;
+    }
+
+    if (expr.operator === "-") {
+        return checkOverflow(-val, expr.typeString);
+    }
+
+    if (expr.operator === "~") {
+        const typ = typeStringToType(expr.typeString);
+
+        return typ instanceof IntType ? wrapInt(~val, typ) : ~val;
+    }
+
+    return undefined;
+}
+
+function evalBinary(expr: BinaryOperation): ConstValue | undefined {
+    const left = evalExpr(expr.vLeftExpression);
+    const right = evalExpr(expr.vRightExpression);
+
+    if (typeof left === "boolean" && typeof right === "boolean") {
+        switch (expr.operator) {
+            case "&&":
+                return left && right;
+            case "||":
+                return left || right;
+            case "==":
+                return left === right;
+            case "!=":
+                return left !== right;
+        }
+
+        return undefined;
+    }
+
+    if (typeof left !== "bigint" || typeof right !== "bigint") {
+        return undefined;
+    }
+
+    const width = intTypeWidth(expr.typeString);
+
+    switch (expr.operator) {
+        case "+":
+            return checkOverflow(left + right, expr.typeString);
+        case "-":
+            return checkOverflow(left - right, expr.typeString);
+        case "*":
+            return checkOverflow(left * right, expr.typeString);
+        case "/":
+            return right === BigInt(0) ? undefined : checkOverflow(left / right, expr.typeString);
+        case "%":
+            return right === BigInt(0) ? undefined : left % right;
+        case "**": {
+            const magnitude = left < BigInt(0) ? -left : left;
+
+            // |left| ** right is at least 2 ** ((bits(|left|) - 1) * right), so reject powers that
+            // overflow the type before computing a potentially huge number
+            if (
+                right < BigInt(0) ||
+                (magnitude > BigInt(1) && BigInt(magnitude.toString(2).length - 1) * right >= width)
+            ) {
+                return undefined;
+            }
+
+            return checkOverflow(left ** right, expr.typeString);
+        }
+        case "<<": {
+            if (right < BigInt(0) || right > width) {
+                return undefined;
+            }
+
+            // Shifts aren't checked, and the bits shifted out of integer types are dropped
+            const typ = typeStringToType(expr.typeString);
+
+            return typ instanceof IntType
+                ? wrapInt(left << right, typ)
+                : checkOverflow(left << right, expr.typeString);
+        }
+        case ">>":
+            return right < BigInt(0) ? undefined : left >> right;
+        case "&":
+            return left & right;
+        case "|":
+            return left | right;
+        case "^":
+            return left ^ right;
+        case "==":
+            return left === right;
+        case "!=":
+            return left !== right;
+        case "<":
+            return left < right;
+        case "<=":
+            return left <= right;
+        case ">":
+            return left > right;
+        case ">=":
+            return left >= right;
+    }
+
+    return undefined;
+}
+
+function evalFunctionCall(expr: FunctionCall): ConstValue | undefined {
+    if (expr.kind === FunctionCallKind.TypeConversion) {
+        const typ = typeStringToType(expr.typeString);
+        const val = evalExpr(expr.vArguments[0]);
+
+        return typ === undefined || val === undefined ? val : convertValue(val, typ);
+    }
+
+    // Only builtin functions can be evaluated
+    if (expr.kind !== FunctionCallKind.FunctionCall || expr.vReferencedDeclaration !== undefined) {
+        return undefined;
+    }
+
+    const args = expr.vArguments.map((arg) => evalExpr(arg));
+    const bytes = args.map((arg) => (arg === undefined ? undefined : toBytes(arg)));
+
+    if (bytes.some((arg) => arg === undefined)) {
+        return undefined;
+    }
+
+    if (expr.vFunctionName === "keccak256" && bytes.length === 1) {
+        return keccak256(bytes[0] as Buffer);
+    }
+
+    if (expr.vFunctionName === "encodePacked") {
+        return Buffer.concat(bytes as Buffer[]);
+    }
+
+    return undefined;
+}
+
+function evalMemberAccess(expr: MemberAccess): ConstValue | undefined {
+    const def = expr.vReferencedDeclaration;
+
+    if (def instanceof EnumValue) {
+        return BigInt((def.parent as EnumDefinition).vMembers.indexOf(def));
+    }
+
+    if (def instanceof VariableDeclaration) {
+        return evalConstant(def);
+    }
+
+    // type(T).min and type(T).max
+    const base = expr.vExpression;
+
+    if (
+        base instanceof FunctionCall &&
+        base.vArguments.length === 1 &&
+        base.vArguments[0] instanceof ElementaryTypeNameExpression
+    ) {
+        const typ = typeStringToType(base.vArguments[0].typeString);
+
+        if (typ instanceof IntType) {
+            const [min, max] = limits(typ);
+
+            if (expr.memberName === "max") {
+                return max;
+            }
+
+            if (expr.memberName === "min") {
+                return min;
+            }
+        }
+    }
+
+    return undefined;
+}
+
+function evalExpr(expr: Expression): ConstValue | undefined {
+    if (expr instanceof Literal) {
+        return evalLiteral(expr);
+    }
+
+    if (expr instanceof UnaryOperation) {
+        return evalUnary(expr);
+    }
+
+    if (expr instanceof BinaryOperation) {
+        return evalBinary(expr);
+    }
+
+    if (expr instanceof TupleExpression) {
+        const components = expr.vOriginalComponents;
+
+        return components.length === 1 && components[0] !== null && !expr.isInlineArray
+            ? evalExpr(components[0])
+            : undefined;
+    }
+
+    if (expr instanceof Conditional) {
+        const cond = evalExpr(expr.vCondition);
+
+        if (typeof cond !== "boolean") {
+            return undefined;
+        }
+
+        return evalExpr(cond ? expr.vTrueExpression : expr.vFalseExpression);
+    }
+
+    if (expr instanceof Identifier) {
+        const def = expr.vReferencedDeclaration;
+
+        return def instanceof VariableDeclaration ? evalConstant(def) : undefined;
+    }
+
+    if (expr instanceof FunctionCall) {
+        return evalFunctionCall(expr);
+    }
+
+    if (expr instanceof MemberAccess) {
+        return evalMemberAccess(expr);
+    }
+
+    return undefined;
+}
+
+/**
+ * Evaluate the initializer of the constant variable `decl`. We support literals, arithmetic,
+ * bitwise and comparison operators, explicit conversions, references to other constants,
+ * `type(T).min`/`type(T).max` and `keccak256` of literals (optionally wrapped in `abi.encodePacked`).
+ * The result uses the same representation as decoded values (e.g. bigints for integers, Buffers for
+ * fixed bytes and Addresses for addresses). Returns undefined if `decl` is not a constant, or we can't
+ * evaluate its initializer.
+ */
+export function evalConstant(decl: VariableDeclaration): any {
+    if (!decl.constant || decl.vValue === undefined) {
+        return undefined;
+    }
+
+    let typ: TypeNode;
+
+    try {
+        typ = variableDeclarationToTypeNode(decl);
+    } catch (e) {
+        return undefined;
+    }
+
+    let val: ConstValue | undefined;
+
+    try {
+        val = evalExpr(decl.vValue);
+    } catch (e) {
+        return undefined;
+    }
+
+    return val === undefined ? undefined : convertValue(val, typ);
+}
@@ -0,0 +1,243 @@
+import {
+    BytesType,
+    MappingType,
+    Mutability,
+    PointerType,
+    StringType,
+    TypeNode,
+    variableDeclarationToTypeNode
+} from "solc-typed-ast";
+import { bigEndianBufToBigint } from "..";
+import { ContractInfo } from "./artifact_manager";
+import { evalConstant } from "./constants";
+import { decodeValue, stor_decodeValue } from "./decoding";
+import { DataLocationKind, DataView, StepState, Storage, StorageLocation } from "./sol_debugger";
+import { getContractStorageLayout, KeccakPreimages, ppMappingKey } from "./storage_layout";
+
+/**
+ * A decoded state variable. `value` is undefined if we failed decoding it. Mappings are decoded as a
+ * `Map` from the pretty-printed keys to the decoded values.
+ */
+export interface DecodedStateVariable {
+    name: string;
+    type: TypeNode;
+    value: any;
+}
+
+/// Map from the slot of a mapping to the keys observed for it, and the slots of the corresponding values
+type MappingKeys = Map<bigint, Array<[Buffer, bigint]>>;
+
+function getMappingKeys(preimages: KeccakPreimages): MappingKeys {
+    const res: MappingKeys = new Map();
+
+    for (const [hash, preimage] of preimages) {
+        if (preimage.length < 32) {
+            continue;
+        }
+
+        const slot = bigEndianBufToBigint(preimage.slice(preimage.length - 32));
+        let keys = res.get(slot);
+
+        if (keys === undefined) {
+            keys = [];
+            res.set(slot, keys);
+        }
+
+        keys.push([preimage.slice(0, preimage.length - 32), hash]);
+    }
+
+    return res;
+}
+
+function decodeStateValue(
+    typ: TypeNode,
+    loc: StorageLocation,
+    storage: Storage,
+    mappingKeys: MappingKeys
+): any {
+    const baseT = typ instanceof PointerType ? typ.to : typ;
+
+    if (!(baseT instanceof MappingType)) {
+        const res = stor_decodeValue(typ, loc, storage);
+
+        return res === undefined ? undefined : res[0];
+    }
+
+    const keyT = baseT.keyType instanceof PointerType ? baseT.keyType.to : baseT.keyType;
+    const dynamicKey = keyT instanceof BytesType || keyT instanceof StringType;
+    const res = new Map<string, any>();
+
+    for (const [key, valueSlot] of mappingKeys.get(loc.address) || []) {
+        // Value type keys are always padded to a word
+        if (!dynamicKey && key.length !== 32) {
+            continue;
+        }
+
+        const valueLoc: StorageLocation = {
+            kind: DataLocationKind.Storage,
+            address: valueSlot,
+            endOffsetInWord: 32
+        };
+
+        let value: any;
+
+        try {
+            value = decodeStateValue(baseT.valueType, valueLoc, storage, mappingKeys);
+        } catch (e) {
+            value = undefined;
+        }
+
+        res.set(ppMappingKey(baseT.keyType, key), value);
+    }
+
+    return res;
+}
+
+/**
+ * Decode all state variables of the contract `contractInfo` (including inherited ones) from `storage`.
+ * Constants and immutables are not stored in storage, and are skipped. Since the keys of mappings can't
+ * be recovered from storage, mappings only include the keys found in `preimages` (see
+ * `getKeccakPreimages`). The storage layout reported by the compiler is used if the artifact includes
+ * it. Returns undefined if we don't have a storage layout or an AST for the contract, or fail computing
+ * the layout.
+ */
+export function decodeContractState(
+    contractInfo: ContractInfo,
+    storage: Storage,
+    preimages: KeccakPreimages = new Map()
+): DecodedStateVariable[] | undefined {
+    const layout = getContractStorageLayout(contractInfo);
+
+    if (layout === undefined) {
+        return undefined;
+    }
+
+    const mappingKeys = getMappingKeys(preimages);
+
+    return layout.map((entry) => {
+        const loc: StorageLocation = {
+            kind: DataLocationKind.Storage,
+            address: entry.slot,
+            endOffsetInWord: 32 - entry.offset
+        };
+
+        let value: any;
+
+        try {
+            value = decodeStateValue(entry.type, loc, storage, mappingKeys);
+        } catch (e) {
+            value = undefined;
+        }
+
+        return { name: entry.name, type: entry.type, value };
+    });
+}
+
+/**
+ * Get the locations of the immutable variables of the contract `contractInfo` (including inherited
+ * ones) in its deployed bytecode, as given by the `immutableReferences` in the artifact. The compiler
+ * doesn't insert immutables that are never read in the deployed bytecode, so the views for those
+ * (and for variables whose type we fail computing) are undefined.
+ */
+export function getImmutableViews(
+    contractInfo: ContractInfo
+): Array<[string, DataView | undefined]> {
+    const contract = contractInfo.ast;
+    const refs = contractInfo.contractArtifact.evm.deployedBytecode.immutableReferences || {};
+    const res: Array<[string, DataView | undefined]> = [];
+
+    if (contract === undefined) {
+        return res;
+    }
+
+    for (const base of [...contract.vLinearizedBaseContracts].reverse()) {
+        for (const decl of base.vStateVariables) {
+            if (decl.mutability !== Mutability.Immutable) {
+                continue;
+            }
+
+            const declRefs = refs[decl.id];
+            let typ: TypeNode;
+
+            try {
+                typ = variableDeclarationToTypeNode(decl);
+            } catch (e) {
+                res.push([decl.name, undefined]);
+                continue;
+            }
+
+            res.push([
+                decl.name,
+                declRefs === undefined || declRefs.length === 0
+                    ? undefined
+                    : {
+                          type: typ,
+                          loc: { kind: DataLocationKind.Code, address: BigInt(declRefs[0].start) }
+                      }
+            ]);
+        }
+    }
+
+    return res;
+}
+
+/**
+ * Decode the immutable variables of the contract executing at `step`. Immutables without a location
+ * in the bytecode (see `getImmutableViews`) are omitted. Since immutables are only available in the
+ * deployed bytecode, their values are undefined during contract creation.
+ */
+export function decodeImmutables(step: StepState): DecodedStateVariable[] {
+    if (step.contractInfo === undefined) {
+        return [];
+    }
+
+    const views = getImmutableViews(step.contractInfo).filter(
+        (entry): entry is [string, DataView] => entry[1] !== undefined
+    );
+
+    return views.map(([name, view]) => {
+        let value: any;
+
+        try {
+            value = decodeValue(view, step);
+        } catch (e) {
+            value = undefined;
+        }
+
+        return { name, type: view.type, value };
+    });
+}
+
+/**
+ * Evaluate the constant variables of the contract `contractInfo` (including inherited ones) from their
+ * initializers in the AST (see `evalConstant`). The values of constants whose initializer we can't
+ * evaluate are undefined.
+ */
+export function decodeConstants(contractInfo: ContractInfo): DecodedStateVariable[] {
+    const contract = contractInfo.ast;
+    const res: DecodedStateVariable[] = [];
+
+    if (contract === undefined) {
+        return res;
+    }
+
+    for (const base of [...contract.vLinearizedBaseContracts].reverse()) {
+        for (const decl of base.vStateVariables) {
+            if (!decl.constant) {
+                continue;
+            }
+
+            let typ: TypeNode;
+
+            try {
+                typ = variableDeclarationToTypeNode(decl);
+            } catch (e) {
+                continue;
+            }
+
+            res.push({ name: decl.name, type: typ, value: evalConstant(decl) });
+        }
+    }
+
+    return res;
+}
@@ -0,0 +1,566 @@
+import {
+    ASTNode,
+    Conditional,
+    FunctionDefinition,
+    IfStatement,
+    Statement,
+    TryCatchClause
+} from "solc-typed-ast";
+import { DecodedBytecodeSourceMapEntry } from "../utils";
+import { IArtifactManager, SourceFileInfo, SourceFileType } from "./artifact_manager";
+import { OPCODES } from "./opcodes";
+import { getFunctionName, isDuplicateFrame } from "./pp";
+import { DbgStack, Frame, FrameKind, StepState } from "./sol_debugger";
+
+/// Maximum number of steps after a JUMPI that we look at to determine which branch was taken
+const BRANCH_LOOKAHEAD = 64;
+
+/**
+ * A source location in the Istanbul format (1-based lines and 0-based columns)
+ */
+export interface CoverageLocation {
+    start: { line: number; column: number };
+    end: { line: number; column: number };
+}
+
+export interface StatementCoverage {
+    node: Statement;
+    loc: CoverageLocation;
+    count: number;
+}
+
+export interface FunctionCoverage {
+    node: FunctionDefinition;
+    name: string;
+    loc: CoverageLocation;
+    count: number;
+}
+
+/**
+ * Coverage of the two outcomes of an `if` statement or a conditional expression. The first location
+ * and count are for the true branch, and the second for the false branch. For `if` statements without
+ * an `else`, the location of the false branch is the location of the whole statement.
+ */
+export interface BranchCoverage {
+    node: IfStatement | Conditional;
+    type: "if" | "cond-expr";
+    loc: CoverageLocation;
+    locations: [CoverageLocation, CoverageLocation];
+    counts: [number, number];
+}
+
+export interface FileCoverage {
+    file: SourceFileInfo;
+    statements: StatementCoverage[];
+    functions: FunctionCoverage[];
+    branches: BranchCoverage[];
+}
+
+interface IstanbulFileCoverage {
+    path: string;
+    statementMap: { [id: string]: CoverageLocation };
+    fnMap: {
+        [id: string]: { name: string; decl: CoverageLocation; loc: CoverageLocation; line: number };
+    };
+    branchMap: {
+        [id: string]: {
+            type: string;
+            loc: CoverageLocation;
+            locations: CoverageLocation[];
+            line: number;
+        };
+    };
+    s: { [id: string]: number };
+    f: { [id: string]: number };
+    b: { [id: string]: number[] };
+}
+
+/**
+ * Coverage in the format of the Istanbul `coverage-final.json` file, keyed by file name
+ */
+export type IstanbulCoverage = { [path: string]: IstanbulFileCoverage };
+
+interface FileCoverageState extends FileCoverage {
+    /// Maps from `offset:length` to the coverage of the node with that source range
+    functionMap: Map<string, FunctionCoverage>;
+    branchMap: Map<string, BranchCoverage>;
+}
+
+function rangeKey(node: ASTNode): string {
+    const info = node.sourceInfo;
+
+    return `${info.offset}:${info.length}`;
+}
+
+/**
+ * Return true if the source range `[start, end)` is inside the source range of `node`
+ */
+function inNode(start: number, end: number, node: ASTNode): boolean {
+    const info = node.sourceInfo;
+
+    return start >= info.offset && end <= info.offset + info.length;
+}
+
+/**
+ * Get the innermost frame in `stack` of an external call, or a call to a Solidity function. Steps
+ * in compiler-generated functions (e.g. for checked arithmetic) belong to the statement that called
+ * them, so they are not considered separate calls.
+ */
+function getFunctionFrame(stack: DbgStack): Frame | undefined {
+    for (let i = stack.length - 1; i >= 0; i--) {
+        const frame = stack[i];
+
+        if (frame.kind !== FrameKind.InternalCall || frame.callee instanceof FunctionDefinition) {
+            return frame;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Build a function converting byte offsets in `contents` to Istanbul locations. Source locations in
+ * the AST are byte offsets, while columns in Istanbul locations count characters.
+ */
+function makeLocator(contents: string): (node: ASTNode) => CoverageLocation {
+    const buf = Buffer.from(contents, "utf-8");
+    const lineStarts = [0];
+
+    for (let i = buf.indexOf(0x0a); i !== -1; i = buf.indexOf(0x0a, i + 1)) {
+        lineStarts.push(i + 1);
+    }
+
+    const position = (off: number): { line: number; column: number } => {
+        let lo = 0;
+        let hi = lineStarts.length - 1;
+
+        while (lo < hi) {
+            const mid = (lo + hi + 1) >> 1;
+
+            if (lineStarts[mid] <= off) {
+                lo = mid;
+            } else {
+                hi = mid - 1;
+            }
+        }
+
+        return { line: lo + 1, column: buf.toString("utf-8", lineStarts[lo], off).length };
+    };
+
+    return (node: ASTNode) => {
+        const info = node.sourceInfo;
+
+        return { start: position(info.offset), end: position(info.offset + info.length) };
+    };
+}
+
+/**
+ * Collects statement, function and branch coverage of Solidity sources from the traces of debugged
+ * transactions. Coverage is accumulated across all traces passed to `addTrace`, and can be reported
+ * in the LCOV and Istanbul JSON formats.
+ *
+ * Coverage is tracked for all Solidity files of the artifacts in the artifact manager whose contents
+ * are available (see `loadArtifacts`). Files with the same name in different artifacts are considered
+ * the same file.
+ */
+export class CoverageCollector {
+    private readonly files: Map<string, FileCoverageState>;
+    /// Cache of the statements containing each executed source map entry
+    private readonly stmtCache: Map<DecodedBytecodeSourceMapEntry, StatementCoverage[]>;
+
+    constructor(artifactManager: IArtifactManager) {
+        this.files = new Map();
+        this.stmtCache = new Map();
+
+        for (const artifact of artifactManager.artifacts()) {
+            for (const file of artifact.fileMap.values()) {
+                if (
+                    file.type !== SourceFileType.Solidity ||
+                    file.ast === undefined ||
+                    file.contents === undefined ||
+                    this.files.has(file.name)
+                ) {
+                    continue;
+                }
+
+                this.files.set(file.name, this.buildFileCoverage(file));
+            }
+        }
+    }
+
+    private buildFileCoverage(file: SourceFileInfo): FileCoverageState {
+        const unit = file.ast as NonNullable<SourceFileInfo["ast"]>;
+        const locate = makeLocator(file.contents as string);
+        const res: FileCoverageState = {
+            file,
+            statements: [],
+            functions: [],
+            branches: [],
+            functionMap: new Map(),
+            branchMap: new Map()
+        };
+
+        for (const node of unit.getChildrenBySelector<Statement>(
+            (n) => n instanceof Statement && !(n instanceof TryCatchClause)
+        )) {
+            res.statements.push({ node, loc: locate(node), count: 0 });
+        }
+
+        for (const node of unit.getChildrenByType(FunctionDefinition)) {
+            if (node.vBody === undefined) {
+                continue;
+            }
+
+            const fun: FunctionCoverage = {
+                node,
+                name: getFunctionName(node),
+                loc: locate(node),
+                count: 0
+            };
+
+            res.functions.push(fun);
+            res.functionMap.set(rangeKey(node), fun);
+        }
+
+        for (const node of unit.getChildrenBySelector<IfStatement | Conditional>(
+            (n) => n instanceof IfStatement || n instanceof Conditional
+        )) {
+            const loc = locate(node);
+            let locations: [CoverageLocation, CoverageLocation];
+
+            if (node instanceof IfStatement) {
+                locations = [
+                    locate(node.vTrueBody),
+                    node.vFalseBody === undefined ? loc : locate(node.vFalseBody)
+                ];
+            } else {
+                locations = [locate(node.vTrueExpression), locate(node.vFalseExpression)];
+            }
+
+            const branch: BranchCoverage = {
+                node,
+                type: node instanceof IfStatement ? "if" : "cond-expr",
+                loc,
+                locations,
+                counts: [0, 0]
+            };
+
+            res.branches.push(branch);
+            res.branchMap.set(rangeKey(node), branch);
+        }
+
+        return res;
+    }
+
+    private getFile(step: StepState, sourceIndex: number): FileCoverageState | undefined {
+        if (step.contractInfo === undefined) {
+            return undefined;
+        }
+
+        const file = step.contractInfo.artifact.fileMap.get(sourceIndex);
+
+        return file === undefined ? undefined : this.files.get(file.name);
+    }
+
+    /**
+     * Find the statements whose source ranges contain the source range of `step`
+     */
+    private getStatements(step: StepState): StatementCoverage[] {
+        const src = step.src;
+
+        if (src === undefined) {
+            return [];
+        }
+
+        let res = this.stmtCache.get(src);
+
+        if (res !== undefined) {
+            return res;
+        }
+
+        const file = this.getFile(step, src.sourceIndex);
+
+        res =
+            file === undefined
+                ? []
+                : file.statements.filter((stmt) =>
+                      inNode(src.start, src.start + src.length, stmt.node)
+                  );
+
+        this.stmtCache.set(src, res);
+
+        return res;
+    }
+
+    /**
+     * Determine which branch of `node` was taken by the JUMPI at `trace[idx]`, by finding the first
+     * following step in the same frame that maps to one of the branches. Returns undefined if we
+     * can't tell.
+     */
+    private getTakenBranch(
+        trace: StepState[],
+        idx: number,
+        node: IfStatement | Conditional
+    ): 0 | 1 | undefined {
+        const jumpStep = trace[idx];
+        const trueNode = node instanceof IfStatement ? node.vTrueBody : node.vTrueExpression;
+        const falseNode = node instanceof IfStatement ? node.vFalseBody : node.vFalseExpression;
+
+        for (let i = idx + 1; i < trace.length && i <= idx + BRANCH_LOOKAHEAD; i++) {
+            const step = trace[i];
+
+            if (step.depth < jumpStep.depth) {
+                break;
+            }
+
+            if (
+                step.depth !== jumpStep.depth ||
+                step.src === undefined ||
+                step.src.sourceIndex !== (jumpStep.src as DecodedBytecodeSourceMapEntry).sourceIndex
+            ) {
+                continue;
+            }
+
+            const start = step.src.start;
+            const end = start + step.src.length;
+
+            if (inNode(start, end, trueNode)) {
+                return 0;
+            }
+
+            if (falseNode !== undefined && inNode(start, end, falseNode)) {
+                return 1;
+            }
+
+            const info = node.sourceInfo;
+
+            // Reaching code after an if statement without an else means its condition was false
+            if (end <= info.offset || start >= info.offset + info.length) {
+                return node instanceof IfStatement && falseNode === undefined ? 1 : undefined;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Count the call of the function of the newly entered `frame`
+     */
+    private addCall(frame: Frame): void {
+        const callee = frame.callee;
+        const info =
+            frame.kind === FrameKind.InternalCall ? frame.nearestExtFrame.info : frame.info;
+
+        if (!(callee instanceof FunctionDefinition) || info === undefined) {
+            return;
+        }
+
+        const file = info.artifact.fileMap.get(callee.sourceInfo.sourceIndex);
+        const fileCov = file === undefined ? undefined : this.files.get(file.name);
+        const fun = fileCov === undefined ? undefined : fileCov.functionMap.get(rangeKey(callee));
+
+        if (fun !== undefined) {
+            fun.count++;
+        }
+    }
+
+    /**
+     * Add the coverage of the transaction with trace `trace`.
+     *
+     * Statement counts are the number of times execution entered a statement (i.e. a step in the
+     * statement followed a step of the same function call outside of it). Function counts are the
+     * number of calls to the function. Branch counts are the number of times each outcome of the
+     * JUMPI of an `if` statement or a conditional expression was taken.
+     */
+    addTrace(trace: StepState[]): void {
+        const seenFrames = new Set<Frame>();
+        // The statements executing in each function call
+        const activeStmts = new Map<Frame, Set<StatementCoverage>>();
+
+        for (let i = 0; i < trace.length; i++) {
+            const step = trace[i];
+            const stack = step.stack;
+
+            for (let j = 0; j < stack.length; j++) {
+                const frame = stack[j];
+
+                if (seenFrames.has(frame)) {
+                    continue;
+                }
+
+                seenFrames.add(frame);
+
+                // The call was already counted for the duplicated external frame
+                if (j > 0 && isDuplicateFrame(stack, j - 1)) {
+                    continue;
+                }
+
+                this.addCall(frame);
+            }
+
+            const stmts = this.getStatements(step);
+            const funFrame = getFunctionFrame(stack);
+
+            if (stmts.length > 0 && funFrame !== undefined) {
+                const active = activeStmts.get(funFrame);
+
+                for (const stmt of stmts) {
+                    if (active === undefined || !active.has(stmt)) {
+                        stmt.count++;
+                    }
+                }
+
+                activeStmts.set(funFrame, new Set(stmts));
+            }
+
+            if (
+                step.op.opcode !== OPCODES.JUMPI ||
+                !(step.astNode instanceof IfStatement || step.astNode instanceof Conditional) ||
+                step.src === undefined
+            ) {
+                continue;
+            }
+
+            const file = this.getFile(step, step.src.sourceIndex);
+            const branch =
+                file === undefined ? undefined : file.branchMap.get(rangeKey(step.astNode));
+
+            if (branch === undefined) {
+                continue;
+            }
+
+            const taken = this.getTakenBranch(trace, i, branch.node);
+
+            if (taken !== undefined) {
+                branch.counts[taken]++;
+            }
+        }
+    }
+
+    /**
+     * Get the coverage collected so far for each tracked file
+     */
+    getCoverage(): FileCoverage[] {
+        return [...this.files.values()].map(({ file, statements, functions, branches }) => ({
+            file,
+            statements,
+            functions,
+            branches
+        }));
+    }
+
+    /**
+     * Render the collected coverage as an LCOV tracefile. Line counts are the maximum counts of the
+     * statements starting on each line.
+     */
+    toLcov(): string {
+        const lines: string[] = [];
+
+        for (const { file, statements, functions, branches } of this.getCoverage()) {
+            lines.push("TN:", `SF:${file.name}`);
+
+            for (const fun of functions) {
+                lines.push(`FN:${fun.loc.start.line},${fun.name}`);
+            }
+
+            for (const fun of functions) {
+                lines.push(`FNDA:${fun.count},${fun.name}`);
+            }
+
+            lines.push(
+                `FNF:${functions.length}`,
+                `FNH:${functions.filter((fun) => fun.count > 0).length}`
+            );
+
+            let branchesHit = 0;
+
+            branches.forEach((branch, i) => {
+                const reached = branch.counts[0] + branch.counts[1] > 0;
+
+                branch.counts.forEach((count, j) => {
+                    lines.push(`BRDA:${branch.loc.start.line},${i},${j},${reached ? count : "-"}`);
+
+                    if (count > 0) {
+                        branchesHit++;
+                    }
+                });
+            });
+
+            lines.push(`BRF:${branches.length * 2}`, `BRH:${branchesHit}`);
+
+            const lineCounts = new Map<number, number>();
+
+            for (const stmt of statements) {
+                const line = stmt.loc.start.line;
+                const count = lineCounts.get(line);
+
+                lineCounts.set(
+                    line,
+                    count === undefined ? stmt.count : Math.max(count, stmt.count)
+                );
+            }
+
+            const sortedLines = [...lineCounts].sort(([a], [b]) => a - b);
+
+            for (const [line, count] of sortedLines) {
+                lines.push(`DA:${line},${count}`);
+            }
+
+            lines.push(
+                `LF:${sortedLines.length}`,
+                `LH:${sortedLines.filter(([, count]) => count > 0).length}`,
+                "end_of_record"
+            );
+        }
+
+        return lines.join("\n") + "\n";
+    }
+
+    /**
+     * Render the collected coverage in the Istanbul JSON format (as in `coverage-final.json`)
+     */
+    toIstanbul(): IstanbulCoverage {
+        const res: IstanbulCoverage = {};
+
+        for (const { file, statements, functions, branches } of this.getCoverage()) {
+            const fileCov: IstanbulFileCoverage = {
+                path: file.name,
+                statementMap: {},
+                fnMap: {},
+                branchMap: {},
+                s: {},
+                f: {},
+                b: {}
+            };
+
+            statements.forEach((stmt, i) => {
+                fileCov.statementMap[i] = stmt.loc;
+                fileCov.s[i] = stmt.count;
+            });
+
+            functions.forEach((fun, i) => {
+                fileCov.fnMap[i] = {
+                    name: fun.name,
+                    decl: fun.loc,
+                    loc: fun.loc,
+                    line: fun.loc.start.line
+                };
+                fileCov.f[i] = fun.count;
+            });
+
+            branches.forEach((branch, i) => {
+                fileCov.branchMap[i] = {
+                    type: branch.type,
+                    loc: branch.loc,
+                    locations: branch.locations,
+                    line: branch.loc.start.line
+                };
+                fileCov.b[i] = [...branch.counts];
+            });
+
+            res[file.name] = fileCov;
+        }
+
+        return res;
+    }
+}
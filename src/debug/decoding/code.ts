@@ -0,0 +1,20 @@
+import { TypeNode } from "solc-typed-ast";
+import { CodeLocation, DataLocationKind } from "..";
+import { st_decodeValue } from "./stack";
+
+/**
+ * Decode a single value of type `typ` from location `loc` in `code`. Only immutable variables live
+ * in code, and since they are restricted to value types each of them occupies exactly one word,
+ * encoded the same way as on the stack. Returns undefined if the location is out of bounds.
+ */
+export function code_decodeValue(typ: TypeNode, loc: CodeLocation, code: Buffer): any {
+    const off = Number(loc.address);
+
+    if (off + 32 > code.length) {
+        return undefined;
+    }
+
+    return st_decodeValue(typ, { kind: DataLocationKind.Stack, offsetFromTop: 0 }, [
+        code.slice(off, off + 32)
+    ]);
+}
@@ -10,6 +10,7 @@ import {
     DataLocation,
     DataLocationKind,
     DataView,
+    FrameKind,
     lastExternalFrame,
     MemoryLocation,
     MemoryLocationKind,
@@ -19,6 +20,7 @@ import {
 } from "..";
 import { MAX_ARR_DECODE_LIMIT, uint256 } from "../..";
 import { cd_decodeArrayContents, cd_decodeValue } from "./calldata";
+import { code_decodeValue } from "./code";
 import { mem_decodeValue } from "./memory";
 import { st_decodeInt, st_decodeValue } from "./stack";
 import { stor_decodeValue } from "./storage";
@@ -33,10 +35,35 @@ function solLocToDataKind(loc: SolDataLocation): MemoryLocationKind {
 
 /**
  * Helper to dispatch the decoding of a given type `typ` at a given data location `loc` in a given `state`.
- * to the proper decoding logic (memory, calldata, storage, stack)
+ * to the proper decoding logic (memory, calldata, storage, stack, code)
  */
 function decodeValInt(typ: TypeNode, loc: DataLocation, state: StepState): any {
     if (loc.kind === DataLocationKind.Memory) {
+        if (loc.abiEncodingBase !== undefined) {
+            let abiType: TypeNode;
+
+            try {
+                abiType = toABIEncodedType(
+                    typ,
+                    loc.abiEncoderVersion === undefined
+                        ? ABIEncoderVersion.V2
+                        : loc.abiEncoderVersion
+                );
+            } catch (e) {
+                return undefined;
+            }
+
+            const res = cd_decodeValue(
+                abiType,
+                typ,
+                { kind: DataLocationKind.CallData, address: loc.address },
+                state.memory,
+                loc.abiEncodingBase
+            );
+
+            return res === undefined ? res : res[0];
+        }
+
         const res = mem_decodeValue(typ, loc, state.memory);
 
         return res === undefined ? res : res[0];
@@ -53,7 +80,13 @@ function decodeValInt(typ: TypeNode, loc: DataLocation, state: StepState): any {
             return undefined;
         }
 
-        const res = cd_decodeValue(abiType, typ, loc, lastExtFrame.msgData, BigInt(4));
+        // Dynamic constructor arguments are encoded relative to the end of the creation bytecode
+        const baseOff =
+            lastExtFrame.kind === FrameKind.Creation && lastExtFrame.argsOffset !== undefined
+                ? BigInt(lastExtFrame.argsOffset)
+                : BigInt(4);
+
+        const res = cd_decodeValue(abiType, typ, loc, lastExtFrame.msgData, baseOff);
 
         return res === undefined ? res : res[0];
     }
@@ -62,6 +95,18 @@ function decodeValInt(typ: TypeNode, loc: DataLocation, state: StepState): any {
         return st_decodeValue(typ, loc, state.evmStack);
     }
 
+    if (loc.kind === DataLocationKind.Code) {
+        // Immutables are only inserted in the deployed bytecode at the end of the constructor
+        if (
+            state.stack.length === 0 ||
+            lastExternalFrame(state.stack).kind === FrameKind.Creation
+        ) {
+            return undefined;
+        }
+
+        return code_decodeValue(typ, loc, state.code);
+    }
+
     const res = stor_decodeValue(typ, loc, state.storage);
 
     return res === undefined ? res : res[0];
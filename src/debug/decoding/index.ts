@@ -1,4 +1,5 @@
 export * from "./calldata";
+export * from "./code";
 export * from "./general";
 export * from "./memory";
 export * from "./stack";
@@ -29,7 +29,7 @@ import { bigEndianBufToBigint, bigIntToBuf, fits, MAX_ARR_DECODE_LIMIT, uint256
  * this always succeeds as all uninitialized values in storage are defined to
  * contain 0.
  */
-function fetchWord(key: bigint, storage: Storage): Buffer {
+export function fetchStorageWord(key: bigint, storage: Storage): Buffer {
     const keyHash = bigEndianBufToBigint(keccak256(bigIntToBuf(key, 32, "big")));
     const res = storage.get(keyHash);
 
@@ -51,7 +51,7 @@ function fetchBytes(
     numBytes: number,
     storage: Storage
 ): Buffer {
-    let curBuf = fetchWord(wordOff, storage);
+    let curBuf = fetchStorageWord(wordOff, storage);
     const res = Buffer.alloc(numBytes, 0);
 
     for (let i = 0; i < numBytes; i++) {
@@ -62,7 +62,7 @@ function fetchBytes(
         if (offInWord === 0 && i < numBytes - 1) {
             wordOff++;
 
-            curBuf = fetchWord(wordOff, storage);
+            curBuf = fetchStorageWord(wordOff, storage);
         }
     }
 
@@ -335,7 +335,7 @@ function stor_decodeBytes(
         loc.address
     );
 
-    const word = fetchWord(loc.address, storage);
+    const word = fetchStorageWord(loc.address, storage);
     const lByte = word[31];
 
     if (lByte % 2 === 0) {
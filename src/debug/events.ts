@@ -0,0 +1,159 @@
+import {
+    EventDefinition,
+    PointerType,
+    TypeNode,
+    variableDeclarationToTypeNode
+} from "solc-typed-ast";
+import { ABIEncoderVersion } from "solc-typed-ast/dist/types/abi";
+import { UnprefixedHexString } from "../artifacts";
+import { bigIntToBuf } from "../utils";
+import { abiDecodeValues } from "./abi";
+import { ContractInfo, IArtifactManager } from "./artifact_manager";
+import { EventDesc } from "./sol_debugger";
+
+export interface DecodedEvent {
+    definition: EventDefinition;
+    /**
+     * Decoded event arguments, in the order in which they appear in the event definition.
+     * Note that indexed arguments of reference types (strings, bytes, arrays and structs)
+     * are not recoverable from the log, and their value is the raw 32-byte topic (the keccak256
+     * hash of their encoding).
+     */
+    args: Array<[string, any]>;
+}
+
+/**
+ * Try and decode the log `event` as an instance of the event definition `def`. Returns undefined
+ * if the number of topics doesn't match, or any of the arguments fails decoding.
+ */
+function decodeEventAs(
+    def: EventDefinition,
+    event: EventDesc,
+    encoderVersion: ABIEncoderVersion
+): Array<[string, any]> | undefined {
+    const params = def.vParameters.vParameters;
+    const nIndexed = params.filter((param) => param.indexed).length;
+
+    if (event.topics.length !== nIndexed + (def.anonymous ? 0 : 1)) {
+        return undefined;
+    }
+
+    let formals: Array<[string, TypeNode]>;
+
+    try {
+        formals = params.map((paramDef, i) => [
+            paramDef.name === "" ? `ARG_${i}` : paramDef.name,
+            variableDeclarationToTypeNode(paramDef)
+        ]);
+    } catch (e) {
+        return undefined;
+    }
+
+    const payloadFormals = formals.filter((formal, i) => !params[i].indexed);
+    let payloadVals: Array<[string, any]> | undefined;
+
+    try {
+        payloadVals = abiDecodeValues(payloadFormals, event.payload, 0, encoderVersion);
+    } catch (e) {
+        return undefined;
+    }
+
+    if (payloadVals === undefined) {
+        return undefined;
+    }
+
+    const res: Array<[string, any]> = [];
+    let topicIdx = def.anonymous ? 0 : 1;
+    let payloadIdx = 0;
+
+    for (let i = 0; i < params.length; i++) {
+        if (!params[i].indexed) {
+            res.push(payloadVals[payloadIdx++]);
+            continue;
+        }
+
+        const [name, typ] = formals[i];
+        const topic = bigIntToBuf(event.topics[topicIdx++], 32, "big");
+
+        if (typ instanceof PointerType) {
+            res.push([name, topic]);
+            continue;
+        }
+
+        let topicVals: Array<[string, any]> | undefined;
+
+        try {
+            topicVals = abiDecodeValues([[name, typ]], topic, 0, encoderVersion);
+        } catch (e) {
+            return undefined;
+        }
+
+        if (topicVals === undefined) {
+            return undefined;
+        }
+
+        res.push(topicVals[0]);
+    }
+
+    return res;
+}
+
+/**
+ * Get the ABI encoder version used for the artifact in which `def` is defined.
+ */
+function getEncoderVersion(
+    def: EventDefinition,
+    artifactManager: IArtifactManager
+): ABIEncoderVersion {
+    const artifact = artifactManager.artifacts().find((a) => a.ctx === def.context);
+
+    return artifact !== undefined ? artifact.abiEncoderVersion : ABIEncoderVersion.V2;
+}
+
+/**
+ * Decode the log `event` against the event definitions known to `artifactManager`.
+ *
+ * For non-anonymous events `topics[0]` is matched against the selectors of all known events.
+ * If multiple event definitions match the selector, the ones that appear in the same artifact as
+ * the emitting contract `info` (if given) are tried first. Anonymous events have no selector, so
+ * they are only recognized by trying the anonymous events visible in the emitting contract.
+ *
+ * Returns undefined if no event definition matches the log.
+ */
+export function decodeEvent(
+    event: EventDesc,
+    artifactManager: IArtifactManager,
+    info?: ContractInfo
+): DecodedEvent | undefined {
+    const candidates: EventDefinition[] = [];
+
+    if (event.topics.length > 0) {
+        const selector: UnprefixedHexString = bigIntToBuf(event.topics[0], 32, "big").toString(
+            "hex"
+        );
+
+        candidates.push(...artifactManager.getEventsBySelector(selector));
+
+        if (info !== undefined) {
+            const rank = (def: EventDefinition) => (def.context === info.artifact.ctx ? 0 : 1);
+
+            candidates.sort((a, b) => rank(a) - rank(b));
+        }
+    }
+
+    if (info !== undefined && info.ast !== undefined) {
+        for (const base of info.ast.vLinearizedBaseContracts) {
+            candidates.push(...base.vEvents.filter((def) => def.anonymous));
+        }
+    }
+
+    for (const def of candidates) {
+        const args = decodeEventAs(def, event, getEncoderVersion(def, artifactManager));
+
+        if (args !== undefined) {
+            return { definition: def, args };
+        }
+    }
+
+    return undefined;
+}
@@ -0,0 +1,319 @@
+import { ASTNode } from "solc-typed-ast";
+import { DecodedBytecodeSourceMapEntry } from "../utils";
+import { SourceFileInfo } from "./artifact_manager";
+import { getFrameName, getStepSourceLoc, isDuplicateFrame, StepSourceLoc } from "./pp";
+import { ExternalFrame, Frame, FrameKind, lastExternalFrame, StepState } from "./sol_debugger";
+
+/**
+ * Gas spent in a source range (a source map entry) of a contract
+ */
+export interface SourceRangeGas {
+    file: SourceFileInfo;
+    start: number;
+    length: number;
+    gas: bigint;
+}
+
+/**
+ * Gas spent in a function. `inclusive` includes the gas spent in any functions it calls (internal or
+ * external), while `exclusive` only includes the gas spent in the function's own code. Gas spent in
+ * recursive calls is only counted once towards `inclusive`.
+ */
+export interface FunctionGas {
+    name: string;
+    /// The called function, if known. Overloaded functions share the same `name`.
+    callee?: ASTNode;
+    /// Number of times the function was called
+    calls: number;
+    inclusive: bigint;
+    exclusive: bigint;
+}
+
+/**
+ * Gas spent in an external call (or contract creation)
+ */
+export interface ExternalCallGas {
+    frame: ExternalFrame;
+    name: string;
+    inclusive: bigint;
+    exclusive: bigint;
+}
+
+export interface GasProfile {
+    /// Gas spent by each step of the trace, excluding the gas spent in any external calls it makes
+    stepGas: bigint[];
+    /// Total gas spent by all steps (doesn't include the intrinsic gas of the transaction)
+    totalGas: bigint;
+    /// Gas spent in each source range, in the order the ranges were first executed
+    sourceRanges: SourceRangeGas[];
+    /// Gas spent in the code of each AST node (not including its children)
+    nodes: Map<ASTNode, bigint>;
+    /// Gas spent on each (1-based) line of each source file
+    lines: Map<SourceFileInfo, Map<number, bigint>>;
+    /// Gas spent in each internal function, in the order the functions were first called
+    functions: FunctionGas[];
+    /// Gas spent in each external call, in the order the calls were made
+    externalCalls: ExternalCallGas[];
+    /// Exclusive gas spent in each distinct call stack. Keys are the frame names joined with `;`
+    stacks: Map<string, bigint>;
+}
+
+/**
+ * Compute the gas spent by each step of `trace`. The cost of a step is the difference between the
+ * remaining gas at the step, and the remaining gas at the next step in the same external frame. This
+ * accounts for refunds of unused gas forwarded to external calls. The gas spent in the called
+ * contract is subtracted from the cost of the calling step, so that each unit of gas is attributed to
+ * exactly one step. For the last step of each frame we use its reported gas cost, which may
+ * under-approximate the gas consumed by exceptional halts (e.g. out of gas).
+ */
+export function getStepGasCosts(trace: StepState[]): bigint[] {
+    const res: bigint[] = new Array(trace.length);
+    // Index of the next step at each depth, in the same frame as the current step
+    const nextStep = new Map<number, number>();
+    // Total gas spent at each depth between the current step and the end of its frame
+    const frameGas = new Map<number, bigint>();
+
+    for (let i = trace.length - 1; i >= 0; i--) {
+        const step = trace[i];
+        const depth = step.depth;
+        const next = nextStep.get(depth);
+        const inclusive = next === undefined ? step.dynamicGasCost : step.gas - trace[next].gas;
+        const childGas = frameGas.get(depth + 1);
+
+        res[i] = childGas === undefined ? inclusive : inclusive - childGas;
+
+        // Any steps at greater depths we've seen so far belong to frames entered after this step
+        for (const d of [...nextStep.keys()]) {
+            if (d > depth) {
+                nextStep.delete(d);
+            }
+        }
+
+        for (const d of [...frameGas.keys()]) {
+            if (d > depth) {
+                frameGas.delete(d);
+            }
+        }
+
+        nextStep.set(depth, i);
+        frameGas.set(depth, (frameGas.get(depth) || BigInt(0)) + inclusive);
+    }
+
+    return res;
+}
+
+function addGas<K>(m: Map<K, bigint>, key: K, gas: bigint): void {
+    m.set(key, (m.get(key) || BigInt(0)) + gas);
+}
+
+/**
+ * Get the names of the frames in `stack` (outermost first), skipping external frames duplicated by
+ * the internal frame of the called function.
+ */
+function getStackNames(stack: Frame[]): string[] {
+    const res: string[] = [];
+
+    for (let i = 0; i < stack.length; i++) {
+        if (!isDuplicateFrame(stack, i)) {
+            res.push(getFrameName(stack[i]));
+        }
+    }
+
+    return res;
+}
+
+/**
+ * Compute a gas profile of the transaction with trace `trace`. Gas is attributed to source ranges,
+ * AST nodes and lines using the source map entry of each step, and to internal functions and external
+ * calls using the debugger's stack frames. Steps without debug info are only counted towards the
+ * totals of their frames.
+ */
+export function profileGas(trace: StepState[]): GasProfile {
+    const stepGas = getStepGasCosts(trace);
+    const rangeMap = new Map<SourceFileInfo, Map<string, SourceRangeGas>>();
+    const sourceRanges: SourceRangeGas[] = [];
+    const locs = new Map<DecodedBytecodeSourceMapEntry, StepSourceLoc | undefined>();
+    const nodes = new Map<ASTNode, bigint>();
+    const lines = new Map<SourceFileInfo, Map<number, bigint>>();
+    // Functions are keyed by their AST node (or their name, when it's unknown) to tell apart overloads
+    const functionMap = new Map<ASTNode | string, FunctionGas>();
+    const calledFrames = new Set<Frame>();
+    const externalMap = new Map<ExternalFrame, ExternalCallGas>();
+    const stacks = new Map<string, bigint>();
+    let totalGas = BigInt(0);
+
+    for (let i = 0; i < trace.length; i++) {
+        const step = trace[i];
+        const gas = stepGas[i];
+
+        totalGas += gas;
+
+        // Source map entries are shared by all executions of an instruction, so we only compute
+        // the line of each once
+        let loc = step.src === undefined ? undefined : locs.get(step.src);
+
+        if (step.src !== undefined && !locs.has(step.src)) {
+            loc = getStepSourceLoc(step);
+            locs.set(step.src, loc);
+        }
+
+        if (loc !== undefined && step.src !== undefined) {
+            const key = `${step.src.start}:${step.src.length}`;
+            let fileRanges = rangeMap.get(loc.file);
+
+            if (fileRanges === undefined) {
+                fileRanges = new Map();
+                rangeMap.set(loc.file, fileRanges);
+            }
+
+            let range = fileRanges.get(key);
+
+            if (range === undefined) {
+                range = {
+                    file: loc.file,
+                    start: step.src.start,
+                    length: step.src.length,
+                    gas: BigInt(0)
+                };
+                fileRanges.set(key, range);
+                sourceRanges.push(range);
+            }
+
+            range.gas += gas;
+
+            let fileLines = lines.get(loc.file);
+
+            if (fileLines === undefined) {
+                fileLines = new Map();
+                lines.set(loc.file, fileLines);
+            }
+
+            addGas(fileLines, loc.line, gas);
+        }
+
+        if (step.astNode !== undefined) {
+            addGas(nodes, step.astNode, gas);
+        }
+
+        const stack = step.stack;
+
+        if (stack.length === 0) {
+            continue;
+        }
+
+        // Internal functions
+        const seen = new Set<ASTNode | string>();
+
+        for (const frame of stack) {
+            if (frame.kind !== FrameKind.InternalCall) {
+                continue;
+            }
+
+            const name = getFrameName(frame);
+            const key = frame.callee === undefined ? name : frame.callee;
+            let fun = functionMap.get(key);
+
+            if (fun === undefined) {
+                fun = {
+                    name,
+                    callee: frame.callee,
+                    calls: 0,
+                    inclusive: BigInt(0),
+                    exclusive: BigInt(0)
+                };
+                functionMap.set(key, fun);
+            }
+
+            if (!calledFrames.has(frame)) {
+                calledFrames.add(frame);
+                fun.calls++;
+            }
+
+            if (!seen.has(key)) {
+                seen.add(key);
+                fun.inclusive += gas;
+            }
+
+            if (frame === stack[stack.length - 1]) {
+                fun.exclusive += gas;
+            }
+        }
+
+        // External calls
+        const curExtFrame = lastExternalFrame(stack);
+
+        for (const frame of stack) {
+            if (frame.kind === FrameKind.InternalCall) {
+                continue;
+            }
+
+            let call = externalMap.get(frame);
+
+            if (call === undefined) {
+                call = {
+                    frame,
+                    name: getFrameName(frame),
+                    inclusive: BigInt(0),
+                    exclusive: BigInt(0)
+                };
+                externalMap.set(frame, call);
+            }
+
+            call.inclusive += gas;
+
+            if (frame === curExtFrame) {
+                call.exclusive += gas;
+            }
+        }
+
+        addGas(stacks, getStackNames(stack).join(";"), gas);
+    }
+
+    return {
+        stepGas,
+        totalGas,
+        sourceRanges,
+        nodes,
+        lines,
+        functions: [...functionMap.values()],
+        externalCalls: [...externalMap.values()],
+        stacks
+    };
+}
+
+/**
+ * Render a line-annotated gas report for each source file in `profile` with known contents. Each
+ * source line is prefixed with the gas spent on it (if any). Returns a map from file names to reports.
+ */
+export function ppLineGasReport(profile: GasProfile): Map<string, string> {
+    const res = new Map<string, string>();
+
+    for (const [file, fileLines] of profile.lines) {
+        if (file.contents === undefined) {
+            continue;
+        }
+
+        const width = Math.max(...[...fileLines.values()].map((gas) => `${gas}`.length));
+        const report = file.contents.split("\n").map((text, i) => {
+            const gas = fileLines.get(i + 1);
+
+            return `${(gas === undefined ? "" : `${gas}`).padStart(width)} | ${text}`;
+        });
+
+        res.set(file.name, report.join("\n"));
+    }
+
+    return res;
+}
+
+/**
+ * Render the call stacks in `profile` in the "folded stacks" format used by flame graph tools (e.g.
+ * `flamegraph.pl` or speedscope). Each line contains the frame names separated by `;`, followed by the
+ * exclusive gas spent in that stack.
+ */
+export function ppFoldedStacks(profile: GasProfile): string {
+    return [...profile.stacks]
+        .filter(([, gas]) => gas > BigInt(0))
+        .map(([stack, gas]) => `${stack} ${gas}`)
+        .join("\n");
+}
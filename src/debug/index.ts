@@ -1,6 +1,23 @@
 export * from "./abi";
 export * from "./artifact_manager";
+export * from "./breakpoints";
+export * from "./compact_trace";
+export * from "./constants";
+export * from "./contract_state";
+export * from "./coverage";
 export * from "./decoding";
+export * from "./events";
+export * from "./gas_profile";
+export * from "./locals";
 export * from "./opcodes";
+export * from "./pp";
+export * from "./revert";
+export * from "./session";
+export * from "./storage_diff";
+export * from "./storage_layout";
 export * from "./sol_debugger";
+export * from "./tx_session";
 export * from "./types";
+export * from "./watch";
+export * from "./watchpoints";
+export * from "./web3_export";
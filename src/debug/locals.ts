@@ -0,0 +1,285 @@
+import {
+    ASTNode,
+    ContractDefinition,
+    FunctionDefinition,
+    ModifierDefinition,
+    ModifierInvocation,
+    PlaceholderStatement,
+    TypeNode,
+    VariableDeclaration,
+    VariableDeclarationStatement,
+    variableDeclarationToTypeNode
+} from "solc-typed-ast";
+import { isCalldataType2Slots } from "./decoding";
+import {
+    DataLocationKind,
+    DataView,
+    FrameKind,
+    lastExternalFrame,
+    StepState
+} from "./sol_debugger";
+
+/**
+ * Return true if the source location `pos` (an offset into file `fileIdx`) falls inside
+ * the source range of `node`.
+ */
+function nodeContains(node: ASTNode, pos: number, fileIdx: number): boolean {
+    const { offset, length, sourceIndex } = node.sourceInfo;
+
+    return sourceIndex === fileIdx && offset <= pos && pos < offset + length;
+}
+
+/**
+ * Return true if the variables declared in `stmt` are live at source location `pos`. This
+ * is the case when `stmt` has finished executing (`pos` is after its end) and `pos` is still
+ * inside the scope in which `stmt` appears (i.e. its parent block or for statement).
+ */
+function inScope(stmt: VariableDeclarationStatement, pos: number, fileIdx: number): boolean {
+    const { offset, length } = stmt.sourceInfo;
+    const scope = stmt.parent;
+
+    return offset + length <= pos && scope !== undefined && nodeContains(scope, pos, fileIdx);
+}
+
+/**
+ * Get the type of a variable declaration. Returns undefined if `variableDeclarationToTypeNode` fails
+ * (e.g. when referencing structs/contracts that are defined in SourceUnits that are missing).
+ */
+function getDeclType(decl: VariableDeclaration): TypeNode | undefined {
+    try {
+        return variableDeclarationToTypeNode(decl);
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Return the number of stack slots taken by a variable of type `typ`
+ */
+function slotSize(typ: TypeNode | undefined): number {
+    return typ !== undefined && isCalldataType2Slots(typ) ? 2 : 1;
+}
+
+/**
+ * Resolve the modifier invoked by `invocation` in `contract` (the most derived contract), taking
+ * overriding modifiers into account. Returns undefined for invocations of base constructors.
+ */
+function resolveModifier(
+    invocation: ModifierInvocation,
+    contract: ContractDefinition | undefined
+): ModifierDefinition | undefined {
+    const mod = invocation.vModifier;
+
+    if (!(mod instanceof ModifierDefinition)) {
+        return undefined;
+    }
+
+    if (contract !== undefined) {
+        for (const base of contract.vLinearizedBaseContracts) {
+            const res = base.vModifiers.find((candidate) => candidate.name === mod.name);
+
+            if (res !== undefined) {
+                return res;
+            }
+        }
+    }
+
+    return mod;
+}
+
+/**
+ * Compute the number of stack slots that the modifier `mod` keeps on the stack while the rest of
+ * the function runs: its arguments and the locals in scope at its placeholder
+ * (`_`). Returns undefined if the modifier has several placeholders with different locals in scope,
+ * since then the layout depends on which placeholder is executing.
+ */
+function getModifierStackSize(mod: ModifierDefinition): number | undefined {
+    const args = mod.vParameters.vParameters.reduce(
+        (sum, decl) => sum + slotSize(getDeclType(decl)),
+        0
+    );
+
+    if (mod.vBody === undefined) {
+        return args;
+    }
+
+    const body = mod.vBody;
+    const sizes = body.getChildrenByType(PlaceholderStatement).map((placeholder) => {
+        const { offset, sourceIndex } = placeholder.sourceInfo;
+
+        return body
+            .getChildrenByType(VariableDeclarationStatement)
+            .filter((stmt) => inScope(stmt, offset, sourceIndex))
+            .reduce(
+                (sum, stmt) =>
+                    sum +
+                    stmt.vDeclarations.reduce((n, decl) => n + slotSize(getDeclType(decl)), 0),
+                0
+            );
+    });
+
+    if (sizes.some((size) => size !== sizes[0])) {
+        return undefined;
+    }
+
+    return args + (sizes.length > 0 ? sizes[0] : 0);
+}
+
+/**
+ * Build a stack `DataView` for a variable of type `typ` living in stack slot `slot` at step `step`.
+ */
+function stackSlotView(
+    typ: TypeNode | undefined,
+    slot: number,
+    step: StepState
+): DataView | undefined {
+    const offsetFromTop = step.evmStack.length - 1 - slot;
+
+    return typ === undefined || slot < 0 || offsetFromTop < 0
+        ? undefined
+        : {
+              type: typ,
+              loc: {
+                  kind: DataLocationKind.Stack,
+                  offsetFromTop
+              }
+          };
+}
+
+/**
+ * Given a trace step `step`, return `DataView`s for the arguments of the current (top-most) internal
+ * call frame, reflecting their current values (arguments may be re-assigned in the function body).
+ *
+ * The arguments occupy the stack slots right below `InternalCallFrame.entryStackHeight`. Returns
+ * undefined if the top frame is not an internal call to a function.
+ */
+export function getArgs(step: StepState): Array<[string, DataView | undefined]> | undefined {
+    if (step.stack.length === 0) {
+        return undefined;
+    }
+
+    const frame = step.stack[step.stack.length - 1];
+
+    if (frame.kind !== FrameKind.InternalCall || !(frame.callee instanceof FunctionDefinition)) {
+        return undefined;
+    }
+
+    const params = frame.callee.vParameters.vParameters;
+    const types = params.map(getDeclType);
+    const nSlots = types.reduce((sum, typ) => sum + slotSize(typ), 0);
+
+    const res: Array<[string, DataView | undefined]> = [];
+    let slot = frame.entryStackHeight - nSlots;
+
+    for (let i = 0; i < params.length; i++) {
+        const typ = types[i];
+
+        if (params[i].name !== "") {
+            res.push([params[i].name, stackSlotView(typ, slot, step)]);
+        }
+
+        slot += slotSize(typ);
+    }
+
+    return res;
+}
+
+/**
+ * Given a trace step `step`, return `DataView`s for all of the local variables of the current
+ * (top-most) internal call frame, that are in scope at this step. This includes any named
+ * return variables.
+ *
+ * Local stack variables are laid out by the (legacy) code generator in the following way:
+ *
+ * 1. Upon entry the stack contains the return address, followed by the function arguments
+ * 2. Next a slot for each of the return parameters is reserved
+ * 3. Each `VariableDeclarationStatement` reserves slots for its variables, which are freed at the end of
+ * its enclosing scope.
+ *
+ * Modifiers are inlined between 2. and 3. Each modifier (in order) pushes its arguments, followed by the
+ * locals it declares before its placeholder (`_`), where the rest of the function is inlined.
+ *
+ * Thus we can compute the location of each live local relative to the stack height at function entry
+ * (`InternalCallFrame.entryStackHeight`).
+ *
+ * Returns undefined if the top frame is not an internal function call, if we don't have source info for
+ * the current step, or if the current step doesn't map inside the body of the function. Also returns
+ * undefined if one of the modifiers of the function has several placeholders with different locals in
+ * scope, as the layout of the function locals then depends on the placeholder that is executing.
+ */
+export function getLocals(step: StepState): Array<[string, DataView | undefined]> | undefined {
+    if (step.stack.length === 0) {
+        return undefined;
+    }
+
+    const frame = step.stack[step.stack.length - 1];
+
+    if (
+        frame.kind !== FrameKind.InternalCall ||
+        !(frame.callee instanceof FunctionDefinition) ||
+        frame.callee.vBody === undefined ||
+        step.src === undefined
+    ) {
+        return undefined;
+    }
+
+    const fun = frame.callee;
+    const body = fun.vBody as ASTNode;
+    const pos = step.src.start;
+    const fileIdx = step.src.sourceIndex;
+
+    if (!nodeContains(body, pos, fileIdx)) {
+        return undefined;
+    }
+
+    const res: Array<[string, DataView | undefined]> = [];
+    let nextSlot = frame.entryStackHeight;
+
+    const addVar = (decl: VariableDeclaration): void => {
+        const typ = getDeclType(decl);
+        const slot = nextSlot;
+
+        nextSlot += slotSize(typ);
+
+        if (decl.name === "") {
+            return;
+        }
+
+        res.push([decl.name, stackSlotView(typ, slot, step)]);
+    };
+
+    for (const retDecl of fun.vReturnParameters.vParameters) {
+        addVar(retDecl);
+    }
+
+    const contract = lastExternalFrame(step.stack).info;
+
+    for (const invocation of fun.vModifiers) {
+        const mod = resolveModifier(invocation, contract === undefined ? undefined : contract.ast);
+
+        if (mod === undefined) {
+            continue;
+        }
+
+        const size = getModifierStackSize(mod);
+
+        if (size === undefined) {
+            return undefined;
+        }
+
+        nextSlot += size;
+    }
+
+    const stmts = body
+        .getChildrenByType(VariableDeclarationStatement)
+        .filter((stmt) => inScope(stmt, pos, fileIdx))
+        .sort((a, b) => a.sourceInfo.offset - b.sourceInfo.offset);
+
+    for (const stmt of stmts) {
+        for (const decl of stmt.vDeclarations) {
+            addVar(decl);
+        }
+    }
+
+    return res;
+}
@@ -0,0 +1,202 @@
+import { Address } from "ethereumjs-util";
+import {
+    ArrayType,
+    ContractDefinition,
+    EnumDefinition,
+    FunctionDefinition,
+    FunctionKind,
+    MappingType,
+    PointerType,
+    StructDefinition,
+    TypeNode,
+    UserDefinedType,
+    VariableDeclaration,
+    variableDeclarationToTypeNode
+} from "solc-typed-ast";
+import { SourceFileInfo, SourceFileType } from "./artifact_manager";
+import { getLineCol } from "./breakpoints";
+import { DbgStack, Frame, FrameKind, StepState } from "./sol_debugger";
+
+export interface StepSourceLoc {
+    file: SourceFileInfo;
+    /// 1-based line
+    line: number;
+    /// 1-based (byte) column
+    column: number;
+}
+
+/**
+ * Get the Solidity source file, line and column that `step` maps to. Returns undefined if the step
+ * doesn't map to a Solidity file or we don't have the file contents.
+ */
+export function getStepSourceLoc(step: StepState): StepSourceLoc | undefined {
+    if (step.src === undefined || step.contractInfo === undefined) {
+        return undefined;
+    }
+
+    const file = step.contractInfo.artifact.fileMap.get(step.src.sourceIndex);
+
+    if (
+        file === undefined ||
+        file.type !== SourceFileType.Solidity ||
+        file.contents === undefined
+    ) {
+        return undefined;
+    }
+
+    const [line, column] = getLineCol(file.contents, step.src.start);
+
+    return { file, line, column };
+}
+
+/**
+ * Get a human-readable name for a function (e.g. `Contract.name`, or `Contract.constructor`)
+ */
+export function getFunctionName(fun: FunctionDefinition): string {
+    let name: string;
+
+    if (fun.isConstructor) {
+        name = "constructor";
+    } else if (fun.kind === FunctionKind.Fallback) {
+        name = "fallback";
+    } else if (fun.kind === FunctionKind.Receive) {
+        name = "receive";
+    } else {
+        name = fun.name;
+    }
+
+    return fun.vScope instanceof ContractDefinition ? `${fun.vScope.name}.${name}` : name;
+}
+
+/**
+ * Get a human-readable name for a stack frame
+ */
+export function getFrameName(frame: Frame): string {
+    const callee = frame.callee;
+
+    if (callee instanceof FunctionDefinition) {
+        return getFunctionName(callee);
+    }
+
+    if (callee instanceof VariableDeclaration) {
+        return callee.vScope instanceof ContractDefinition
+            ? `${callee.vScope.name}.${callee.name}`
+            : callee.name;
+    }
+
+    if (callee instanceof ContractDefinition) {
+        return `${callee.name}.constructor`;
+    }
+
+    if (frame.kind !== FrameKind.InternalCall && frame.info === undefined) {
+        return `<unknown contract ${frame.address.toString()}>`;
+    }
+
+    return callee === undefined ? `<unknown function>` : `<compiler-generated function>`;
+}
+
+/**
+ * Return true if the `i`-th frame in `stack` is an external call frame, that is duplicated by the internal
+ * frame right above it (i.e. the internal frame for the called function).
+ */
+export function isDuplicateFrame(stack: DbgStack, i: number): boolean {
+    const frame = stack[i];
+    const next = stack[i + 1];
+
+    return (
+        frame.kind === FrameKind.Call &&
+        next !== undefined &&
+        next.kind === FrameKind.InternalCall &&
+        next.callee === frame.callee
+    );
+}
+
+/**
+ * Given a type `typ` and a decoded value `v`, return the names, types and values of its components
+ * (array elements, struct fields or mapping entries), or undefined if its not a compound value.
+ */
+export function getValueComponents(
+    typ: TypeNode,
+    v: any
+): Array<[string, TypeNode, any]> | undefined {
+    const baseT = typ instanceof PointerType ? typ.to : typ;
+
+    if (baseT instanceof ArrayType && v instanceof Array) {
+        return v.map((el, i) => [`${i}`, baseT.elementT, el]);
+    }
+
+    if (baseT instanceof MappingType && v instanceof Map) {
+        return [...v.entries()].map(([key, val]) => [key, baseT.valueType, val]);
+    }
+
+    if (
+        baseT instanceof UserDefinedType &&
+        baseT.definition instanceof StructDefinition &&
+        v instanceof Object
+    ) {
+        const res: Array<[string, TypeNode, any]> = [];
+
+        for (const field of baseT.definition.vMembers) {
+            try {
+                res.push([field.name, variableDeclarationToTypeNode(field), v[field.name]]);
+            } catch (e) {
+                // Skip fields whose types we can't compute
+            }
+        }
+
+        return res;
+    }
+
+    return undefined;
+}
+
+/**
+ * Pretty-print a decoded value `v` of type `typ`.
+ */
+export function ppValue(typ: TypeNode, v: any): string {
+    if (v === undefined) {
+        return "<failed decoding>";
+    }
+
+    if (typeof v === "bigint") {
+        if (typ instanceof UserDefinedType && typ.definition instanceof EnumDefinition) {
+            const member = typ.definition.vMembers[Number(v)];
+
+            if (member !== undefined) {
+                return `${typ.definition.name}.${member.name}`;
+            }
+        }
+
+        return v.toString();
+    }
+
+    if (typeof v === "boolean") {
+        return v ? "true" : "false";
+    }
+
+    if (typeof v === "string") {
+        return JSON.stringify(v);
+    }
+
+    if (v instanceof Address) {
+        return v.toString();
+    }
+
+    if (v instanceof Buffer) {
+        return `0x${v.toString("hex")}`;
+    }
+
+    const components = getValueComponents(typ, v);
+
+    if (components === undefined) {
+        return typ.pp();
+    }
+
+    if (v instanceof Array) {
+        return `[${components.map(([, elT, el]) => ppValue(elT, el)).join(", ")}]`;
+    }
+
+    return `{${components
+        .map(([name, fieldT, field]) => `${name}: ${ppValue(fieldT, field)}`)
+        .join(", ")}}`;
+}
@@ -0,0 +1,174 @@
+import {
+    DataLocation as SolDataLocation,
+    ErrorDefinition,
+    PointerType,
+    StringType,
+    TypeNode,
+    variableDeclarationToTypeNode
+} from "solc-typed-ast";
+import { ABIEncoderVersion } from "solc-typed-ast/dist/types/abi";
+import { UnprefixedHexString } from "../artifacts";
+import { bigEndianBufToBigint } from "../utils";
+import { abiDecodeValues } from "./abi";
+import { ContractInfo, IArtifactManager } from "./artifact_manager";
+
+export enum RevertKind {
+    /// `revert()`, `require(cond)` or some other revert with no data
+    Empty = "empty",
+    /// `revert("...")`/`require(cond, "...")` - encoded as `Error(string)`
+    ErrorString = "error_string",
+    /// Compiler-generated checks (e.g. overflow, assert(false)) - encoded as `Panic(uint256)`
+    Panic = "panic",
+    /// User defined error (`revert SomeError(...)`)
+    CustomError = "custom_error",
+    /// Revert data that we couldn't decode
+    Unknown = "unknown"
+}
+
+interface BaseRevertDesc {
+    kind: RevertKind;
+    /// The raw revert data
+    data: Buffer;
+}
+
+export interface EmptyRevert extends BaseRevertDesc {
+    kind: RevertKind.Empty;
+}
+
+export interface ErrorStringRevert extends BaseRevertDesc {
+    kind: RevertKind.ErrorString;
+    message: string;
+}
+
+export interface PanicRevert extends BaseRevertDesc {
+    kind: RevertKind.Panic;
+    code: bigint;
+    /// Human-readable description of the panic code, if it is a known code
+    description: string | undefined;
+}
+
+export interface CustomErrorRevert extends BaseRevertDesc {
+    kind: RevertKind.CustomError;
+    definition: ErrorDefinition;
+    args: Array<[string, any]>;
+}
+
+export interface UnknownRevert extends BaseRevertDesc {
+    kind: RevertKind.Unknown;
+}
+
+export type DecodedRevert =
+    | EmptyRevert
+    | ErrorStringRevert
+    | PanicRevert
+    | CustomErrorRevert
+    | UnknownRevert;
+
+/// Selector of `Error(string)`
+export const ERROR_STRING_SELECTOR: UnprefixedHexString = "08c379a0";
+/// Selector of `Panic(uint256)`
+export const PANIC_SELECTOR: UnprefixedHexString = "4e487b71";
+
+const errorStringT = new PointerType(new StringType(), SolDataLocation.Memory);
+
+/**
+ * Descriptions of the panic codes emitted by the compiler.
+ * @see https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+ */
+export const PANIC_CODES = new Map<bigint, string>([
+    [BigInt(0x00), "Generic compiler inserted panic"],
+    [BigInt(0x01), "Assertion failed"],
+    [BigInt(0x11), "Arithmetic overflow or underflow"],
+    [BigInt(0x12), "Division or modulo by zero"],
+    [BigInt(0x21), "Conversion of an out-of-range value to an enum type"],
+    [BigInt(0x22), "Access to an incorrectly encoded storage byte array"],
+    [BigInt(0x31), "pop() on an empty array"],
+    [BigInt(0x32), "Array index out of bounds"],
+    [BigInt(0x41), "Too much memory allocated"],
+    [BigInt(0x51), "Call to a zero-initialized internal function variable"]
+]);
+
+/**
+ * Try and decode the revert data `data` as an instance of the custom error `def`.
+ */
+function decodeCustomError(
+    def: ErrorDefinition,
+    data: Buffer,
+    encoderVersion: ABIEncoderVersion
+): Array<[string, any]> | undefined {
+    let formals: Array<[string, TypeNode]>;
+
+    try {
+        formals = def.vParameters.vParameters.map((paramDef, i) => [
+            paramDef.name === "" ? `ARG_${i}` : paramDef.name,
+            variableDeclarationToTypeNode(paramDef)
+        ]);
+    } catch (e) {
+        return undefined;
+    }
+
+    try {
+        return abiDecodeValues(formals, data, 4, encoderVersion);
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Decode the data `data` passed to a REVERT instruction. Recognizes `Error(string)`, `Panic(uint256)`
+ * and any custom errors whose definitions are present in the artifacts in `artifactManager`.
+ *
+ * If multiple error definitions match the selector, the ones that appear in the same artifact as
+ * the reverting contract `info` (if given) are tried first.
+ */
+export function decodeRevertData(
+    data: Buffer,
+    artifactManager: IArtifactManager,
+    info?: ContractInfo
+): DecodedRevert {
+    if (data.length === 0) {
+        return { kind: RevertKind.Empty, data };
+    }
+
+    if (data.length < 4) {
+        return { kind: RevertKind.Unknown, data };
+    }
+
+    const selector: UnprefixedHexString = data.slice(0, 4).toString("hex");
+
+    if (selector === ERROR_STRING_SELECTOR) {
+        const res = abiDecodeValues([["message", errorStringT]], data, 4, ABIEncoderVersion.V2);
+
+        return res === undefined
+            ? { kind: RevertKind.Unknown, data }
+            : { kind: RevertKind.ErrorString, data, message: res[0][1] };
+    }
+
+    if (selector === PANIC_SELECTOR && data.length >= 36) {
+        const code = bigEndianBufToBigint(data.slice(4, 36));
+
+        return { kind: RevertKind.Panic, data, code, description: PANIC_CODES.get(code) };
+    }
+
+    const candidates = [...artifactManager.getErrorsBySelector(selector)];
+
+    if (info !== undefined) {
+        const rank = (def: ErrorDefinition) => (def.context === info.artifact.ctx ? 0 : 1);
+
+        candidates.sort((a, b) => rank(a) - rank(b));
+    }
+
+    for (const def of candidates) {
+        const artifact = artifactManager.artifacts().find((a) => a.ctx === def.context);
+        const encoderVersion =
+            artifact !== undefined ? artifact.abiEncoderVersion : ABIEncoderVersion.V2;
+
+        const args = decodeCustomError(def, data, encoderVersion);
+
+        if (args !== undefined) {
+            return { kind: RevertKind.CustomError, data, definition: def, args };
+        }
+    }
+
+    return { kind: RevertKind.Unknown, data };
+}
@@ -0,0 +1,318 @@
+import { assert } from "solc-typed-ast";
+import { DecodedBytecodeSourceMapEntry } from "../utils";
+import { SourceFileType } from "./artifact_manager";
+import { getStepSourceLoc } from "./pp";
+import { StepState } from "./sol_debugger";
+
+/**
+ * A predicate over trace steps. Used to describe breakpoints.
+ */
+export type StepPredicate = (step: StepState, idx: number) => boolean;
+
+/**
+ * Return true if `step` maps to a location in a Solidity source file (as opposed to no
+ * source location, or a location in compiler-generated Yul code).
+ */
+function isSoliditySrc(step: StepState): boolean {
+    if (step.src === undefined || step.src.sourceIndex < 0 || step.contractInfo === undefined) {
+        return false;
+    }
+
+    const file = step.contractInfo.artifact.fileMap.get(step.src.sourceIndex);
+
+    return file !== undefined && file.type === SourceFileType.Solidity;
+}
+
+/**
+ * A `DebugSession` wraps a trace returned by `SolTxDebugger.debugTx` and maintains a current position
+ * in it. It allows navigating the trace in terms of source-level steps instead of single instructions.
+ *
+ * A step is considered a source-level step boundary if it maps to a Solidity source location and either
+ * its source location or its stack depth differ from those of the previous step. All `step*` methods
+ * move between boundary steps. If there is no suitable step to move to, forward movements stop
+ * at the last step of the trace, and backward movements stop at the first boundary step.
+ *
+ * Breakpoints are arbitrary predicates over steps, and are used by `continue()` and `reverseContinue()`.
+ */
+export class DebugSession {
+    public readonly trace: StepState[];
+    private _curIdx: number;
+    private boundaries: boolean[];
+    private breakpoints: Map<number, StepPredicate>;
+    private nextBreakpointId: number;
+
+    constructor(trace: StepState[]) {
+        assert(trace.length > 0, `Cannot debug an empty trace`);
+
+        this.trace = trace;
+        this.boundaries = trace.map((step, i) => this.computeIsBoundary(i));
+        this.breakpoints = new Map();
+        this.nextBreakpointId = 0;
+
+        const firstBoundary = this.findForward(-1, () => true);
+
+        this._curIdx = firstBoundary === undefined ? 0 : firstBoundary;
+    }
+
+    private computeIsBoundary(idx: number): boolean {
+        const step = this.trace[idx];
+
+        if (!isSoliditySrc(step)) {
+            return false;
+        }
+
+        // The jump returning from an internal call is already at the caller's depth, but maps to the callee
+        if ((step.src as DecodedBytecodeSourceMapEntry).jump === "o") {
+            return false;
+        }
+
+        if (idx === 0) {
+            return true;
+        }
+
+        const prev = this.trace[idx - 1];
+
+        if (prev.stack.length !== step.stack.length || prev.src === undefined) {
+            return true;
+        }
+
+        const src = step.src as DecodedBytecodeSourceMapEntry;
+        const prevSrc = prev.src;
+
+        return (
+            src.start !== prevSrc.start ||
+            src.length !== prevSrc.length ||
+            src.sourceIndex !== prevSrc.sourceIndex
+        );
+    }
+
+    /**
+     * Index of the current step in the trace
+     */
+    get curIdx(): number {
+        return this._curIdx;
+    }
+
+    /**
+     * The current step
+     */
+    get curStep(): StepState {
+        return this.trace[this._curIdx];
+    }
+
+    /**
+     * True if we are at the last step of the trace
+     */
+    get finished(): boolean {
+        return this._curIdx === this.trace.length - 1;
+    }
+
+    /**
+     * Return true if the step at index `idx` is a source-level step boundary
+     */
+    isBoundary(idx: number): boolean {
+        return this.boundaries[idx];
+    }
+
+    /**
+     * Move to the step at index `idx` in the trace (regardless of whether its a boundary or not)
+     */
+    goto(idx: number): StepState {
+        assert(idx >= 0 && idx < this.trace.length, `Step ${idx} out of range`);
+
+        this._curIdx = idx;
+
+        return this.curStep;
+    }
+
+    /**
+     * Add a new breakpoint described by the predicate `pred`. Returns an id that can be used to remove it.
+     */
+    addBreakpoint(pred: StepPredicate): number {
+        const id = this.nextBreakpointId++;
+
+        this.breakpoints.set(id, pred);
+
+        return id;
+    }
+
+    removeBreakpoint(id: number): boolean {
+        return this.breakpoints.delete(id);
+    }
+
+    clearBreakpoints(): void {
+        this.breakpoints.clear();
+    }
+
+    private findForward(
+        from: number,
+        pred: (idx: number) => boolean,
+        onlyBoundaries = true
+    ): number | undefined {
+        for (let i = from + 1; i < this.trace.length; i++) {
+            if ((!onlyBoundaries || this.boundaries[i]) && pred(i)) {
+                return i;
+            }
+        }
+
+        return undefined;
+    }
+
+    private findBackward(
+        from: number,
+        pred: (idx: number) => boolean,
+        onlyBoundaries = true
+    ): number | undefined {
+        for (let i = from - 1; i >= 0; i--) {
+            if ((!onlyBoundaries || this.boundaries[i]) && pred(i)) {
+                return i;
+            }
+        }
+
+        return undefined;
+    }
+
+    private moveForward(pred: (idx: number) => boolean, onlyBoundaries = true): StepState {
+        const idx = this.findForward(this._curIdx, pred, onlyBoundaries);
+
+        return this.goto(idx === undefined ? this.trace.length - 1 : idx);
+    }
+
+    private moveBackward(pred: (idx: number) => boolean, onlyBoundaries = true): StepState {
+        let idx = this.findBackward(this._curIdx, pred, onlyBoundaries);
+
+        if (idx === undefined) {
+            idx = this.findForward(-1, () => true);
+        }
+
+        return this.goto(idx === undefined ? 0 : idx);
+    }
+
+    private depth(idx: number): number {
+        return this.trace[idx].stack.length;
+    }
+
+    private hitsBreakpoint(idx: number): boolean {
+        const step = this.trace[idx];
+
+        for (const pred of this.breakpoints.values()) {
+            if (pred(step, idx)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Return the step at which the `frameIdx`-th frame in the current stack is executing. For the top frame
+     * this is the current step. For all other frames this is the step right before the frame above them was
+     * entered.
+     */
+    getFrameStep(frameIdx: number): StepState {
+        const stack = this.curStep.stack;
+
+        assert(frameIdx >= 0 && frameIdx < stack.length, `Frame ${frameIdx} out of range`);
+
+        return frameIdx === stack.length - 1
+            ? this.curStep
+            : this.trace[stack[frameIdx + 1].startStep - 1];
+    }
+
+    /**
+     * Repeat the stepping action `move` (e.g. `() => session.stepOver()`) until we reach a different
+     * source line or a different frame. Source-level steps are usually more fine-grained than lines,
+     * while users of line-based UIs expect stepping to move between lines.
+     */
+    stepLine(move: () => StepState): StepState {
+        const startStack = this.curStep.stack;
+        const startFrame = startStack[startStack.length - 1];
+        const startLoc = getStepSourceLoc(this.curStep);
+        let prevIdx: number;
+
+        do {
+            prevIdx = this._curIdx;
+            move();
+
+            const stack = this.curStep.stack;
+            const loc = getStepSourceLoc(this.curStep);
+
+            if (
+                stack[stack.length - 1] !== startFrame ||
+                loc === undefined ||
+                startLoc === undefined ||
+                loc.file !== startLoc.file ||
+                loc.line !== startLoc.line
+            ) {
+                break;
+            }
+        } while (this._curIdx !== prevIdx && !this.finished);
+
+        return this.curStep;
+    }
+
+    /**
+     * Move to the next source-level step, entering any calls
+     */
+    stepInto(): StepState {
+        return this.moveForward(() => true);
+    }
+
+    /**
+     * Move to the next source-level step in the current frame (or one of its callers), skipping over calls
+     */
+    stepOver(): StepState {
+        const depth = this.depth(this._curIdx);
+
+        return this.moveForward((i) => this.depth(i) <= depth);
+    }
+
+    /**
+     * Move to the next source-level step after the current frame returns
+     */
+    stepOut(): StepState {
+        const depth = this.depth(this._curIdx);
+
+        return this.moveForward((i) => this.depth(i) < depth);
+    }
+
+    /**
+     * Move to the previous source-level step, entering any calls
+     */
+    stepBackInto(): StepState {
+        return this.moveBackward(() => true);
+    }
+
+    /**
+     * Move to the previous source-level step in the current frame (or one of its callers), skipping over calls
+     */
+    stepBackOver(): StepState {
+        const depth = this.depth(this._curIdx);
+
+        return this.moveBackward((i) => this.depth(i) <= depth);
+    }
+
+    /**
+     * Move back to the source-level step in the caller right before the current frame was entered
+     */
+    stepBackOut(): StepState {
+        const depth = this.depth(this._curIdx);
+
+        return this.moveBackward((i) => this.depth(i) < depth);
+    }
+
+    /**
+     * Move forward to the next step that hits a breakpoint, or to the end of the trace.
+     * Note that breakpoints are checked on all steps, not just source-level step boundaries.
+     */
+    continue(): StepState {
+        return this.moveForward((i) => this.hitsBreakpoint(i), false);
+    }
+
+    /**
+     * Move backward to the previous step that hits a breakpoint, or to the first source-level step
+     */
+    reverseContinue(): StepState {
+        return this.moveBackward((i) => this.hitsBreakpoint(i), false);
+    }
+}
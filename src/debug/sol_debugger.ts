@@ -1,10 +1,11 @@
 import { Block } from "@ethereumjs/block";
+import Common from "@ethereumjs/common";
 import { Transaction } from "@ethereumjs/tx";
 import VM from "@ethereumjs/vm";
 import { InterpreterStep } from "@ethereumjs/vm/dist/evm/interpreter";
 import { RunTxResult } from "@ethereumjs/vm/dist/runTx";
 import { StateManager } from "@ethereumjs/vm/dist/state";
-import { Address, rlp } from "ethereumjs-util";
+import { Address, generateAddress, generateAddress2, keccak256, rlp } from "ethereumjs-util";
 import {
     assert,
     ASTNode,
@@ -14,22 +15,25 @@ import {
     VariableDeclaration,
     variableDeclarationToTypeNode
 } from "solc-typed-ast";
+import { ABIEncoderVersion } from "solc-typed-ast/dist/types/abi";
 import {
     bigEndianBufToBigint,
+    bigIntToBuf,
     bnToBigInt,
     DecodedBytecodeSourceMapEntry,
     getFunctionSelector,
+    hexStrToBuf32,
     HexString,
     ImmMap,
     padStart,
+    stripOx,
     UnprefixedHexString,
     wordToAddress,
-    ZERO_ADDRESS,
-    ZERO_ADDRESS_STRING
+    ZERO_ADDRESS
 } from "..";
 import { getCodeHash, getCreationCodeHash } from "../artifacts";
 import { bigEndianBufToNumber } from "../utils";
-import { decodeMsgData } from "./abi";
+import { decodeConstructorArgs, decodeMsgData, decodeReturnData } from "./abi";
 import { ContractInfo, getOffsetSrc, IArtifactManager } from "./artifact_manager";
 import { isCalldataType2Slots } from "./decoding";
 import {
@@ -40,6 +44,8 @@ import {
     increasesDepth,
     OPCODES
 } from "./opcodes";
+import { decodeEvent, DecodedEvent } from "./events";
+import { decodeRevertData, DecodedRevert } from "./revert";
 
 export enum FrameKind {
     Call = "call",
@@ -65,6 +71,22 @@ interface BaseFrame {
      */
     readonly arguments: Array<[string, DataView | undefined]> | undefined;
     readonly startStep: number;
+    /**
+     * Index of the step executing the instruction that exits this frame. Set when the frame is popped
+     * off the stack (or at the end of the trace for the frames remaining on the stack).
+     *
+     * For external frames this is the last step inside the frame (e.g. the `RETURN` or `REVERT`). For
+     * internal frames this is the returning `JUMP`, which is already attributed to the caller (i.e.
+     * `trace[exitStep].stack` no longer contains the frame). In both cases the EVM state at `exitStep`
+     * still holds the returned values.
+     */
+    exitStep?: number;
+    /**
+     * If the frame returned normally and we know the `callee`, the locations of the returned values.
+     * For internal calls these are on the stack, and for external calls they are in the memory passed to RETURN.
+     * In both cases they should be decoded in the state of step `exitStep`.
+     */
+    returnValues?: Array<[string, DataView | undefined]>;
 }
 
 /**
@@ -74,6 +96,12 @@ interface BaseExternalFrame extends BaseFrame {
     readonly sender: HexString;
     readonly msgData: Buffer;
     readonly address: Address;
+    /// Value sent with the call (`msg.value`). Delegate calls inherit the value of their caller.
+    readonly value: bigint;
+    /**
+     * If the frame exited with a REVERT, the decoded revert data. Set when the frame is popped.
+     */
+    revertReason?: DecodedRevert;
 }
 
 /**
@@ -93,6 +121,11 @@ interface CreationFrame extends BaseExternalFrame {
     readonly kind: FrameKind.Creation;
     readonly creationCode: Buffer;
     readonly info?: ContractInfo;
+    /**
+     * Offset in `msgData` at which the ABI-encoded constructor arguments begin
+     * (i.e. the length of the creation bytecode). Only known when we have debug info for the contract.
+     */
+    readonly argsOffset?: number;
 }
 
 /**
@@ -102,6 +135,11 @@ interface InternalCallFrame extends BaseFrame {
     readonly kind: FrameKind.InternalCall;
     readonly nearestExtFrame: CallFrame | CreationFrame;
     readonly offset: number;
+    /**
+     * Height of the EVM stack when entering the function (including the return address and the arguments).
+     * Used to compute the stack locations of the return variables and locals.
+     */
+    readonly entryStackHeight: number;
 }
 
 export type ExternalFrame = CallFrame | CreationFrame;
@@ -112,7 +150,8 @@ export enum DataLocationKind {
     Stack = "stack",
     Memory = "memory",
     Storage = "storage",
-    CallData = "calldata"
+    CallData = "calldata",
+    Code = "code"
 }
 
 export type MemoryLocationKind =
@@ -139,6 +178,13 @@ export interface CalldataLocation extends BaseMemoryLocation {
 
 export interface LinearMemoryLocation extends BaseMemoryLocation {
     kind: DataLocationKind.Memory;
+    /**
+     * If set, the data at this location is ABI-encoded (e.g. return data, revert data or event payloads),
+     * and any offsets inside of it are relative to `abiEncodingBase`.
+     */
+    abiEncodingBase?: bigint;
+    /// The ABI encoder version the data at `abiEncodingBase` was encoded with. Defaults to V2.
+    abiEncoderVersion?: ABIEncoderVersion;
 }
 
 export interface StorageLocation extends BaseMemoryLocation {
@@ -146,9 +192,17 @@ export interface StorageLocation extends BaseMemoryLocation {
     endOffsetInWord: number;
 }
 
+/**
+ * Location in the code of the currently executing contract. Used for immutable variables, whose
+ * values are inserted in the deployed bytecode by the constructor.
+ */
+export interface CodeLocation extends BaseMemoryLocation {
+    kind: DataLocationKind.Code;
+}
+
 export type ByteAddressableMemoryLocation = CalldataLocation | LinearMemoryLocation;
 export type MemoryLocation = ByteAddressableMemoryLocation | StorageLocation;
-export type DataLocation = StackLocation | MemoryLocation;
+export type DataLocation = StackLocation | MemoryLocation | CodeLocation;
 
 export interface DataView {
     type: TypeNode;
@@ -184,13 +238,39 @@ export interface StepVMState {
     depth: number;
     address: Address;
     codeAddress: Address;
+    /// Data returned by the last call (or failed contract creation) made by the current frame
+    returnData: Buffer;
+}
+
+/**
+ * Fields of the block in which a transaction executes (`block.*` in Solidity)
+ */
+export interface BlockContext {
+    number: bigint;
+    timestamp: bigint;
+    coinbase: Address;
+    difficulty: bigint;
+    gasLimit: bigint;
+    /// Only defined after the London hardfork
+    baseFee: bigint | undefined;
+    chainId: bigint;
+}
+
+/**
+ * Context of a transaction, that doesn't change during its execution (`tx.*` and `block.*` in
+ * Solidity). It's shared by all steps of the transaction's trace.
+ */
+export interface TxContext {
+    origin: Address;
+    gasPrice: bigint;
+    block: BlockContext;
 }
 
 /**
  * State that the debugger maintains for each trace step.
  * It includes the basic VM state (`StepVmState`) and optionally (if we have debug info for this contract)
  * includes the decoded source location, any AST nodes that are mapped to this instruction and any events
- * that may be emitted on this step.
+ * that may be emitted on this step (decoded if they match an event definition in the artifacts).
  */
 export interface StepState extends StepVMState {
     code: Buffer;
@@ -199,7 +279,28 @@ export interface StepState extends StepVMState {
     src: DecodedBytecodeSourceMapEntry | undefined;
     astNode: ASTNode | undefined;
     emittedEvent: EventDesc | undefined;
+    decodedEvent: DecodedEvent | undefined;
     contractInfo: ContractInfo | undefined;
+    txContext: TxContext;
+}
+
+/**
+ * Callback returning the code deployed at `address`
+ */
+type CodeProvider = (address: Address) => Promise<Buffer>;
+
+/**
+ * Callback receiving each step (and its index in the trace) from `SolTxDebugger.debugTxStream`
+ */
+export type StepCallback = (step: StepState, idx: number) => void | Promise<void>;
+
+export interface DebugTxStreamOptions {
+    /**
+     * If true, the low-level VM state (`evmStack`, `memory` and `storage`) is replaced with empty values in
+     * the reported steps, so that it can be garbage-collected early. Note that without it values of
+     * variables can't be decoded.
+     */
+    dropLowLevelState?: boolean;
 }
 
 /**
@@ -208,16 +309,60 @@ export interface StepState extends StepVMState {
  */
 export interface Web3DbgState {
     stack: HexString[];
-    memory: HexString[];
-    storage?: any;
+    /// Memory as 32-byte words. Geth only reports it if the trace is run with `enableMemory: true`
+    memory?: UnprefixedHexString[];
+    /// The storage slots accessed so far in the current contract
+    storage?: { [slot: UnprefixedHexString]: UnprefixedHexString };
     op: string;
     pc: number;
-    gasCost: string;
-    gas: string;
+    gasCost: number | string;
+    gas: number | string;
     depth: number;
     error?: any;
 }
 
+/**
+ * State of an account before a transaction, as reported by geth's `prestateTracer`
+ */
+export interface Web3AccountState {
+    balance?: HexString;
+    nonce?: number;
+    code?: HexString;
+    storage?: { [slot: HexString]: HexString };
+}
+
+export interface Web3PreState {
+    [address: HexString]: Web3AccountState;
+}
+
+/**
+ * The address and code address of an external call context in a Web3 trace
+ */
+interface Web3CallContext {
+    address: Address;
+    codeAddress: Address;
+    isCreation: boolean;
+}
+
+/**
+ * Compute the key of `slot` in a `Storage`. As in the storage dumps of the VM, storage is keyed by the
+ * hash of the slot.
+ */
+function storageKey(slot: Buffer): bigint {
+    return bigEndianBufToBigint(keccak256(padStart(slot, 32, 0)));
+}
+
+/**
+ * Convert the storage slots reported by a node (e.g. in `structLogs` or by the `prestateTracer`) to
+ * `Storage` entries
+ */
+function toStorage(slots: { [slot: string]: string }): Array<[bigint, Buffer]> {
+    return Object.entries(slots).map(([slot, val]) => [
+        storageKey(hexStrToBuf32(stripOx(slot))),
+        hexStrToBuf32(stripOx(val))
+    ]);
+}
+
 // Helper functions
 
 /**
@@ -235,6 +380,19 @@ export function getContractInfo(arg: Frame | DbgStack): ContractInfo | undefined
     return frame.info;
 }
 
+/**
+ * Read `size` bytes from `memory` starting at `off`. Any bytes past the end of `memory` are 0.
+ */
+export function readMemory(memory: Memory, off: number, size: number): Buffer {
+    const res = Buffer.alloc(size, 0);
+
+    if (off < memory.length) {
+        memory.copy(res, 0, off, Math.min(off + size, memory.length));
+    }
+
+    return res;
+}
+
 async function getStorage(manager: StateManager, addr: Address): Promise<Storage> {
     const rawStorage = await manager.dumpStorage(addr);
     const storageEntries: Array<[bigint, Buffer]> = [];
@@ -248,6 +406,60 @@ async function getStorage(manager: StateManager, addr: Address): Promise<Storage
     return ImmMap.fromEntries(storageEntries);
 }
 
+/**
+ * Compute the return data visible at a step at depth `depth`, that follows `lastStep`. The return
+ * data is cleared when entering a call, and set when a call returns to its caller. Note that the
+ * output of calls that don't execute any code (e.g. calls to precompiles) is not observable in a
+ * trace, so they are treated as returning no data.
+ */
+function getReturnData(depth: number, lastStep: StepState | undefined): Buffer {
+    if (lastStep === undefined || depth > lastStep.depth) {
+        return Buffer.alloc(0);
+    }
+
+    if (depth === lastStep.depth) {
+        return increasesDepth(lastStep.op) ? Buffer.alloc(0) : lastStep.returnData;
+    }
+
+    // Successful contract creations return the deployed code, which is not return data
+    const opcode = lastStep.op.opcode;
+    const isCreation =
+        lastStep.stack.length > 0 && lastExternalFrame(lastStep.stack).kind === FrameKind.Creation;
+
+    if (opcode === OPCODES.REVERT || (opcode === OPCODES.RETURN && !isCreation)) {
+        const stackTop = lastStep.evmStack.length - 1;
+        const off = bigEndianBufToNumber(lastStep.evmStack[stackTop]);
+        const size = bigEndianBufToNumber(lastStep.evmStack[stackTop - 1]);
+
+        return readMemory(lastStep.memory, off, size);
+    }
+
+    return Buffer.alloc(0);
+}
+
+/**
+ * Build the context of transaction `tx` running in `block`. `common` is the chain configuration of
+ * the VM running it.
+ */
+function makeTxContext(tx: Transaction, block: Block, common: Common): TxContext {
+    const header = block.header;
+
+    return {
+        origin: tx.getSenderAddress(),
+        gasPrice: bnToBigInt(tx.gasPrice),
+        block: {
+            number: bnToBigInt(header.number),
+            timestamp: bnToBigInt(header.timestamp),
+            coinbase: header.coinbase,
+            difficulty: bnToBigInt(header.difficulty),
+            gasLimit: bnToBigInt(header.gasLimit),
+            baseFee:
+                header.baseFeePerGas === undefined ? undefined : bnToBigInt(header.baseFeePerGas),
+            chainId: bnToBigInt(common.chainIdBN())
+        }
+    };
+}
+
 /**
  * `SolTxDebugger` is the main debugger class. It contains a VM and a
  * corresponding Web3 provider that can be used to run transactions on that VM.
@@ -288,18 +500,18 @@ export class SolTxDebugger {
     private async adjustStackFrame(
         stack: Frame[],
         state: StepVMState,
-        trace: StepState[],
+        lastStep: StepState | undefined,
+        stepIdx: number,
         code: Buffer,
         codeHash: HexString | undefined
     ): Promise<void> {
         const lastExtFrame: ExternalFrame = lastExternalFrame(stack);
 
         // First instruction - nothing to do
-        if (trace.length === 0) {
+        if (lastStep === undefined) {
             return;
         }
 
-        const lastStep = trace[trace.length - 1];
         const lastOp = lastStep.op;
 
         // Case 1: Change in external call depth - contract creation, external call, external call return or revert
@@ -321,7 +533,8 @@ export class SolTxDebugger {
                     const curFrame = await this.makeCreationFrame(
                         lastExtFrame.address.toString(),
                         creationBytecode,
-                        trace.length
+                        stepIdx,
+                        bigEndianBufToBigint(lastStep.evmStack[lastStackTop])
                     );
 
                     stack.push(curFrame);
@@ -344,13 +557,25 @@ export class SolTxDebugger {
                     const receiver = wordToAddress(lastStep.evmStack[lastStackTop - 1]);
 
                     const msgData = lastStep.memory.slice(argOff, argOff + argSize);
+                    let sender = lastExtFrame.address.toString();
+                    let value = BigInt(0);
+
+                    // Delegate calls keep the sender and value of the caller
+                    if (lastOp.opcode === OPCODES.DELEGATECALL) {
+                        sender = lastExtFrame.sender;
+                        value = lastExtFrame.value;
+                    } else if (lastOp.opcode !== OPCODES.STATICCALL) {
+                        value = bigEndianBufToBigint(lastStep.evmStack[lastStackTop - 2]);
+                    }
+
                     const newFrame = await this.makeCallFrame(
-                        lastExtFrame.address.toString(),
+                        sender,
                         receiver,
                         msgData,
                         code,
                         codeHash,
-                        trace.length
+                        stepIdx,
+                        value
                     );
 
                     stack.push(newFrame);
@@ -368,6 +593,8 @@ export class SolTxDebugger {
                         nFramesPopped--;
                     }
 
+                    this.recordFrameExit(topFrame, lastStep, stepIdx - 1);
+
                     stack.pop();
                 }
             }
@@ -405,8 +632,9 @@ export class SolTxDebugger {
                 nearestExtFrame: lastExtFrame,
                 callee: ast,
                 offset: state.pc,
-                startStep: trace.length,
-                arguments: args
+                startStep: stepIdx,
+                arguments: args,
+                entryStackHeight: state.evmStack.length
             };
 
             stack.push(newFrame);
@@ -424,6 +652,12 @@ export class SolTxDebugger {
                 topFrame.kind
             );
 
+            topFrame.exitStep = stepIdx;
+
+            if (topFrame.callee instanceof FunctionDefinition) {
+                topFrame.returnValues = this.decodeFunReturns(topFrame.callee, state.evmStack);
+            }
+
             stack.pop();
         }
     }
@@ -435,20 +669,17 @@ export class SolTxDebugger {
      * CREATE/CREATE2 and depth changed). The code is whatever the memory blob
      * passed to the last op was
      * 2. This is the first step or the `codeAddress` changed between this and the last
-     * steps - obtain the code from the `vm.stateManager` using `codeAddress`.
+     * steps - obtain the code for `codeAddress` using `getCode`.
      * 3. Otherwise code is the same in the last step
-     * @param vm - current VM
+     * @param getCode - callback returning the code at a given address
      * @param vmState - current (partial) state in the trace (for which we are computing code)
-     * @param trace - trace up to the current state
+     * @param lastStep - the previous step in the trace (if any)
      */
     private async getCodeAndMdHash(
-        vm: VM,
+        getCode: CodeProvider,
         step: StepVMState,
-        trace: StepState[]
+        lastStep: StepState | undefined
     ): Promise<[Buffer, HexString | undefined]> {
-        const lastStep: StepState | undefined =
-            trace.length > 0 ? trace[trace.length - 1] : undefined;
-
         let code: Buffer;
         let codeMdHash: HexString | undefined;
 
@@ -459,7 +690,7 @@ export class SolTxDebugger {
             code = lastStep.memory.slice(off, off + size);
             codeMdHash = getCreationCodeHash(code);
         } else if (lastStep === undefined || !lastStep.codeAddress.equals(step.codeAddress)) {
-            code = await vm.stateManager.getContractCode(step.codeAddress);
+            code = await getCode(step.codeAddress);
             codeMdHash = getCodeHash(code);
         } else {
             code = lastStep.code;
@@ -469,18 +700,31 @@ export class SolTxDebugger {
         return [code, codeMdHash];
     }
 
+    /**
+     * Translate the raw VM step `step` with index `stepIdx` in the trace into a `StepState`. The only
+     * history this needs is the previous step `lastStep` (if any). `stack` is the current stack trace
+     * and is updated in-place.
+     */
     async processRawTraceStep(
         vm: VM,
         step: InterpreterStep,
-        trace: StepState[],
-        stack: Frame[]
+        lastStep: StepState | undefined,
+        stepIdx: number,
+        stack: Frame[],
+        txContext: TxContext
     ): Promise<StepState> {
         const evmStack = step.stack.map((word) => Buffer.from(word.toArray("be", 32)));
-        const lastStep = trace.length > 0 ? trace[trace.length - 1] : undefined;
 
         let memory: Memory;
 
-        if (lastStep === undefined || changesMemory(lastStep.op)) {
+        // Memory also changes when we switch to a different call context, and grows when any
+        // instruction (e.g. MLOAD) accesses it past its end
+        if (
+            lastStep === undefined ||
+            changesMemory(lastStep.op) ||
+            lastStep.depth !== step.depth + 1 ||
+            lastStep.memory.length !== step.memory.length
+        ) {
             memory = Buffer.from(step.memory);
         } else {
             memory = lastStep.memory;
@@ -489,7 +733,13 @@ export class SolTxDebugger {
         const op = getOpInfo(step.opcode.name);
         let storage: Storage;
 
-        if (lastStep === undefined || lastStep.op.opcode === OPCODES.SSTORE) {
+        // Storage changes after SSTOREs, and when entering or leaving (and possibly reverting) a call.
+        // Note that `step.depth` starts at 0, while the depth of `StepState`s starts at 1.
+        if (
+            lastStep === undefined ||
+            lastStep.op.opcode === OPCODES.SSTORE ||
+            lastStep.depth !== step.depth + 1
+        ) {
             storage = await getStorage(step.stateManager, step.address);
         } else {
             storage = lastStep.storage;
@@ -511,30 +761,56 @@ export class SolTxDebugger {
             gas: bnToBigInt(step.gasLeft),
             depth: step.depth + 1, // Match geth's depth starting at 1
             address: step.address,
-            codeAddress: step.codeAddress
+            codeAddress: step.codeAddress,
+            returnData: getReturnData(step.depth + 1, lastStep)
         };
 
-        const [code, codeMdHash] = await this.getCodeAndMdHash(vm, vmState, trace);
-        await this.adjustStackFrame(stack, vmState, trace, code, codeMdHash);
+        return this.processVMState(
+            vmState,
+            (address) => vm.stateManager.getContractCode(address),
+            lastStep,
+            stepIdx,
+            stack,
+            txContext
+        );
+    }
+
+    /**
+     * Compute the `StepState` for the low-level VM state `vmState` with index `stepIdx` in the trace.
+     * `lastStep` is the previous step (if any), and `stack` is the current stack trace, which is
+     * updated in-place. `txContext` is the context of the transaction.
+     */
+    private async processVMState(
+        vmState: StepVMState,
+        getCode: CodeProvider,
+        lastStep: StepState | undefined,
+        stepIdx: number,
+        stack: Frame[],
+        txContext: TxContext
+    ): Promise<StepState> {
+        const [code, codeMdHash] = await this.getCodeAndMdHash(getCode, vmState, lastStep);
+        await this.adjustStackFrame(stack, vmState, lastStep, stepIdx, code, codeMdHash);
 
         const curExtFrame = lastExternalFrame(stack);
+        const { evmStack, memory, op } = vmState;
 
         let src: DecodedBytecodeSourceMapEntry | undefined;
         let astNode: ASTNode | undefined;
 
         try {
-            [src, astNode] = this.decodeSourceLoc(step.pc, curExtFrame);
+            [src, astNode] = this.decodeSourceLoc(vmState.pc, curExtFrame);
         } catch (e) {
             // Nothing to do
         }
 
         let emittedEvent: EventDesc | undefined = undefined;
+        let decodedEvent: DecodedEvent | undefined = undefined;
         // Finally check if an event is being emitted for this step
-        if (step.opcode.name.startsWith("LOG")) {
+        if (op.mnemonic.startsWith("LOG")) {
             const off = bigEndianBufToNumber(evmStack[evmStack.length - 1]);
             const size = bigEndianBufToNumber(evmStack[evmStack.length - 2]);
 
-            const nTopics = (step.opcode.name[3] as any) - ("0" as any);
+            const nTopics = (op.mnemonic[3] as any) - ("0" as any);
             const payload = memory.slice(off, off + size);
 
             emittedEvent = {
@@ -544,6 +820,8 @@ export class SolTxDebugger {
                     .reverse()
                     .map(bigEndianBufToBigint)
             };
+
+            decodedEvent = decodeEvent(emittedEvent, this.artifactManager, curExtFrame.info);
         }
 
         return {
@@ -554,46 +832,68 @@ export class SolTxDebugger {
             src,
             astNode,
             emittedEvent,
-            contractInfo: curExtFrame.info
+            decodedEvent,
+            contractInfo: curExtFrame.info,
+            txContext
         };
     }
 
-    async debugTx(
+    /**
+     * Debug the transaction `tx` (in block `block`, starting from state `stateManager`), without
+     * materializing the whole trace. Instead each `StepState` is passed to `onStep` (along with its index
+     * in the trace) as soon as the VM executes it. The VM waits for `onStep` to finish before executing
+     * the next step. Only the last step is kept internally, so callers that only need a bounded window
+     * of history (e.g. the last N steps before a failure) can debug arbitrarily long transactions.
+     *
+     * Note that the frames in `StepState.stack` are shared between steps, and their exit
+     * information (`exitStep`, `returnValues`, `revertReason`) is filled in only once they exit.
+     */
+    async debugTxStream(
         tx: Transaction,
         block: Block | undefined,
-        stateManager: StateManager | undefined
-    ): Promise<[StepState[], RunTxResult]> {
+        stateManager: StateManager | undefined,
+        onStep: StepCallback,
+        options: DebugTxStreamOptions = {}
+    ): Promise<RunTxResult> {
         const vm = new VM({ stateManager });
-        const sender = tx.getSenderAddress().toString();
-        const receiver = tx.to === undefined ? ZERO_ADDRESS_STRING : tx.to.toString();
-        const isCreation = receiver === ZERO_ADDRESS_STRING;
-        const stack: Frame[] = [];
-
-        let curFrame: Frame;
-
-        if (isCreation) {
-            curFrame = await this.makeCreationFrame(sender, tx.data, 0);
-        } else {
-            const code = await vm.stateManager.getContractCode(tx.to as Address);
-            const codeHash = getCodeHash(code);
-            curFrame = await this.makeCallFrame(
-                sender,
-                tx.to as Address,
-                tx.data,
-                code,
-                codeHash,
-                0
-            );
-        }
+        const stack: Frame[] = [
+            await this.makeTxFrame(tx, (address) => vm.stateManager.getContractCode(address))
+        ];
+        // Without a block the VM runs the transaction in an empty block
+        const txContext = makeTxContext(
+            tx,
+            block === undefined ? Block.fromBlockData({}, { common: vm._common }) : block,
+            vm._common
+        );
+        const emptyMemory: Memory = Buffer.alloc(0);
+        const emptyStorage: Storage = ImmMap.fromEntries([]);
+        let lastStep: StepState | undefined;
+        let nSteps = 0;
 
-        stack.push(curFrame);
+        vm.on("step", async (step: InterpreterStep, next: any) => {
+            try {
+                const curStep = await this.processRawTraceStep(
+                    vm,
+                    step,
+                    lastStep,
+                    nSteps,
+                    stack,
+                    txContext
+                );
 
-        const trace: StepState[] = [];
+                await onStep(
+                    options.dropLowLevelState
+                        ? { ...curStep, evmStack: [], memory: emptyMemory, storage: emptyStorage }
+                        : curStep,
+                    nSteps
+                );
 
-        vm.on("step", async (step: InterpreterStep, next: any) => {
-            const curStep = await this.processRawTraceStep(vm, step, trace, stack);
-            trace.push(curStep);
-            next();
+                lastStep = curStep;
+                nSteps++;
+                next();
+            } catch (e) {
+                next(e);
+            }
         });
 
         const txRes = await vm.runTx({
@@ -604,23 +904,359 @@ export class SolTxDebugger {
             skipBlockGasLimitValidation: true
         });
 
+        // Any frames still on the stack exit at the last step of the trace
+        if (lastStep !== undefined) {
+            for (let i = stack.length - 1; i >= 0; i--) {
+                this.recordFrameExit(stack[i], lastStep, nSteps - 1);
+            }
+        }
+
+        return txRes;
+    }
+
+    /**
+     * Debug the transaction `tx` from the trace `structLogs` produced by a node's `debug_traceTransaction`
+     * (e.g. geth's default struct logger), instead of re-running it in a VM. `preState` must contain the
+     * code of all contracts that the transaction executes, and may contain their nonces and storage
+     * (e.g. the output of geth's `prestateTracer`).
+     *
+     * Note that the trace must include the memory (`enableMemory: true` in geth), otherwise the arguments
+     * of external calls and the code of created contracts can't be recovered. The storage of each step
+     * contains the slots in `preState`, updated with the values loaded by SLOADs and written by SSTOREs
+     * in the trace. Writes in calls that revert are rolled back. `block` is the block in which the
+     * transaction was executed, and is used to fill in the `txContext` of each step.
+     */
+    async debugWeb3Trace(
+        tx: Transaction,
+        structLogs: Web3DbgState[],
+        preState: Web3PreState,
+        block?: Block
+    ): Promise<StepState[]> {
+        const codes = new Map<string, Buffer>();
+        const nonces = new Map<string, bigint>();
+        let storages = new Map<string, Storage>();
+        // The storages of all contracts on entry to each of the currently executing call contexts
+        const storageSnapshots: Array<Map<string, Storage>> = [];
+
+        for (const [addressStr, account] of Object.entries(preState)) {
+            const address = addressStr.toLowerCase();
+
+            codes.set(address, Buffer.from(stripOx(account.code || "0x"), "hex"));
+            nonces.set(address, BigInt(account.nonce || 0));
+            storages.set(address, ImmMap.fromEntries(toStorage(account.storage || {})));
+        }
+
+        const getCode: CodeProvider = async (address) => {
+            const code = codes.get(address.toString());
+
+            return code === undefined ? Buffer.alloc(0) : code;
+        };
+
+        const sender = tx.getSenderAddress();
+        const txAddress =
+            tx.to === undefined
+                ? new Address(generateAddress(sender.buf, tx.nonce.toArrayLike(Buffer)))
+                : tx.to;
+        const contexts: Web3CallContext[] = [
+            { address: txAddress, codeAddress: txAddress, isCreation: tx.to === undefined }
+        ];
+        const stack: Frame[] = [await this.makeTxFrame(tx, getCode)];
+        const trace: StepState[] = [];
+        const txContext = makeTxContext(
+            tx,
+            block === undefined ? Block.fromBlockData({}, { common: tx.common }) : block,
+            tx.common
+        );
+
+        for (const log of structLogs) {
+            const lastStep: StepState | undefined = trace[trace.length - 1];
+
+            if (lastStep !== undefined && log.depth > lastStep.depth) {
+                contexts.push(this.enterWeb3Context(lastStep, codes, nonces));
+                storageSnapshots.push(new Map(storages));
+            } else if (lastStep !== undefined && log.depth < lastStep.depth) {
+                const exitOp = lastStep.op.opcode;
+                const succeeded =
+                    exitOp === OPCODES.RETURN ||
+                    exitOp === OPCODES.STOP ||
+                    exitOp === OPCODES.SELFDESTRUCT;
+
+                for (let i = log.depth; i < lastStep.depth; i++) {
+                    const ctx = contexts.pop() as Web3CallContext;
+                    const snapshot = storageSnapshots.pop();
+
+                    // Roll back the storage writes of reverted (or failed) calls
+                    if (!succeeded && snapshot !== undefined) {
+                        storages = snapshot;
+                    }
+
+                    // Record the code of successfully created contracts
+                    if (
+                        ctx.isCreation &&
+                        i === lastStep.depth - 1 &&
+                        lastStep.op.opcode === OPCODES.RETURN
+                    ) {
+                        const stackTop = lastStep.evmStack.length - 1;
+                        const off = bigEndianBufToNumber(lastStep.evmStack[stackTop]);
+                        const size = bigEndianBufToNumber(lastStep.evmStack[stackTop - 1]);
+
+                        codes.set(ctx.address.toString(), readMemory(lastStep.memory, off, size));
+                    }
+                }
+            }
+
+            const ctx = contexts[contexts.length - 1];
+            const op = getOpInfo(log.op);
+            const evmStack = log.stack.map((word) => hexStrToBuf32(stripOx(word)));
+            const memWords = log.memory === undefined ? [] : log.memory;
+
+            let memory: Memory;
+
+            if (
+                lastStep !== undefined &&
+                lastStep.depth === log.depth &&
+                !changesMemory(lastStep.op) &&
+                lastStep.memory.length === memWords.length * 32
+            ) {
+                memory = lastStep.memory;
+            } else {
+                memory = Buffer.from(memWords.join(""), "hex");
+            }
+
+            const addressStr = ctx.address.toString();
+            let storage = storages.get(addressStr);
+
+            if (storage === undefined) {
+                storage = ImmMap.fromEntries([]);
+            }
+
+            let update: [bigint, Buffer] | undefined;
+
+            if (lastStep !== undefined && lastStep.op.opcode === OPCODES.SSTORE) {
+                // As in VM traces, an SSTORE takes effect at the next step
+                const stackTop = lastStep.evmStack.length - 1;
+
+                update = [
+                    storageKey(lastStep.evmStack[stackTop]),
+                    padStart(lastStep.evmStack[stackTop - 1], 32, 0)
+                ];
+            } else if (log.storage !== undefined && op.opcode === OPCODES.SLOAD) {
+                // Nodes accumulate the slots accessed by a contract throughout the transaction
+                // (including writes of reverted calls), so only the loaded slot is reliable
+                const key = storageKey(evmStack[evmStack.length - 1]);
+
+                update = toStorage(log.storage).find(([slot]) => slot === key);
+            }
+
+            if (update !== undefined) {
+                const oldVal = storage.get(update[0]);
+
+                if (oldVal === undefined || !oldVal.equals(update[1])) {
+                    storage = storage.set(...update);
+                }
+            }
+
+            storages.set(addressStr, storage);
+
+            const gasCost = BigInt(log.gasCost);
+            const vmState: StepVMState = {
+                evmStack,
+                memory,
+                storage,
+                op,
+                pc: log.pc,
+                gasCost,
+                dynamicGasCost: gasCost,
+                gas: BigInt(log.gas),
+                depth: log.depth,
+                address: ctx.address,
+                codeAddress: ctx.codeAddress,
+                returnData: getReturnData(log.depth, lastStep)
+            };
+
+            trace.push(
+                await this.processVMState(
+                    vmState,
+                    getCode,
+                    lastStep,
+                    trace.length,
+                    stack,
+                    txContext
+                )
+            );
+        }
+
+        // Any frames still on the stack exit at the last step of the trace
+        if (trace.length > 0) {
+            const lastStep = trace[trace.length - 1];
+
+            for (let i = stack.length - 1; i >= 0; i--) {
+                this.recordFrameExit(stack[i], lastStep, trace.length - 1);
+            }
+        }
+
+        return trace;
+    }
+
+    /**
+     * Compute the call context entered by the call or contract creation in `lastStep`. For
+     * contract creations also bump the nonce of the creator in `nonces`.
+     */
+    private enterWeb3Context(
+        lastStep: StepState,
+        codes: Map<string, Buffer>,
+        nonces: Map<string, bigint>
+    ): Web3CallContext {
+        const lastOp = lastStep.op;
+        const evmStack = lastStep.evmStack;
+        const stackTop = evmStack.length - 1;
+
+        if (createsContract(lastOp)) {
+            const creator = lastStep.address.toString();
+            const defaultNonce = codes.has(creator) ? BigInt(1) : BigInt(0);
+            const nonce = nonces.has(creator) ? (nonces.get(creator) as bigint) : defaultNonce;
+            let address: Address;
+
+            if (lastOp.opcode === OPCODES.CREATE2) {
+                const off = bigEndianBufToNumber(evmStack[stackTop - 1]);
+                const size = bigEndianBufToNumber(evmStack[stackTop - 2]);
+                const initCode = readMemory(lastStep.memory, off, size);
+
+                address = new Address(
+                    generateAddress2(lastStep.address.buf, evmStack[stackTop - 3], initCode)
+                );
+            } else {
+                address = new Address(
+                    generateAddress(lastStep.address.buf, bigIntToBuf(nonce, 32, "big"))
+                );
+            }
+
+            nonces.set(creator, nonce + BigInt(1));
+
+            return { address, codeAddress: address, isCreation: true };
+        }
+
+        const target = wordToAddress(evmStack[stackTop - 1]);
+
+        if (lastOp.opcode === OPCODES.CALLCODE || lastOp.opcode === OPCODES.DELEGATECALL) {
+            return { address: lastStep.address, codeAddress: target, isCreation: false };
+        }
+
+        return { address: target, codeAddress: target, isCreation: false };
+    }
+
+    /**
+     * Build the outermost external frame for the transaction `tx`
+     */
+    private async makeTxFrame(tx: Transaction, getCode: CodeProvider): Promise<ExternalFrame> {
+        const sender = tx.getSenderAddress().toString();
+
+        const value = bnToBigInt(tx.value);
+
+        if (tx.to === undefined) {
+            return this.makeCreationFrame(sender, tx.data, 0, value);
+        }
+
+        const code = await getCode(tx.to);
+
+        return this.makeCallFrame(sender, tx.to, tx.data, code, getCodeHash(code), 0, value);
+    }
+
+    /**
+     * Debug the transaction `tx` (in block `block`, starting from state `stateManager`) and return
+     * the full trace along with the result of the transaction. For very long transactions consider
+     * `debugTxStream` instead.
+     */
+    async debugTx(
+        tx: Transaction,
+        block: Block | undefined,
+        stateManager: StateManager | undefined
+    ): Promise<[StepState[], RunTxResult]> {
+        const trace: StepState[] = [];
+        const txRes = await this.debugTxStream(tx, block, stateManager, (step) => {
+            trace.push(step);
+        });
+
         return [trace, txRes];
     }
 
     /**
-     * Build a `CreationFrame` from the given `sender` address, `data` `Buffer`(msg.data) and the current trace step number.
+     * Record that the frame `frame` exits at step `exitStep` (with index `exitStepIdx` in the trace).
+     * If `frame` is an external call frame that exits with RETURN, also build `DataView`s
+     * for its return values. If it exits with REVERT decode the revert data.
+     */
+    private recordFrameExit(frame: Frame, exitStep: StepState, exitStepIdx: number): void {
+        frame.exitStep = exitStepIdx;
+
+        if (frame.kind !== FrameKind.InternalCall && exitStep.op.opcode === OPCODES.REVERT) {
+            const stackTop = exitStep.evmStack.length - 1;
+            const off = bigEndianBufToNumber(exitStep.evmStack[stackTop]);
+            const size = bigEndianBufToNumber(exitStep.evmStack[stackTop - 1]);
+
+            frame.revertReason = decodeRevertData(
+                readMemory(exitStep.memory, off, size),
+                this.artifactManager,
+                frame.info
+            );
+
+            return;
+        }
+
+        if (
+            frame.kind !== FrameKind.Call ||
+            frame.info === undefined ||
+            exitStep.op.opcode !== OPCODES.RETURN ||
+            !(
+                frame.callee instanceof FunctionDefinition ||
+                frame.callee instanceof VariableDeclaration
+            )
+        ) {
+            return;
+        }
+
+        const stackTop = exitStep.evmStack.length - 1;
+        const off = bigEndianBufToNumber(exitStep.evmStack[stackTop]);
+        const size = bigEndianBufToNumber(exitStep.evmStack[stackTop - 1]);
+
+        try {
+            frame.returnValues = decodeReturnData(
+                frame.callee,
+                off,
+                size,
+                frame.info.artifact.abiEncoderVersion
+            );
+        } catch (e) {
+            frame.returnValues = undefined;
+        }
+    }
+
+    /**
+     * Build a `CreationFrame` from the given `sender` address, `data` `Buffer`(msg.data), the current trace step number
+     * and the endowment `value`.
      */
     private async makeCreationFrame(
         sender: HexString,
         data: Buffer,
-        step: number
+        step: number,
+        value: bigint
     ): Promise<CreationFrame> {
         const contractInfo = await this.artifactManager.getContractFromCreationBytecode(data);
         let args: Array<[string, DataView | undefined]> | undefined;
+        let argsOffset: number | undefined;
+        // Only the constructor of the created contract itself determines the arguments. Inherited
+        // constructors receive theirs from the inheritance specifiers or the constructor modifiers.
         const callee = contractInfo && contractInfo.ast ? contractInfo.ast.vConstructor : undefined;
 
         if (contractInfo && callee instanceof FunctionDefinition) {
-            // TODO: Try and find the arguments inside the creation code and decode them
+            // The constructor arguments are ABI-encoded and appended right after the creation bytecode
+            argsOffset = contractInfo.contractArtifact.evm.bytecode.object.length / 2;
+
+            args = decodeConstructorArgs(
+                callee,
+                data,
+                argsOffset,
+                contractInfo.artifact.abiEncoderVersion
+            );
         }
 
         return {
@@ -631,13 +1267,16 @@ export class SolTxDebugger {
             info: contractInfo,
             callee,
             address: ZERO_ADDRESS,
+            value,
             startStep: step,
-            arguments: args
+            arguments: args,
+            argsOffset
         };
     }
 
     /**
-     * Build a `CallFrame` from the given `sender` address, `receiver` address, `data` `Buffer`, (msg.data) and the current trace step number.
+     * Build a `CallFrame` from the given `sender` address, `receiver` address, `data` `Buffer`, (msg.data), the current
+     * trace step number and the call `value` (msg.value).
      */
     private async makeCallFrame(
         sender: HexString,
@@ -645,7 +1284,8 @@ export class SolTxDebugger {
         data: Buffer,
         receiverCode: Buffer,
         codeHash: HexString | undefined,
-        step: number
+        step: number,
+        value: bigint
     ): Promise<CallFrame> {
         const contractInfo: ContractInfo | undefined =
             codeHash === undefined
@@ -701,6 +1341,7 @@ export class SolTxDebugger {
             info: contractInfo,
             callee,
             address: receiver,
+            value,
             startStep: step,
             arguments: args
         };
@@ -745,7 +1386,6 @@ export class SolTxDebugger {
         callee: FunctionDefinition | VariableDeclaration,
         stack: Stack
     ): Array<[string, DataView]> | undefined {
-        const res: Array<[string, DataView]> = [];
         let formals: Array<[string, TypeNode]>;
 
         try {
@@ -762,7 +1402,43 @@ export class SolTxDebugger {
             return undefined;
         }
 
-        let offsetFromTop = -1;
+        return this.buildStackViews(callee, formals, stack, -1);
+    }
+
+    /**
+     * Build `DataView`s for the return values of the internal function `callee`, given the EVM stack `stack`
+     * at the internal return JUMP. At that point the return values are right under the return address.
+     */
+    private decodeFunReturns(
+        callee: FunctionDefinition,
+        stack: Stack
+    ): Array<[string, DataView]> | undefined {
+        let formals: Array<[string, TypeNode]>;
+
+        try {
+            formals = callee.vReturnParameters.vParameters.map((retDef, i) => [
+                retDef.name === "" ? `RET_${i}` : retDef.name,
+                variableDeclarationToTypeNode(retDef)
+            ]);
+        } catch (e) {
+            return undefined;
+        }
+
+        return this.buildStackViews(callee, formals, stack, 0);
+    }
+
+    /**
+     * Helper to build stack `DataView`s for the given `formals`, assuming that they are laid out
+     * consecutively in `stack`, with the last one right under `startOffsetFromTop`.
+     */
+    private buildStackViews(
+        callee: FunctionDefinition | VariableDeclaration,
+        formals: Array<[string, TypeNode]>,
+        stack: Stack,
+        startOffsetFromTop: number
+    ): Array<[string, DataView]> {
+        const res: Array<[string, DataView]> = [];
+        let offsetFromTop = startOffsetFromTop;
 
         for (let i = formals.length - 1; i >= 0; i--) {
             const [name, typ] = formals[i];
@@ -772,7 +1448,7 @@ export class SolTxDebugger {
 
             assert(
                 offsetFromTop <= stack.length,
-                `Stack underflow when trying to decode arguments of {0}`,
+                `Stack underflow when trying to decode arguments or return values of {0}`,
                 callee,
                 `Expected ${formals.length} entries but stack is only ${stack.length} deep`
             );
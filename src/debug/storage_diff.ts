@@ -0,0 +1,276 @@
+import { StateManager } from "@ethereumjs/vm/dist/state";
+import { Address } from "ethereumjs-util";
+import { bigEndianBufToBigint, bigIntToBuf, padStart } from "..";
+import { ContractInfo } from "./artifact_manager";
+import { OPCODES } from "./opcodes";
+import { ExternalFrame, lastExternalFrame, StepState } from "./sol_debugger";
+import {
+    findSlotVariables,
+    getContractStorageLayout,
+    getKeccakPreimages,
+    SlotVariable,
+    StorageLayout
+} from "./storage_layout";
+
+/**
+ * A change of a single storage slot. `path` is the access path of the state variable(s) residing in
+ * the slot (e.g. `last.amount`), when we have debug info for the contract and can resolve it.
+ */
+export interface StorageChange {
+    address: Address;
+    slot: bigint;
+    oldValue: Buffer;
+    newValue: Buffer;
+    path?: string;
+}
+
+/**
+ * The net storage changes made during an external frame (including any nested calls that didn't revert).
+ * If the frame itself `reverted`, these changes were rolled back, and are not part of the changes of
+ * the transaction.
+ */
+export interface FrameStorageDiff {
+    frame: ExternalFrame;
+    reverted: boolean;
+    changes: StorageChange[];
+}
+
+export interface TxStorageDiff {
+    /// The net changes made by the whole transaction, across all contracts
+    changes: StorageChange[];
+    /// The diffs of each external frame, in the order the frames were entered
+    frames: FrameStorageDiff[];
+}
+
+interface SlotWrite {
+    address: Address;
+    slot: bigint;
+    /// Value of the slot before the write
+    prevValue: Buffer;
+    info: ContractInfo | undefined;
+}
+
+interface FrameJournal {
+    frame: ExternalFrame;
+    writes: SlotWrite[];
+    diff: FrameStorageDiff;
+}
+
+function slotKey(address: Address, slot: bigint): string {
+    return `${address.toString()}:${slot.toString(16)}`;
+}
+
+/**
+ * Return true if the external frame `frame` exited normally
+ */
+function frameSucceeded(frame: ExternalFrame, trace: StepState[]): boolean {
+    const exitStep = trace[frame.exitStep === undefined ? trace.length - 1 : frame.exitStep];
+    const opcode = exitStep.op.opcode;
+
+    return opcode === OPCODES.STOP || opcode === OPCODES.RETURN || opcode === OPCODES.SELFDESTRUCT;
+}
+
+/**
+ * Describe the state variables stored in a changed slot. For packed slots only the variables whose
+ * bytes changed are included.
+ */
+function describeSlot(
+    vars: SlotVariable[],
+    oldValue: Buffer,
+    newValue: Buffer
+): string | undefined {
+    const changed = vars.filter((v) => {
+        const start = 32 - v.offset - v.size;
+
+        return !oldValue.slice(start, start + v.size).equals(newValue.slice(start, start + v.size));
+    });
+
+    const res = (changed.length > 0 ? changed : vars).map((v) => v.path);
+
+    return res.length > 0 ? res.join(", ") : undefined;
+}
+
+/**
+ * Compute the storage changes made by the transaction with trace `trace`, both for the whole
+ * transaction and for each external frame. `stateBefore` must contain the state right before the
+ * transaction and is used to look up the original values of the changed slots.
+ *
+ * The diff is computed from the SSTOREs in the trace, and takes into account that the changes made in
+ * reverted frames are rolled back. When we have debug info for the contract executing an SSTORE, the
+ * changed slot is annotated with the paths of the state variables it holds. Slots of mapping values
+ * and dynamic array elements are resolved using the keccak preimages computed in the transaction.
+ */
+export async function computeStorageDiff(
+    trace: StepState[],
+    stateBefore: StateManager
+): Promise<TxStorageDiff> {
+    // Current value of all slots written so far
+    const curValues = new Map<string, Buffer>();
+    const origValues = new Map<string, Buffer>();
+    const writes: SlotWrite[] = [];
+    const journals: FrameJournal[] = [];
+    const frames: FrameStorageDiff[] = [];
+    const layouts = new Map<ContractInfo, StorageLayout | undefined>();
+    const preimages = getKeccakPreimages(trace);
+
+    const getValue = async (address: Address, slot: bigint): Promise<Buffer> => {
+        const key = slotKey(address, slot);
+        let val = curValues.get(key);
+
+        if (val === undefined) {
+            const raw = await stateBefore.getContractStorage(address, bigIntToBuf(slot, 32, "big"));
+
+            val = padStart(raw, 32, 0);
+            curValues.set(key, val);
+            origValues.set(key, val);
+        }
+
+        return val;
+    };
+
+    const makeChange = (
+        address: Address,
+        slot: bigint,
+        oldValue: Buffer,
+        newValue: Buffer,
+        info: ContractInfo | undefined
+    ): StorageChange => {
+        const change: StorageChange = { address, slot, oldValue, newValue };
+
+        if (info === undefined) {
+            return change;
+        }
+
+        if (!layouts.has(info)) {
+            layouts.set(info, getContractStorageLayout(info));
+        }
+
+        const layout = layouts.get(info);
+
+        if (layout !== undefined) {
+            change.path = describeSlot(
+                findSlotVariables(layout, slot, preimages, info.structLayouts),
+                oldValue,
+                newValue
+            );
+        }
+
+        return change;
+    };
+
+    /**
+     * Compute the net changes from a list of writes, relative to the value before the first write of
+     * each slot.
+     */
+    const netChanges = (frameWrites: SlotWrite[]): StorageChange[] => {
+        const firstWrites = new Map<string, SlotWrite>();
+
+        for (const write of frameWrites) {
+            const key = slotKey(write.address, write.slot);
+
+            if (!firstWrites.has(key)) {
+                firstWrites.set(key, write);
+            }
+        }
+
+        const res: StorageChange[] = [];
+
+        for (const [key, write] of firstWrites) {
+            const newValue = curValues.get(key) as Buffer;
+
+            if (!write.prevValue.equals(newValue)) {
+                res.push(
+                    makeChange(write.address, write.slot, write.prevValue, newValue, write.info)
+                );
+            }
+        }
+
+        return res;
+    };
+
+    const exitFrame = (): void => {
+        const journal = journals.pop() as FrameJournal;
+        const diff = journal.diff;
+
+        diff.reverted = !frameSucceeded(journal.frame, trace);
+        diff.changes = netChanges(journal.writes);
+
+        if (diff.reverted) {
+            for (let i = journal.writes.length - 1; i >= 0; i--) {
+                const write = journal.writes[i];
+
+                curValues.set(slotKey(write.address, write.slot), write.prevValue);
+            }
+        } else if (journals.length > 0) {
+            journals[journals.length - 1].writes.push(...journal.writes);
+        }
+    };
+
+    for (const step of trace) {
+        if (step.stack.length === 0) {
+            continue;
+        }
+
+        const frame = lastExternalFrame(step.stack);
+
+        // Exit any frames we returned from
+        while (journals.length > 0 && journals[journals.length - 1].frame !== frame) {
+            if (!journals.some((journal) => journal.frame === frame)) {
+                break;
+            }
+
+            exitFrame();
+        }
+
+        if (journals.length === 0 || journals[journals.length - 1].frame !== frame) {
+            const diff: FrameStorageDiff = { frame, reverted: false, changes: [] };
+
+            journals.push({ frame, writes: [], diff });
+            frames.push(diff);
+        }
+
+        if (step.op.opcode !== OPCODES.SSTORE) {
+            continue;
+        }
+
+        const stackTop = step.evmStack.length - 1;
+        const slot = bigEndianBufToBigint(step.evmStack[stackTop]);
+        const prevValue = await getValue(step.address, slot);
+        const write: SlotWrite = {
+            address: step.address,
+            slot,
+            prevValue,
+            info: step.contractInfo
+        };
+
+        curValues.set(slotKey(step.address, slot), step.evmStack[stackTop - 1]);
+        journals[journals.length - 1].writes.push(write);
+        writes.push(write);
+    }
+
+    while (journals.length > 0) {
+        exitFrame();
+    }
+
+    const changes: StorageChange[] = [];
+    const seen = new Set<string>();
+
+    for (const write of writes) {
+        const key = slotKey(write.address, write.slot);
+
+        if (seen.has(key)) {
+            continue;
+        }
+
+        seen.add(key);
+
+        const oldValue = origValues.get(key) as Buffer;
+        const newValue = curValues.get(key) as Buffer;
+
+        if (!oldValue.equals(newValue)) {
+            changes.push(makeChange(write.address, write.slot, oldValue, newValue, write.info));
+        }
+    }
+
+    return { changes, frames };
+}
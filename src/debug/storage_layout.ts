@@ -0,0 +1,712 @@
+import { keccak256 } from "ethereumjs-util";
+import {
+    AddressType,
+    ASTContext,
+    ArrayType,
+    BoolType,
+    BytesType,
+    ContractDefinition,
+    DataLocation as SolDataLocation,
+    EnumDefinition,
+    enumToIntType,
+    FixedBytesType,
+    FunctionType,
+    FunctionVisibility,
+    IntType,
+    MappingType,
+    Mutability,
+    PointerType,
+    StringType,
+    StructDefinition,
+    typeNameToTypeNode,
+    TypeNode,
+    UserDefinedType,
+    UserDefinedValueTypeDefinition,
+    VariableDeclaration,
+    variableDeclarationToTypeNode
+} from "solc-typed-ast";
+import {
+    bigEndianBufToBigint,
+    bigEndianBufToNumber,
+    SolcStorageLayout,
+    SolcStorageLayoutItem,
+    wordToAddress
+} from "..";
+import { changeToLocation } from "./abi";
+import { ContractInfo } from "./artifact_manager";
+import { OPCODES } from "./opcodes";
+import { readMemory, StepState } from "./sol_debugger";
+
+const WORD_SIZE = 32;
+
+/**
+ * Location of a state variable (or a struct field) in storage. As in solc's `storageLayout` output,
+ * `offset` is the byte offset inside the slot, counting from the lowest-order byte.
+ */
+export interface StorageLayoutEntry {
+    name: string;
+    type: TypeNode;
+    slot: bigint;
+    offset: number;
+}
+
+export type StorageLayout = StorageLayoutEntry[];
+
+/**
+ * Layout of the members of a struct, as reported by solc. Member slots are relative to the first slot
+ * of the struct.
+ */
+export interface StructLayout {
+    members: StorageLayout;
+    nSlots: number;
+}
+
+/**
+ * Layouts of the structs found in the `types` table of solc's `storageLayout` output. When a struct
+ * has no entry its layout is computed from its definition.
+ */
+export type StructLayouts = Map<StructDefinition, StructLayout>;
+
+/**
+ * A variable (or a part of a variable, like an array element) residing in a given storage slot.
+ * `path` is the access path to it (e.g. `last.amount` or `recent[2]`).
+ */
+export interface SlotVariable {
+    path: string;
+    type: TypeNode;
+    offset: number;
+    size: number;
+}
+
+/**
+ * Get the type a pointer type `typ` points to. Other types are returned unchanged.
+ */
+export function stripPointer(typ: TypeNode): TypeNode {
+    return typ instanceof PointerType ? typ.to : typ;
+}
+
+function getStructDef(typ: TypeNode): StructDefinition | undefined {
+    return typ instanceof UserDefinedType && typ.definition instanceof StructDefinition
+        ? typ.definition
+        : undefined;
+}
+
+/**
+ * Return the number of bytes a value type `typ` takes up in storage, or undefined if `typ` is not a
+ * value type (i.e. it always occupies whole slots)
+ */
+function valueTypeSize(typ: TypeNode): number | undefined {
+    if (typ instanceof IntType) {
+        return typ.nBits / 8;
+    }
+
+    if (typ instanceof FixedBytesType) {
+        return typ.size;
+    }
+
+    if (typ instanceof BoolType) {
+        return 1;
+    }
+
+    if (typ instanceof AddressType) {
+        return 20;
+    }
+
+    // Internal function pointers are a code offset, while external ones are an address and a selector
+    if (typ instanceof FunctionType) {
+        return typ.visibility === FunctionVisibility.External ? 24 : 8;
+    }
+
+    if (typ instanceof UserDefinedType) {
+        if (typ.definition instanceof EnumDefinition) {
+            return enumToIntType(typ.definition).nBits / 8;
+        }
+
+        if (typ.definition instanceof UserDefinedValueTypeDefinition) {
+            return valueTypeSize(typeNameToTypeNode(typ.definition.underlyingType));
+        }
+
+        if (typ.definition instanceof ContractDefinition) {
+            return 20;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Return the number of bytes that a variable of type `typ` occupies in storage. For types that aren't
+ * value types this is always a multiple of the word size.
+ */
+export function typeStorageSize(typ: TypeNode, structs?: StructLayouts): number {
+    typ = stripPointer(typ);
+
+    const size = valueTypeSize(typ);
+
+    if (size !== undefined) {
+        return size;
+    }
+
+    const structDef = getStructDef(typ);
+
+    if (structDef !== undefined) {
+        return getStructSlots(structDef, structs) * WORD_SIZE;
+    }
+
+    if (typ instanceof ArrayType && typ.size !== undefined) {
+        const elSize = valueTypeSize(typ.elementT);
+        const len = Number(typ.size);
+
+        if (elSize !== undefined) {
+            const perSlot = Math.floor(WORD_SIZE / elSize);
+
+            return Math.ceil(len / perSlot) * WORD_SIZE;
+        }
+
+        return len * typeStorageSize(typ.elementT, structs);
+    }
+
+    // Mappings, dynamic arrays, bytes and string occupy a single slot
+    return WORD_SIZE;
+}
+
+/**
+ * Lay out a sequence of variables in storage starting at slot `startSlot`, following solc's rules:
+ * value types are packed in the same slot when they fit, while structs and arrays always start a new
+ * slot, and the variables following them also start a new slot.
+ */
+function layoutVariables(
+    decls: VariableDeclaration[],
+    startSlot: bigint,
+    structs?: StructLayouts
+): StorageLayout {
+    const res: StorageLayout = [];
+    let slot = startSlot;
+    let offset = 0;
+
+    for (const decl of decls) {
+        const typ = changeToLocation(variableDeclarationToTypeNode(decl), SolDataLocation.Storage);
+        const size = typeStorageSize(typ, structs);
+        const packed = valueTypeSize(stripPointer(typ)) !== undefined;
+
+        if (offset > 0 && (!packed || offset + size > WORD_SIZE)) {
+            slot++;
+            offset = 0;
+        }
+
+        res.push({ name: decl.name, type: typ, slot, offset });
+
+        if (packed) {
+            offset += size;
+        } else {
+            slot += BigInt(size / WORD_SIZE);
+        }
+    }
+
+    return res;
+}
+
+function getStructSlots(def: StructDefinition, structs?: StructLayouts): number {
+    const solcLayout = structs === undefined ? undefined : structs.get(def);
+
+    if (solcLayout !== undefined) {
+        return solcLayout.nSlots;
+    }
+
+    const layout = layoutVariables(def.vMembers, BigInt(0), structs);
+
+    if (layout.length === 0) {
+        return 0;
+    }
+
+    const last = layout[layout.length - 1];
+    const lastSize = typeStorageSize(last.type, structs);
+
+    return Number(last.slot) + Math.ceil((last.offset + lastSize) / WORD_SIZE);
+}
+
+/**
+ * Get the layout of the members of a struct with definition `def`, stored starting at `slot`. The
+ * layout in `structs` is preferred, and otherwise it is computed from the struct definition.
+ */
+function getStructLayout(
+    def: StructDefinition,
+    slot: bigint,
+    structs?: StructLayouts
+): StorageLayout {
+    const solcLayout = structs === undefined ? undefined : structs.get(def);
+
+    if (solcLayout === undefined) {
+        return layoutVariables(def.vMembers, slot, structs);
+    }
+
+    return solcLayout.members.map((member) => ({ ...member, slot: slot + member.slot }));
+}
+
+/**
+ * Compute the storage layout of the state variables of `contract` (including the inherited ones, in
+ * the order of linearization starting from the most base contract). Constants and immutables don't
+ * live in storage and are skipped. Returns undefined if we fail computing the type of some variable.
+ */
+export function getStorageLayout(contract: ContractDefinition): StorageLayout | undefined {
+    const decls: VariableDeclaration[] = [];
+
+    for (const base of [...contract.vLinearizedBaseContracts].reverse()) {
+        for (const decl of base.vStateVariables) {
+            if (decl.constant || decl.mutability === Mutability.Immutable) {
+                continue;
+            }
+
+            decls.push(decl);
+        }
+    }
+
+    try {
+        return layoutVariables(decls, BigInt(0));
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Convert the state variables (or struct members) `items` of solc's `storageLayout` output to a
+ * `StorageLayout`. Returns undefined if some declaration is missing or we fail computing its type.
+ */
+function fromSolcItems(items: SolcStorageLayoutItem[], ctx: ASTContext): StorageLayout | undefined {
+    const res: StorageLayout = [];
+
+    for (const item of items) {
+        const decl = ctx.locate(item.astId);
+
+        if (!(decl instanceof VariableDeclaration)) {
+            return undefined;
+        }
+
+        let typ: TypeNode;
+
+        try {
+            typ = changeToLocation(variableDeclarationToTypeNode(decl), SolDataLocation.Storage);
+        } catch (e) {
+            return undefined;
+        }
+
+        res.push({ name: item.label, type: typ, slot: BigInt(item.slot), offset: item.offset });
+    }
+
+    return res;
+}
+
+/**
+ * Convert the `storageLayout` output of solc to a `StorageLayout`. The types of the variables are
+ * computed from their declarations (found by `astId` in `ctx`). Returns undefined if some
+ * declaration is missing or we fail computing its type.
+ */
+export function fromSolcStorageLayout(
+    layout: SolcStorageLayout,
+    ctx: ASTContext
+): StorageLayout | undefined {
+    return fromSolcItems(layout.storage, ctx);
+}
+
+/**
+ * Collect the layouts of the structs in the `types` table of solc's `storageLayout` output. The
+ * definitions of the structs are found through the `astId`s of their members in `ctx`. Structs with
+ * members that we can't find, or whose types we fail computing, are skipped.
+ */
+export function fromSolcStructLayouts(layout: SolcStorageLayout, ctx: ASTContext): StructLayouts {
+    const res: StructLayouts = new Map();
+
+    if (layout.types === null) {
+        return res;
+    }
+
+    for (const typ of Object.values(layout.types)) {
+        if (typ.members === undefined || typ.members.length === 0) {
+            continue;
+        }
+
+        const member = ctx.locate(typ.members[0].astId);
+        const def = member === undefined ? undefined : member.parent;
+        const members = fromSolcItems(typ.members, ctx);
+
+        if (def instanceof StructDefinition && members !== undefined) {
+            res.set(def, { members, nSlots: Number(typ.numberOfBytes) / WORD_SIZE });
+        }
+    }
+
+    return res;
+}
+
+/**
+ * Get the storage layout of the contract `info`. The layout reported by the compiler is preferred, and
+ * if the artifact doesn't include it we fall back to computing it ourselves from the AST.
+ */
+export function getContractStorageLayout(info: ContractInfo): StorageLayout | undefined {
+    if (info.storageLayout !== undefined) {
+        return info.storageLayout;
+    }
+
+    return info.ast === undefined ? undefined : getStorageLayout(info.ast);
+}
+
+/**
+ * Get the location of the field `field` of a struct with definition `def`, stored starting at `slot`.
+ * Returns undefined if there is no such field, or we fail computing the type of some field.
+ */
+export function getStructFieldLocation(
+    def: StructDefinition,
+    field: string,
+    slot: bigint,
+    structs?: StructLayouts
+): StorageLayoutEntry | undefined {
+    let layout: StorageLayout;
+
+    try {
+        layout = getStructLayout(def, slot, structs);
+    } catch (e) {
+        return undefined;
+    }
+
+    return layout.find((entry) => entry.name === field);
+}
+
+/**
+ * Get the location of the `idx`-th element of an array with element type `elementT`, whose contents
+ * start at `dataSlot`. Value type elements are packed in the same slot when they fit.
+ */
+export function getArrayElementLocation(
+    elementT: TypeNode,
+    dataSlot: bigint,
+    idx: bigint,
+    structs?: StructLayouts
+): StorageLayoutEntry {
+    const elSize = valueTypeSize(stripPointer(elementT));
+
+    if (elSize !== undefined) {
+        const perSlot = BigInt(Math.floor(WORD_SIZE / elSize));
+
+        return {
+            name: `[${idx}]`,
+            type: elementT,
+            slot: dataSlot + idx / perSlot,
+            offset: Number(idx % perSlot) * elSize
+        };
+    }
+
+    const elSlots = BigInt(typeStorageSize(elementT, structs) / WORD_SIZE);
+
+    return { name: `[${idx}]`, type: elementT, slot: dataSlot + idx * elSlots, offset: 0 };
+}
+
+/**
+ * Compare the storage layout `actual` against `expected` (e.g. a computed layout against the one
+ * reported by the compiler) and return a description of each difference. An empty result means
+ * the layouts match.
+ */
+export function compareStorageLayouts(expected: StorageLayout, actual: StorageLayout): string[] {
+    const res: string[] = [];
+    const len = Math.max(expected.length, actual.length);
+
+    for (let i = 0; i < len; i++) {
+        const exp = expected[i];
+        const act = actual[i];
+
+        if (act === undefined) {
+            res.push(`Missing variable ${exp.name} at slot ${exp.slot} offset ${exp.offset}`);
+        } else if (exp === undefined) {
+            res.push(`Unexpected variable ${act.name} at slot ${act.slot} offset ${act.offset}`);
+        } else if (exp.name !== act.name || exp.slot !== act.slot || exp.offset !== act.offset) {
+            res.push(
+                `Expected ${exp.name} at slot ${exp.slot} offset ${exp.offset}, got ${act.name} at slot ${act.slot} offset ${act.offset}`
+            );
+        }
+    }
+
+    return res;
+}
+
+/**
+ * Find the elements (or parts of elements) of an array with element type `elementT`, whose contents
+ * start at `dataSlot`, that overlap with `slot`. `len` is the length of the array if it's known.
+ */
+function findElementVariables(
+    path: string,
+    elementT: TypeNode,
+    dataSlot: bigint,
+    len: number | undefined,
+    slot: bigint,
+    structs?: StructLayouts
+): SlotVariable[] {
+    const elSize = valueTypeSize(elementT);
+
+    if (elSize !== undefined) {
+        const perSlot = Math.floor(WORD_SIZE / elSize);
+        const first = Number(slot - dataSlot) * perSlot;
+        const end = len === undefined ? first + perSlot : Math.min(first + perSlot, len);
+        const res: SlotVariable[] = [];
+
+        for (let i = first; i < end; i++) {
+            res.push({
+                path: `${path}[${i}]`,
+                type: elementT,
+                offset: (i - first) * elSize,
+                size: elSize
+            });
+        }
+
+        return res;
+    }
+
+    const elSlots = BigInt(typeStorageSize(elementT, structs) / WORD_SIZE);
+    const idx = (slot - dataSlot) / elSlots;
+
+    return findEntryVariables(
+        {
+            name: `${path}[${idx}]`,
+            type: elementT,
+            slot: dataSlot + idx * elSlots,
+            offset: 0
+        },
+        slot,
+        structs
+    );
+}
+
+/**
+ * Find the variables (or parts of variables) of the variable at `entry` that overlap with `slot`.
+ * Mappings, dynamic arrays, bytes and strings are reported as a whole, as only their first slot is
+ * statically allocated.
+ */
+function findEntryVariables(
+    entry: StorageLayoutEntry,
+    slot: bigint,
+    structs?: StructLayouts
+): SlotVariable[] {
+    const typ = stripPointer(entry.type);
+    const size = typeStorageSize(typ, structs);
+    const valSize = valueTypeSize(typ);
+
+    if (slot < entry.slot || slot >= entry.slot + BigInt(Math.ceil(size / WORD_SIZE))) {
+        return [];
+    }
+
+    if (valSize !== undefined) {
+        return [{ path: entry.name, type: entry.type, offset: entry.offset, size: valSize }];
+    }
+
+    const structDef = getStructDef(typ);
+
+    if (structDef !== undefined) {
+        const res: SlotVariable[] = [];
+
+        for (const field of getStructLayout(structDef, entry.slot, structs)) {
+            res.push(
+                ...findEntryVariables(
+                    { ...field, name: `${entry.name}.${field.name}` },
+                    slot,
+                    structs
+                )
+            );
+        }
+
+        return res;
+    }
+
+    if (typ instanceof ArrayType && typ.size !== undefined) {
+        return findElementVariables(
+            entry.name,
+            typ.elementT,
+            entry.slot,
+            Number(typ.size),
+            slot,
+            structs
+        );
+    }
+
+    return [{ path: entry.name, type: entry.type, offset: 0, size: WORD_SIZE }];
+}
+
+/**
+ * Map from keccak256 hashes computed during a transaction to their preimages
+ */
+export type KeccakPreimages = Map<bigint, Buffer>;
+
+/**
+ * Collect the inputs of all SHA3 instructions executed in `trace`. Since solidity computes the
+ * locations of mapping values and dynamic array contents by hashing, these allow us to map such
+ * locations back to the mapping keys and base slots.
+ */
+export function getKeccakPreimages(trace: StepState[]): KeccakPreimages {
+    const res: KeccakPreimages = new Map();
+
+    for (const step of trace) {
+        if (step.op.opcode !== OPCODES.SHA3 || step.evmStack.length < 2) {
+            continue;
+        }
+
+        const stackTop = step.evmStack.length - 1;
+        const off = bigEndianBufToNumber(step.evmStack[stackTop]);
+        const size = bigEndianBufToNumber(step.evmStack[stackTop - 1]);
+        const preimage = readMemory(step.memory, off, size);
+
+        res.set(bigEndianBufToBigint(keccak256(preimage)), preimage);
+    }
+
+    return res;
+}
+
+/**
+ * Pretty-print the mapping key `key` (as passed to SHA3) of type `keyT`
+ */
+export function ppMappingKey(keyT: TypeNode, key: Buffer): string {
+    keyT = stripPointer(keyT);
+
+    if (keyT instanceof StringType) {
+        return JSON.stringify(key.toString("utf-8"));
+    }
+
+    if (keyT instanceof BytesType || key.length !== WORD_SIZE) {
+        return `0x${key.toString("hex")}`;
+    }
+
+    if (keyT instanceof AddressType) {
+        return wordToAddress(key).toString();
+    }
+
+    if (keyT instanceof FixedBytesType) {
+        return `0x${key.slice(0, keyT.size).toString("hex")}`;
+    }
+
+    if (keyT instanceof BoolType) {
+        return key[WORD_SIZE - 1] === 0 ? "false" : "true";
+    }
+
+    if (keyT instanceof IntType && keyT.signed) {
+        const val = bigEndianBufToBigint(key);
+
+        return (
+            val >= BigInt(1) << BigInt(255) ? val - (BigInt(1) << BigInt(256)) : val
+        ).toString();
+    }
+
+    return bigEndianBufToBigint(key).toString();
+}
+
+/// Maximal distance between a slot and the hash at which the contents of its mapping value or array start
+const MAX_HASH_OFFSET = BigInt(1) << BigInt(64);
+
+/**
+ * Find the variables (or parts of variables) residing in the dynamically allocated slot `slot`, by
+ * looking for the closest preceding hash in `preimages`. The hash preimage is either a mapping key
+ * followed by the slot of the mapping, or the slot of a dynamic array (or bytes/string).
+ */
+function findDynamicVariables(
+    layout: StorageLayout,
+    slot: bigint,
+    preimages: KeccakPreimages,
+    structs?: StructLayouts
+): SlotVariable[] {
+    let hash: bigint | undefined;
+
+    for (const candidate of preimages.keys()) {
+        if (
+            candidate <= slot &&
+            slot - candidate < MAX_HASH_OFFSET &&
+            (hash === undefined || candidate > hash)
+        ) {
+            hash = candidate;
+        }
+    }
+
+    if (hash === undefined) {
+        return [];
+    }
+
+    const preimage = preimages.get(hash) as Buffer;
+
+    if (preimage.length < WORD_SIZE) {
+        return [];
+    }
+
+    const baseSlot = bigEndianBufToBigint(preimage.slice(preimage.length - WORD_SIZE));
+    const bases = resolveSlot(layout, baseSlot, preimages, structs).filter((v) => v.offset === 0);
+
+    for (const base of bases) {
+        const baseT = stripPointer(base.type);
+
+        if (baseT instanceof MappingType) {
+            const key = ppMappingKey(baseT.keyType, preimage.slice(0, preimage.length - WORD_SIZE));
+
+            return findEntryVariables(
+                { name: `${base.path}[${key}]`, type: baseT.valueType, slot: hash, offset: 0 },
+                slot,
+                structs
+            );
+        }
+
+        if (preimage.length !== WORD_SIZE) {
+            continue;
+        }
+
+        if (baseT instanceof ArrayType && baseT.size === undefined) {
+            return findElementVariables(base.path, baseT.elementT, hash, undefined, slot, structs);
+        }
+
+        if (baseT instanceof BytesType || baseT instanceof StringType) {
+            return [{ path: base.path, type: base.type, offset: 0, size: WORD_SIZE }];
+        }
+    }
+
+    return [];
+}
+
+function resolveSlot(
+    layout: StorageLayout,
+    slot: bigint,
+    preimages: KeccakPreimages | undefined,
+    structs?: StructLayouts
+): SlotVariable[] {
+    const res: SlotVariable[] = [];
+
+    for (const entry of layout) {
+        try {
+            res.push(...findEntryVariables(entry, slot, structs));
+        } catch (e) {
+            continue;
+        }
+    }
+
+    if (res.length > 0 || preimages === undefined) {
+        return res;
+    }
+
+    try {
+        return findDynamicVariables(layout, slot, preimages, structs);
+    } catch (e) {
+        return [];
+    }
+}
+
+/**
+ * Find the state variables (or parts of state variables) in `layout` residing in `slot`, e.g.
+ * `allowances[0x12..][0x34..]` or `items[7].owner`. Without `preimages` only the statically allocated
+ * part of storage can be resolved. With the keccak preimages observed during a transaction (see
+ * `getKeccakPreimages`) we can also resolve the mapping values and dynamic array elements whose
+ * locations were computed in it. The struct layouts reported by the compiler (`structs`) are
+ * preferred over the layouts computed from the struct definitions.
+ */
+export function findSlotVariables(
+    layout: StorageLayout,
+    slot: bigint,
+    preimages?: KeccakPreimages,
+    structs?: StructLayouts
+): SlotVariable[] {
+    return resolveSlot(layout, slot, preimages, structs).map((v) => {
+        const typ = stripPointer(v.type);
+
+        // The first slot of a dynamic array holds its length
+        return typ instanceof ArrayType && typ.size === undefined
+            ? { ...v, path: `${v.path}.length` }
+            : v;
+    });
+}
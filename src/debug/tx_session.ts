@@ -0,0 +1,228 @@
+import { Block } from "@ethereumjs/block";
+import { Transaction, TxData } from "@ethereumjs/tx";
+import VM from "@ethereumjs/vm";
+import { RunTxResult } from "@ethereumjs/vm/dist/runTx";
+import { StateManager } from "@ethereumjs/vm/dist/state";
+import { Account, Address, BN } from "ethereumjs-util";
+import { HexString } from "../artifacts";
+import { hexStrToBuf32, makeFakeTransaction, ZERO_ADDRESS_STRING } from "../utils";
+import { SolTxDebugger, StepState } from "./sol_debugger";
+
+/**
+ * JSON description of a single transaction (and the block its in). This is the same format
+ * used in the `steps` of the `txs/*.json` files in the test samples.
+ */
+export interface TxDescription {
+    address: HexString;
+    gasLimit: HexString;
+    gasPrice: HexString;
+    input: HexString;
+    origin: HexString;
+    value: HexString;
+    blockCoinbase: HexString;
+    blockDifficulty: HexString;
+    blockGasLimit: HexString;
+    blockNumber: HexString;
+    blockTime: HexString;
+}
+
+export interface AccountDescription {
+    nonce: number;
+    balance: HexString;
+    code: HexString;
+    storage: {
+        [storageAddr: HexString]: HexString;
+    };
+}
+
+export interface InitialState {
+    accounts: {
+        [address: HexString]: AccountDescription;
+    };
+}
+
+/**
+ * JSON description of an initial state and a sequence of transactions to run on top of it.
+ */
+export interface TxSequenceDescription {
+    initialState: InitialState;
+    steps: TxDescription[];
+}
+
+/**
+ * A transaction run in a `TxSession`
+ */
+export interface SessionTx {
+    tx: Transaction;
+    block: Block;
+    /// Copy of the state right before the transaction ran
+    stateBefore: StateManager;
+    result: RunTxResult;
+}
+
+/**
+ * Create the accounts described in `initialState` in the state of `vm`
+ */
+export async function setupInitialState(vm: VM, initialState: InitialState): Promise<void> {
+    const state = vm.stateManager;
+
+    await state.checkpoint();
+
+    for (const addressStr of Object.keys(initialState.accounts)) {
+        const { nonce, balance, code, storage } = initialState.accounts[addressStr];
+
+        const address = Address.fromString(addressStr);
+        const acct = new Account();
+
+        acct.nonce = new BN(nonce.toString(16), 16);
+        acct.balance = new BN(balance.slice(2), 16);
+
+        await state.putAccount(address, acct);
+
+        for (const [key, val] of Object.entries(storage)) {
+            await state.putContractStorage(
+                address,
+                hexStrToBuf32(key.slice(2)),
+                hexStrToBuf32(val.slice(2))
+            );
+        }
+
+        await state.putContractCode(address, Buffer.from(code.slice(2), "hex"));
+    }
+
+    await state.commit();
+}
+
+/**
+ * Build the transaction described by `desc`. The nonce is the current nonce of the sender in `vm`.
+ */
+export async function makeTransaction(vm: VM, desc: TxDescription): Promise<Transaction> {
+    const senderAccount = await vm.stateManager.getAccount(Address.fromString(desc.origin));
+
+    const txData: TxData = {
+        value: desc.value,
+        gasLimit: desc.gasLimit,
+        gasPrice: desc.gasPrice,
+        data: desc.input,
+        nonce: senderAccount.nonce
+    };
+
+    if (desc.address !== ZERO_ADDRESS_STRING) {
+        txData.to = desc.address;
+    }
+
+    return makeFakeTransaction(txData, desc.origin);
+}
+
+/**
+ * Build the block in which the transaction described by `desc` runs
+ */
+export function makeBlock(desc: TxDescription): Block {
+    return Block.fromBlockData({
+        header: {
+            coinbase: desc.blockCoinbase,
+            difficulty: desc.blockDifficulty,
+            gasLimit: desc.blockGasLimit,
+            number: new BN(desc.blockNumber.slice(2), 16),
+            timestamp: new BN(desc.blockTime.slice(2), 16)
+        }
+    });
+}
+
+/**
+ * A sequence of transactions run on top of some initial state in an in-memory VM. The session keeps
+ * the state before each transaction, so that any transaction in the sequence can be debugged
+ * on demand.
+ */
+export class TxSession {
+    readonly vm: VM;
+    private _txs: SessionTx[];
+
+    private constructor(vm: VM) {
+        this.vm = vm;
+        this._txs = [];
+    }
+
+    /**
+     * Create a session with a fresh VM, whose state contains the accounts in `initialState`
+     */
+    static async create(initialState: InitialState): Promise<TxSession> {
+        const vm = new VM({ activatePrecompiles: true, allowUnlimitedContractSize: true });
+
+        await setupInitialState(vm, initialState);
+
+        return new TxSession(vm);
+    }
+
+    /**
+     * Create a session from the initial state in `desc`, and run all of the transactions in it
+     */
+    static async fromDescription(desc: TxSequenceDescription): Promise<TxSession> {
+        const session = await TxSession.create(desc.initialState);
+
+        for (const txDesc of desc.steps) {
+            await session.runTxDescription(txDesc);
+        }
+
+        return session;
+    }
+
+    /**
+     * All transactions run so far, in order
+     */
+    get txs(): readonly SessionTx[] {
+        return this._txs;
+    }
+
+    /**
+     * Run `tx` in `block` on top of the current state
+     */
+    async runTx(tx: Transaction, block: Block): Promise<RunTxResult> {
+        const stateBefore = this.vm.stateManager.copy();
+        const result = await this.vm.runTx({
+            tx,
+            block,
+            skipBalance: true,
+            skipNonce: true,
+            skipBlockGasLimitValidation: true
+        });
+
+        this._txs.push({ tx, block, stateBefore, result });
+
+        return result;
+    }
+
+    /**
+     * Build the transaction described by `desc` and run it on top of the current state
+     */
+    async runTxDescription(desc: TxDescription): Promise<RunTxResult> {
+        const tx = await makeTransaction(this.vm, desc);
+
+        return this.runTx(tx, makeBlock(desc));
+    }
+
+    private getTx(idx: number): SessionTx {
+        if (idx < 0 || idx >= this._txs.length) {
+            throw new Error(`Transaction index ${idx} out of range (0-${this._txs.length - 1})`);
+        }
+
+        return this._txs[idx];
+    }
+
+    /**
+     * Return a copy of the state right before the `idx`-th transaction. Since the copy is fresh, it
+     * can be modified (e.g. by re-running the transaction) without affecting the session.
+     */
+    getStateBefore(idx: number): StateManager {
+        return this.getTx(idx).stateBefore.copy();
+    }
+
+    /**
+     * Debug the `idx`-th transaction in the session with `solDbg`
+     */
+    async debugTx(solDbg: SolTxDebugger, idx: number): Promise<[StepState[], RunTxResult]> {
+        const { tx, block } = this.getTx(idx);
+
+        return solDbg.debugTx(tx, block, this.getStateBefore(idx));
+    }
+}
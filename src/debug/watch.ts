@@ -0,0 +1,941 @@
+import { Address, keccak256 } from "ethereumjs-util";
+import {
+    AddressType,
+    ArrayType,
+    BoolType,
+    BytesType,
+    DataLocation as SolDataLocation,
+    FixedBytesType,
+    IntType,
+    MappingType,
+    PointerType,
+    StringType,
+    StructDefinition,
+    TypeNode,
+    UserDefinedType,
+    variableDeclarationToTypeNode
+} from "solc-typed-ast";
+import { bigEndianBufToBigint, bigIntToBuf, fits, uint256 } from "..";
+import { changeToLocation } from "./abi";
+import { decodeConstants, decodeImmutables } from "./contract_state";
+import { decodeValue, st_decodeInt, stor_decodeValue } from "./decoding";
+import { getArgs, getLocals } from "./locals";
+import { ppValue } from "./pp";
+import {
+    DataLocationKind,
+    DataView,
+    FrameKind,
+    lastExternalFrame,
+    readMemory,
+    StepState,
+    StorageLocation
+} from "./sol_debugger";
+import {
+    getArrayElementLocation,
+    getContractStorageLayout,
+    getStructFieldLocation,
+    StorageLayoutEntry,
+    stripPointer,
+    StructLayouts
+} from "./storage_layout";
+
+/**
+ * A parsed watch expression. We support a subset of Solidity expressions - identifiers, number,
+ * boolean and string literals, member and index accesses, and unary and binary operators.
+ */
+export type WatchExpression =
+    | { kind: "literal"; value: bigint | boolean | string }
+    | { kind: "identifier"; name: string }
+    | { kind: "member"; base: WatchExpression; member: string }
+    | { kind: "index"; base: WatchExpression; index: WatchExpression }
+    | { kind: "unary"; operator: string; sub: WatchExpression }
+    | { kind: "binary"; operator: string; left: WatchExpression; right: WatchExpression };
+
+/**
+ * The value of an evaluated watch expression
+ */
+export interface WatchValue {
+    type: TypeNode;
+    value: any;
+}
+
+/**
+ * Intermediate result of evaluating a sub-expression. Storage references are kept as locations, so
+ * that we can index into mappings, and don't have to decode whole arrays and structs.
+ */
+type EvalResult = WatchValue | { type: TypeNode; loc: StorageLocation };
+
+/// Binary operators from the lowest to the highest precedence
+const BINARY_PRECEDENCE: string[][] = [
+    ["||"],
+    ["&&"],
+    ["==", "!="],
+    ["<", "<=", ">", ">="],
+    ["|"],
+    ["^"],
+    ["&"],
+    ["<<", ">>"],
+    ["+", "-"],
+    ["*", "/", "%"],
+    ["**"]
+];
+
+const TOKEN_RE =
+    /\s*(0x[0-9a-fA-F]+|[0-9][0-9_]*|[A-Za-z_$][A-Za-z0-9_$]*|"(?:[^"\\]|\\.)*"|\*\*|<<|>>|<=|>=|==|!=|&&|\|\||[-+*/%<>!~&|^()[\].])/y;
+
+function tokenize(str: string): string[] {
+    const res: string[] = [];
+
+    TOKEN_RE.lastIndex = 0;
+
+    while (TOKEN_RE.lastIndex < str.length) {
+        const start = TOKEN_RE.lastIndex;
+        const m = TOKEN_RE.exec(str);
+
+        if (m === null) {
+            const rest = str.slice(start);
+
+            if (rest.trim() === "") {
+                break;
+            }
+
+            const offset = start + rest.length - rest.trimStart().length;
+
+            throw new Error(`Unexpected character at offset ${offset} in ${str}`);
+        }
+
+        res.push(m[1]);
+    }
+
+    return res;
+}
+
+/**
+ * Parse the watch expression `str`. Throws an error if `str` is not a valid (supported) expression.
+ */
+export function parseWatchExpression(str: string): WatchExpression {
+    const tokens = tokenize(str);
+    let pos = 0;
+
+    const peek = (): string | undefined => tokens[pos];
+
+    const expect = (token: string): void => {
+        if (tokens[pos] !== token) {
+            throw new Error(`Expected ${token} in ${str}`);
+        }
+
+        pos++;
+    };
+
+    const parsePrimary = (): WatchExpression => {
+        const token = tokens[pos++];
+
+        if (token === undefined) {
+            throw new Error(`Unexpected end of ${str}`);
+        }
+
+        if (token === "(") {
+            const res = parseBinary(0);
+
+            expect(")");
+
+            return res;
+        }
+
+        if (/^[0-9]/.test(token)) {
+            return { kind: "literal", value: BigInt(token.replace(/_/g, "")) };
+        }
+
+        if (token === "true" || token === "false") {
+            return { kind: "literal", value: token === "true" };
+        }
+
+        if (token.startsWith('"')) {
+            return { kind: "literal", value: JSON.parse(token) };
+        }
+
+        if (/^[A-Za-z_$]/.test(token)) {
+            return { kind: "identifier", name: token };
+        }
+
+        throw new Error(`Unexpected ${token} in ${str}`);
+    };
+
+    const parsePostfix = (): WatchExpression => {
+        let res = parsePrimary();
+
+        while (peek() === "." || peek() === "[") {
+            if (tokens[pos++] === ".") {
+                const member = tokens[pos++];
+
+                if (member === undefined || !/^[A-Za-z_$]/.test(member)) {
+                    throw new Error(`Expected a member name in ${str}`);
+                }
+
+                res = { kind: "member", base: res, member };
+            } else {
+                const index = parseBinary(0);
+
+                expect("]");
+                res = { kind: "index", base: res, index };
+            }
+        }
+
+        return res;
+    };
+
+    const parseUnary = (): WatchExpression => {
+        const token = peek();
+
+        if (token === "-" || token === "!" || token === "~") {
+            pos++;
+
+            return { kind: "unary", operator: token, sub: parseUnary() };
+        }
+
+        return parsePostfix();
+    };
+
+    const parseBinary = (level: number): WatchExpression => {
+        if (level === BINARY_PRECEDENCE.length) {
+            return parseUnary();
+        }
+
+        let res = parseBinary(level + 1);
+
+        while (BINARY_PRECEDENCE[level].includes(peek() as string)) {
+            const operator = tokens[pos++];
+
+            res = { kind: "binary", operator, left: res, right: parseBinary(level + 1) };
+        }
+
+        return res;
+    };
+
+    const res = parseBinary(0);
+
+    if (pos !== tokens.length) {
+        throw new Error(`Unexpected ${tokens[pos]} in ${str}`);
+    }
+
+    return res;
+}
+
+function storageRef(type: TypeNode, slot: bigint, offset = 0): EvalResult {
+    return {
+        type,
+        loc: { kind: DataLocationKind.Storage, address: slot, endOffsetInWord: 32 - offset }
+    };
+}
+
+function entryRef(entry: StorageLayoutEntry): EvalResult {
+    return storageRef(
+        changeToLocation(entry.type, SolDataLocation.Storage),
+        entry.slot,
+        entry.offset
+    );
+}
+
+/**
+ * Get the struct layouts reported by the compiler for the contract executing at `step`
+ */
+function getStructLayouts(step: StepState): StructLayouts | undefined {
+    return step.contractInfo === undefined ? undefined : step.contractInfo.structLayouts;
+}
+
+/**
+ * Decode the value of `res`, if it's a storage reference
+ */
+function materialize(res: EvalResult, step: StepState): WatchValue | undefined {
+    if (!("loc" in res)) {
+        return res;
+    }
+
+    if (stripPointer(res.type) instanceof MappingType) {
+        return undefined;
+    }
+
+    const decoded = stor_decodeValue(res.type, res.loc, step.storage);
+
+    return decoded === undefined ? undefined : { type: res.type, value: decoded[0] };
+}
+
+/**
+ * Turn the `DataView` of a variable into an evaluation result. Storage pointers on the stack become
+ * storage references, and everything else is decoded.
+ */
+function viewToResult(view: DataView, step: StepState): EvalResult | undefined {
+    const typ = view.originalType !== undefined ? view.originalType : view.type;
+
+    if (
+        typ instanceof PointerType &&
+        typ.location === SolDataLocation.Storage &&
+        view.loc.kind === DataLocationKind.Stack
+    ) {
+        const slot = st_decodeInt(uint256, view.loc, step.evmStack);
+
+        return slot === undefined ? undefined : storageRef(typ, slot);
+    }
+
+    let value: any;
+
+    try {
+        value = decodeValue(view, step);
+    } catch (e) {
+        return undefined;
+    }
+
+    return value === undefined ? undefined : { type: typ, value };
+}
+
+/**
+ * Get the views of the arguments and locals visible at `step`
+ */
+function getFrameViews(step: StepState): Array<[string, DataView | undefined]> {
+    const frame = step.stack[step.stack.length - 1];
+
+    if (frame.kind !== FrameKind.InternalCall) {
+        return frame.arguments || [];
+    }
+
+    return [...(getArgs(step) || []), ...(getLocals(step) || [])];
+}
+
+function evalIdentifier(name: string, step: StepState): EvalResult | undefined {
+    if (step.stack.length === 0) {
+        return undefined;
+    }
+
+    // Locals shadow state variables, and later declarations shadow earlier ones
+    const views = getFrameViews(step);
+
+    for (let i = views.length - 1; i >= 0; i--) {
+        const [varName, view] = views[i];
+
+        if (varName === name) {
+            return view === undefined ? undefined : viewToResult(view, step);
+        }
+    }
+
+    if (name === "this") {
+        return { type: new AddressType(false), value: step.address };
+    }
+
+    const info = step.contractInfo;
+
+    if (info === undefined) {
+        return undefined;
+    }
+
+    const layout = getContractStorageLayout(info);
+    const entry = layout === undefined ? undefined : layout.find((e) => e.name === name);
+
+    if (entry !== undefined) {
+        return entryRef(entry);
+    }
+
+    const other = [...decodeImmutables(step), ...decodeConstants(info)].find(
+        (v) => v.name === name
+    );
+
+    return other === undefined || other.value === undefined
+        ? undefined
+        : { type: other.type, value: other.value };
+}
+
+/// Names of the global variables holding the transaction context
+const GLOBALS = new Set(["msg", "tx", "block"]);
+
+/**
+ * Evaluate a member of one of the `msg`, `tx` and `block` globals
+ */
+function evalGlobal(base: string, member: string, step: StepState): EvalResult | undefined {
+    if (step.stack.length === 0) {
+        return undefined;
+    }
+
+    const frame = lastExternalFrame(step.stack);
+    const ctx = step.txContext;
+    const address = new AddressType(false);
+
+    switch (`${base}.${member}`) {
+        case "msg.sender":
+            return { type: address, value: Address.fromString(frame.sender) };
+        case "msg.value":
+            return { type: uint256, value: frame.value };
+        case "msg.sig":
+            // Calldata shorter than a selector (e.g. in fallbacks) is right-padded with zeros
+            return { type: new FixedBytesType(4), value: readMemory(frame.msgData, 0, 4) };
+        case "msg.data":
+            return {
+                type: new PointerType(new BytesType(), SolDataLocation.CallData),
+                value: frame.msgData
+            };
+        case "tx.origin":
+            return { type: address, value: ctx.origin };
+        case "tx.gasprice":
+            return { type: uint256, value: ctx.gasPrice };
+        case "block.number":
+            return { type: uint256, value: ctx.block.number };
+        case "block.timestamp":
+            return { type: uint256, value: ctx.block.timestamp };
+        case "block.coinbase":
+            return { type: new AddressType(true), value: ctx.block.coinbase };
+        case "block.difficulty":
+            return { type: uint256, value: ctx.block.difficulty };
+        case "block.gaslimit":
+            return { type: uint256, value: ctx.block.gasLimit };
+        case "block.basefee":
+            return ctx.block.baseFee === undefined
+                ? undefined
+                : { type: uint256, value: ctx.block.baseFee };
+        case "block.chainid":
+            return { type: uint256, value: ctx.block.chainId };
+        default:
+            return undefined;
+    }
+}
+
+function evalMember(
+    expr: WatchExpression & { kind: "member" },
+    step: StepState
+): EvalResult | undefined {
+    if (expr.base.kind === "identifier" && GLOBALS.has(expr.base.name)) {
+        return evalGlobal(expr.base.name, expr.member, step);
+    }
+
+    const base = evalExpr(expr.base, step);
+
+    if (base === undefined) {
+        return undefined;
+    }
+
+    const baseT = stripPointer(base.type);
+
+    if (
+        "loc" in base &&
+        baseT instanceof UserDefinedType &&
+        baseT.definition instanceof StructDefinition
+    ) {
+        const entry = getStructFieldLocation(
+            baseT.definition,
+            expr.member,
+            base.loc.address,
+            getStructLayouts(step)
+        );
+
+        return entry === undefined ? undefined : entryRef(entry);
+    }
+
+    if ("loc" in base && baseT instanceof ArrayType && expr.member === "length") {
+        if (baseT.size !== undefined) {
+            return { type: uint256, value: baseT.size };
+        }
+
+        const len = stor_decodeValue(uint256, base.loc, step.storage);
+
+        return len === undefined ? undefined : { type: uint256, value: len[0] };
+    }
+
+    const val = materialize(base, step);
+
+    if (val === undefined || val.value === undefined) {
+        return undefined;
+    }
+
+    if (expr.member === "length") {
+        if (val.value instanceof Array || val.value instanceof Buffer) {
+            return { type: uint256, value: BigInt(val.value.length) };
+        }
+
+        if (typeof val.value === "string") {
+            return { type: uint256, value: BigInt(Buffer.byteLength(val.value, "utf-8")) };
+        }
+    }
+
+    if (baseT instanceof UserDefinedType && baseT.definition instanceof StructDefinition) {
+        const field = baseT.definition.vMembers.find((m) => m.name === expr.member);
+
+        if (field === undefined || !(expr.member in val.value)) {
+            return undefined;
+        }
+
+        let fieldT: TypeNode;
+
+        try {
+            fieldT = variableDeclarationToTypeNode(field);
+        } catch (e) {
+            return undefined;
+        }
+
+        return { type: fieldT, value: val.value[expr.member] };
+    }
+
+    return undefined;
+}
+
+/**
+ * Encode the mapping key `key` of type `keyT`, as it's hashed to compute the slot of the value
+ */
+function encodeMappingKey(keyT: TypeNode, key: any): Buffer | undefined {
+    keyT = stripPointer(keyT);
+
+    if (keyT instanceof StringType || keyT instanceof BytesType) {
+        if (typeof key === "string") {
+            return Buffer.from(key, "utf-8");
+        }
+
+        return key instanceof Buffer ? key : undefined;
+    }
+
+    if (keyT instanceof FixedBytesType) {
+        if (!(key instanceof Buffer) || key.length > 32) {
+            return undefined;
+        }
+
+        const res = Buffer.alloc(32, 0);
+
+        key.copy(res);
+
+        return res;
+    }
+
+    if (key instanceof Address) {
+        key = bigEndianBufToBigint(key.toBuffer());
+    } else if (typeof key === "boolean") {
+        key = BigInt(key ? 1 : 0);
+    }
+
+    if (typeof key !== "bigint") {
+        return undefined;
+    }
+
+    // Negative keys are encoded in two's complement
+    return bigIntToBuf(BigInt.asUintN(256, key), 32, "big");
+}
+
+function evalIndex(
+    expr: WatchExpression & { kind: "index" },
+    step: StepState
+): EvalResult | undefined {
+    const base = evalExpr(expr.base, step);
+    const indexRes = evalExpr(expr.index, step);
+    const index = indexRes === undefined ? undefined : materialize(indexRes, step);
+
+    if (base === undefined || index === undefined) {
+        return undefined;
+    }
+
+    const baseT = stripPointer(base.type);
+
+    if ("loc" in base && baseT instanceof MappingType) {
+        const key = encodeMappingKey(baseT.keyType, index.value);
+
+        if (key === undefined) {
+            return undefined;
+        }
+
+        const slot = bigEndianBufToBigint(
+            keccak256(Buffer.concat([key, bigIntToBuf(base.loc.address, 32, "big")]))
+        );
+
+        return storageRef(changeToLocation(baseT.valueType, SolDataLocation.Storage), slot);
+    }
+
+    if (typeof index.value !== "bigint" || index.value < BigInt(0)) {
+        return undefined;
+    }
+
+    if ("loc" in base && baseT instanceof ArrayType) {
+        let dataSlot = base.loc.address;
+        let len = baseT.size;
+
+        if (len === undefined) {
+            const lenRes = stor_decodeValue(uint256, base.loc, step.storage);
+
+            if (lenRes === undefined) {
+                return undefined;
+            }
+
+            len = lenRes[0] as bigint;
+            dataSlot = bigEndianBufToBigint(keccak256(bigIntToBuf(dataSlot, 32, "big")));
+        }
+
+        if (index.value >= len) {
+            return undefined;
+        }
+
+        const elementT = changeToLocation(baseT.elementT, SolDataLocation.Storage);
+
+        return entryRef(
+            getArrayElementLocation(elementT, dataSlot, index.value, getStructLayouts(step))
+        );
+    }
+
+    const val = materialize(base, step);
+
+    if (val === undefined || val.value === undefined) {
+        return undefined;
+    }
+
+    const idx = Number(index.value);
+
+    if (baseT instanceof ArrayType && val.value instanceof Array && idx < val.value.length) {
+        return { type: baseT.elementT, value: val.value[idx] };
+    }
+
+    if (val.value instanceof Buffer && idx < val.value.length) {
+        return { type: new FixedBytesType(1), value: val.value.slice(idx, idx + 1) };
+    }
+
+    return undefined;
+}
+
+/**
+ * Get the type of an integer operation on values of types `left` and `right`. Literals have the type
+ * of the other operand.
+ */
+function intResultType(
+    left: WatchExpression,
+    leftT: TypeNode,
+    right: WatchExpression,
+    rightT: TypeNode
+): IntType {
+    const baseLeftT = leftT instanceof UserDefinedType ? undefined : leftT;
+    const baseRightT = rightT instanceof UserDefinedType ? undefined : rightT;
+
+    if (left.kind !== "literal" && baseLeftT instanceof IntType) {
+        return baseLeftT;
+    }
+
+    if (right.kind !== "literal" && baseRightT instanceof IntType) {
+        return baseRightT;
+    }
+
+    return new IntType(256, true);
+}
+
+/**
+ * Compare two decoded values for equality. Addresses and bytes are compared by their raw bytes.
+ */
+function valuesEqual(a: unknown, b: unknown): boolean {
+    const rawA = a instanceof Address ? a.toBuffer() : a;
+    const rawB = b instanceof Address ? b.toBuffer() : b;
+
+    if (rawA instanceof Buffer || rawB instanceof Buffer) {
+        return rawA instanceof Buffer && rawB instanceof Buffer && rawA.equals(rawB);
+    }
+
+    return rawA === rawB;
+}
+
+function evalBinary(
+    expr: WatchExpression & { kind: "binary" },
+    step: StepState
+): EvalResult | undefined {
+    const leftRes = evalExpr(expr.left, step);
+    const rightRes = evalExpr(expr.right, step);
+    const left = leftRes === undefined ? undefined : materialize(leftRes, step);
+    const right = rightRes === undefined ? undefined : materialize(rightRes, step);
+
+    if (left === undefined || right === undefined) {
+        return undefined;
+    }
+
+    const [a, b] = [left.value, right.value];
+    const bool = new BoolType();
+
+    switch (expr.operator) {
+        case "==":
+            return { type: bool, value: valuesEqual(a, b) };
+        case "!=":
+            return { type: bool, value: !valuesEqual(a, b) };
+    }
+
+    if (typeof a === "boolean" && typeof b === "boolean") {
+        if (expr.operator === "&&") {
+            return { type: bool, value: a && b };
+        }
+
+        return expr.operator === "||" ? { type: bool, value: a || b } : undefined;
+    }
+
+    if (typeof a !== "bigint" || typeof b !== "bigint") {
+        return undefined;
+    }
+
+    switch (expr.operator) {
+        case "<":
+            return { type: bool, value: a < b };
+        case "<=":
+            return { type: bool, value: a <= b };
+        case ">":
+            return { type: bool, value: a > b };
+        case ">=":
+            return { type: bool, value: a >= b };
+    }
+
+    const typ = intResultType(expr.left, left.type, expr.right, right.type);
+    let res: bigint;
+
+    switch (expr.operator) {
+        case "+":
+            res = a + b;
+            break;
+        case "-":
+            res = a - b;
+            break;
+        case "*":
+            res = a * b;
+            break;
+        case "/":
+        case "%":
+            if (b === BigInt(0)) {
+                return undefined;
+            }
+
+            res = expr.operator === "/" ? a / b : a % b;
+            break;
+        case "**":
+            // Any base other than 0, 1 and -1 overflows the type once the exponent reaches its
+            // width, so reject these before computing a potentially huge power
+            if (b < BigInt(0) || (b >= BigInt(typ.nBits) && (a > BigInt(1) || a < BigInt(-1)))) {
+                return undefined;
+            }
+
+            res = a ** b;
+            break;
+        case "&":
+            res = a & b;
+            break;
+        case "|":
+            res = a | b;
+            break;
+        case "^":
+            res = a ^ b;
+            break;
+        case "<<":
+        case ">>":
+            if (b < BigInt(0) || b > BigInt(typ.nBits)) {
+                return undefined;
+            }
+
+            // Bits shifted out of the type are dropped
+            if (expr.operator === ">>") {
+                res = a >> b;
+            } else {
+                res = typ.signed
+                    ? BigInt.asIntN(typ.nBits, a << b)
+                    : BigInt.asUintN(typ.nBits, a << b);
+            }
+
+            break;
+        default:
+            return undefined;
+    }
+
+    // Mirror checked arithmetic - results that don't fit the type would revert
+    return fits(res, typ) ? { type: typ, value: res } : undefined;
+}
+
+function evalExpr(expr: WatchExpression, step: StepState): EvalResult | undefined {
+    switch (expr.kind) {
+        case "literal":
+            if (typeof expr.value === "bigint") {
+                return { type: uint256, value: expr.value };
+            }
+
+            return typeof expr.value === "boolean"
+                ? { type: new BoolType(), value: expr.value }
+                : {
+                      type: new PointerType(new StringType(), SolDataLocation.Memory),
+                      value: expr.value
+                  };
+        case "identifier":
+            return evalIdentifier(expr.name, step);
+        case "member":
+            return evalMember(expr, step);
+        case "index":
+            return evalIndex(expr, step);
+        case "unary": {
+            const subRes = evalExpr(expr.sub, step);
+            const sub = subRes === undefined ? undefined : materialize(subRes, step);
+
+            if (sub === undefined) {
+                return undefined;
+            }
+
+            if (expr.operator === "!") {
+                return typeof sub.value === "boolean"
+                    ? { type: sub.type, value: !sub.value }
+                    : undefined;
+            }
+
+            if (typeof sub.value !== "bigint") {
+                return undefined;
+            }
+
+            const typ = sub.type instanceof IntType ? sub.type : new IntType(256, true);
+            let res: bigint;
+
+            if (expr.operator === "-") {
+                res = -sub.value;
+            } else {
+                res = typ.signed ? ~sub.value : BigInt.asUintN(typ.nBits, ~sub.value);
+            }
+
+            return fits(res, typ)
+                ? { type: typ, value: res }
+                : { type: new IntType(256, true), value: res };
+        }
+        case "binary":
+            return evalBinary(expr, step);
+    }
+}
+
+/**
+ * Evaluate the watch expression `expr` at `step`. Identifiers are resolved to the arguments and locals
+ * of the current function, and then to the state variables, immutables and constants of the current
+ * contract. `this` and the members of `msg`, `tx` and `block` are also supported. Arithmetic follows
+ * the checked semantics of Solidity 0.8, so results that don't fit in their type are undefined.
+ * Returns undefined if the expression can't be evaluated at `step` (e.g. some identifier is not in
+ * scope).
+ */
+export function evalWatchExpression(
+    expr: WatchExpression,
+    step: StepState
+): WatchValue | undefined {
+    let res: EvalResult | undefined;
+
+    try {
+        res = evalExpr(expr, step);
+    } catch (e) {
+        return undefined;
+    }
+
+    const val = res === undefined ? undefined : materialize(res, step);
+
+    if (val === undefined || val.value === undefined) {
+        return undefined;
+    }
+
+    return val;
+}
+
+/**
+ * Evaluate the watch expression `expr` at `step` to the storage location it refers to (e.g. the slot
+ * of a mapping entry for `balances[who]`). Returns undefined if the expression can't be evaluated at
+ * `step`, or doesn't refer to a location in storage.
+ */
+export function evalWatchLocation(
+    expr: WatchExpression,
+    step: StepState
+): { type: TypeNode; loc: StorageLocation } | undefined {
+    let res: EvalResult | undefined;
+
+    try {
+        res = evalExpr(expr, step);
+    } catch (e) {
+        return undefined;
+    }
+
+    return res !== undefined && "loc" in res ? res : undefined;
+}
+
+/**
+ * A change of the value of a watch expression
+ */
+export interface WatchValueChange {
+    expression: string;
+    /// Index of the step at which the new value was observed
+    stepIdx: number;
+    type: TypeNode;
+    /// The value at the last step at which the expression could be evaluated. Undefined for the first value.
+    oldValue: any;
+    newValue: any;
+}
+
+/**
+ * A set of watch expressions, evaluated against the steps of a trace
+ */
+export class WatchList {
+    private readonly watches: Array<[string, WatchExpression]>;
+
+    constructor() {
+        this.watches = [];
+    }
+
+    /**
+     * Add the watch expression `expression`, unless it's already watched. Throws an error if it
+     * fails parsing.
+     */
+    add(expression: string): void {
+        const expr = parseWatchExpression(expression);
+
+        if (this.watches.some(([str]) => str === expression)) {
+            return;
+        }
+
+        this.watches.push([expression, expr]);
+    }
+
+    remove(expression: string): boolean {
+        const idx = this.watches.findIndex(([str]) => str === expression);
+
+        if (idx === -1) {
+            return false;
+        }
+
+        this.watches.splice(idx, 1);
+
+        return true;
+    }
+
+    get expressions(): string[] {
+        return this.watches.map(([str]) => str);
+    }
+
+    /**
+     * Evaluate all watch expressions at `step`. Values of expressions that can't be evaluated are undefined.
+     */
+    evaluate(step: StepState): Array<[string, WatchValue | undefined]> {
+        return this.watches.map(([str, expr]) => [str, evalWatchExpression(expr, step)]);
+    }
+
+    /**
+     * Evaluate all watch expressions at each step of `trace`, and report every change of their values
+     * (including the first value of each expression). Steps where an expression can't be evaluated
+     * (e.g. since it's not in scope) are skipped for that expression.
+     */
+    findChanges(trace: StepState[]): WatchValueChange[] {
+        const res: WatchValueChange[] = [];
+        const last = new Map<string, [string, any]>();
+
+        trace.forEach((step, stepIdx) => {
+            for (const [expression, val] of this.evaluate(step)) {
+                if (val === undefined) {
+                    continue;
+                }
+
+                const pp = ppValue(val.type, val.value);
+                const prev = last.get(expression);
+
+                if (prev !== undefined && prev[0] === pp) {
+                    continue;
+                }
+
+                res.push({
+                    expression,
+                    stepIdx,
+                    type: val.type,
+                    oldValue: prev === undefined ? undefined : prev[1],
+                    newValue: val.value
+                });
+
+                last.set(expression, [pp, val.value]);
+            }
+        });
+
+        return res;
+    }
+}
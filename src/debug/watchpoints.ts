@@ -0,0 +1,276 @@
+import { Address } from "ethereumjs-util";
+import { bigEndianBufToBigint, padStart } from "..";
+import { fetchStorageWord } from "./decoding";
+import { OPCODES } from "./opcodes";
+import { getStepSourceLoc, StepSourceLoc } from "./pp";
+import { StepPredicate } from "./session";
+import { ExternalFrame, lastExternalFrame, StepState } from "./sol_debugger";
+import { typeStorageSize } from "./storage_layout";
+import { evalWatchLocation, parseWatchExpression } from "./watch";
+
+const WORD_SIZE = 32;
+
+/**
+ * A watchpoint on (a part of) the storage of a contract. Values of at most 32 bytes live in a single
+ * slot, at byte `offset` counting from the lowest-order byte (as in `StorageLayoutEntry`). Larger
+ * values (e.g. structs and static arrays) span `size / 32` whole slots starting at `slot`.
+ */
+export interface StorageWatchpoint {
+    kind: "storage";
+    address: Address;
+    slot: bigint;
+    offset: number;
+    size: number;
+    /// Optional description of the watched location (e.g. `balances[who].amount`)
+    description?: string;
+}
+
+/**
+ * A watchpoint on the memory range `[start, start + length)` of an external frame
+ */
+export interface MemoryWatchpoint {
+    kind: "memory";
+    frame: ExternalFrame;
+    start: number;
+    length: number;
+    description?: string;
+}
+
+export type Watchpoint = StorageWatchpoint | MemoryWatchpoint;
+
+/**
+ * A write that changed the bytes watched by a watchpoint. `oldValue` and `newValue` only contain the
+ * watched bytes (of the written slot, for storage watchpoints spanning multiple slots).
+ */
+export interface WatchpointHit {
+    watchpoint: Watchpoint;
+    stepIdx: number;
+    loc: StepSourceLoc | undefined;
+    /// The written slot, for storage watchpoints
+    slot?: bigint;
+    oldValue: Buffer;
+    newValue: Buffer;
+}
+
+/**
+ * Resolve the Solidity expression `expression` (e.g. `balances[msg.sender].amount`) to a watchpoint on
+ * the storage it occupies in the contract executing at `step`. Mapping keys and array indices are
+ * evaluated at `step`. For mappings, dynamic arrays, `bytes` and `string` only the slot holding their
+ * length (or short contents) is watched. Throws an error if the expression can't be resolved.
+ */
+export function resolveStorageWatchpoint(expression: string, step: StepState): StorageWatchpoint {
+    const res = evalWatchLocation(parseWatchExpression(expression), step);
+
+    if (res === undefined) {
+        throw new Error(`${expression} is not a storage location`);
+    }
+
+    return {
+        kind: "storage",
+        address: step.address,
+        slot: res.loc.address,
+        offset: WORD_SIZE - res.loc.endOffsetInWord,
+        size: typeStorageSize(
+            res.type,
+            step.contractInfo === undefined ? undefined : step.contractInfo.structLayouts
+        ),
+        description: expression
+    };
+}
+
+/**
+ * Return the `[start, end)` range of bytes of a slot watched by `wp`, or undefined if the slot is
+ * not watched
+ */
+function getWatchedSlotRange(wp: StorageWatchpoint, slot: bigint): [number, number] | undefined {
+    if (wp.size <= WORD_SIZE) {
+        return slot === wp.slot
+            ? [WORD_SIZE - wp.offset - wp.size, WORD_SIZE - wp.offset]
+            : undefined;
+    }
+
+    return slot >= wp.slot && slot < wp.slot + BigInt(Math.ceil(wp.size / WORD_SIZE))
+        ? [0, WORD_SIZE]
+        : undefined;
+}
+
+function getStackArg(step: StepState, idx: number): bigint {
+    return bigEndianBufToBigint(step.evmStack[step.evmStack.length - 1 - idx]);
+}
+
+/**
+ * Return the `[start, length]` of the memory range written by the instruction executed at `step`, if
+ * it's an instruction that writes memory, other than a call
+ */
+function getMemoryWrite(step: StepState): [bigint, bigint] | undefined {
+    switch (step.op.opcode) {
+        case OPCODES.MSTORE:
+            return [getStackArg(step, 0), BigInt(WORD_SIZE)];
+        case OPCODES.MSTORE8:
+            return [getStackArg(step, 0), BigInt(1)];
+        case OPCODES.CALLDATACOPY:
+        case OPCODES.CODECOPY:
+        case OPCODES.RETURNDATACOPY:
+            return [getStackArg(step, 0), getStackArg(step, 2)];
+        case OPCODES.EXTCODECOPY:
+            return [getStackArg(step, 1), getStackArg(step, 3)];
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Return the `[start, length]` of the memory range receiving the return data of the call made at
+ * `step`, if it's a call
+ */
+function getCallReturnWrite(step: StepState): [bigint, bigint] | undefined {
+    switch (step.op.opcode) {
+        case OPCODES.CALL:
+        case OPCODES.CALLCODE:
+            return [getStackArg(step, 5), getStackArg(step, 6)];
+        case OPCODES.DELEGATECALL:
+        case OPCODES.STATICCALL:
+            return [getStackArg(step, 4), getStackArg(step, 5)];
+        default:
+            return undefined;
+    }
+}
+
+function readRange(memory: Buffer, start: number, length: number): Buffer {
+    const res = Buffer.alloc(length);
+
+    memory.copy(res, 0, Math.min(start, memory.length), Math.min(start + length, memory.length));
+
+    return res;
+}
+
+function getStorageHit(
+    wp: StorageWatchpoint,
+    trace: StepState[],
+    idx: number
+): WatchpointHit | undefined {
+    const step = trace[idx];
+
+    if (step.op.opcode !== OPCODES.SSTORE || !step.address.equals(wp.address)) {
+        return undefined;
+    }
+
+    const slot = getStackArg(step, 0);
+    const range = getWatchedSlotRange(wp, slot);
+
+    if (range === undefined) {
+        return undefined;
+    }
+
+    const oldValue = padStart(fetchStorageWord(slot, step.storage), WORD_SIZE, 0).slice(...range);
+    const newValue = padStart(step.evmStack[step.evmStack.length - 2], WORD_SIZE, 0).slice(
+        ...range
+    );
+
+    if (oldValue.equals(newValue)) {
+        return undefined;
+    }
+
+    return { watchpoint: wp, stepIdx: idx, loc: getStepSourceLoc(step), slot, oldValue, newValue };
+}
+
+function getMemoryHit(
+    wp: MemoryWatchpoint,
+    trace: StepState[],
+    idx: number
+): WatchpointHit | undefined {
+    const step = trace[idx];
+
+    if (step.stack.length === 0 || lastExternalFrame(step.stack) !== wp.frame) {
+        return undefined;
+    }
+
+    // The memory writes attributed to the step, along with the steps before and after each write
+    const writes: Array<[[bigint, bigint], StepState, StepState]> = [];
+
+    // The return data of a call is written to memory when the call returns, so the write is
+    // attributed to the first step after the call in the calling frame
+    let callIdx = idx - 1;
+
+    while (callIdx >= 0 && trace[callIdx].depth > step.depth) {
+        callIdx--;
+    }
+
+    const callWrite =
+        callIdx >= 0 && trace[callIdx].depth === step.depth
+            ? getCallReturnWrite(trace[callIdx])
+            : undefined;
+
+    if (callWrite !== undefined) {
+        writes.push([callWrite, trace[callIdx], step]);
+    }
+
+    // That step may write memory itself (e.g. an MSTORE right after a call to a precompile). The
+    // effect of its own write is visible at the next step. Writes that fail have none.
+    const ownWrite = getMemoryWrite(step);
+
+    if (ownWrite !== undefined && idx + 1 < trace.length && trace[idx + 1].depth === step.depth) {
+        writes.push([ownWrite, step, trace[idx + 1]]);
+    }
+
+    const hits = writes.filter(
+        ([[start, length]]) =>
+            length > BigInt(0) &&
+            start < BigInt(wp.start + wp.length) &&
+            start + length > BigInt(wp.start)
+    );
+
+    if (hits.length === 0) {
+        return undefined;
+    }
+
+    const oldValue = readRange(hits[0][1].memory, wp.start, wp.length);
+    const newValue = readRange(hits[hits.length - 1][2].memory, wp.start, wp.length);
+
+    if (oldValue.equals(newValue)) {
+        return undefined;
+    }
+
+    return { watchpoint: wp, stepIdx: idx, loc: getStepSourceLoc(step), oldValue, newValue };
+}
+
+/**
+ * Return the hit of the watchpoint `wp` at the step at index `idx` in `trace`, if any. A watchpoint
+ * is hit by an `SSTORE` (for storage watchpoints) or an instruction writing memory in the watched
+ * frame (for memory watchpoints) that changes the value of the watched bytes. Writes of an unchanged
+ * value are ignored, as are writes to other variables packed in the same slot. Since the return data
+ * of a call is copied to memory when the call returns, it hits at the first step after the call
+ * (together with any write made by that step).
+ */
+export function getWatchpointHit(
+    wp: Watchpoint,
+    trace: StepState[],
+    idx: number
+): WatchpointHit | undefined {
+    return wp.kind === "storage" ? getStorageHit(wp, trace, idx) : getMemoryHit(wp, trace, idx);
+}
+
+/**
+ * Return all hits of the watchpoint `wp` in `trace`.
+ */
+export function findWatchpointHits(wp: Watchpoint, trace: StepState[]): WatchpointHit[] {
+    const res: WatchpointHit[] = [];
+
+    for (let i = 0; i < trace.length; i++) {
+        const hit = getWatchpointHit(wp, trace, i);
+
+        if (hit !== undefined) {
+            res.push(hit);
+        }
+    }
+
+    return res;
+}
+
+/**
+ * Convert the watchpoint `wp` to a predicate, that can be added as a breakpoint to a `DebugSession`
+ * that is debugging `trace`.
+ */
+export function watchpointPredicate(wp: Watchpoint, trace: StepState[]): StepPredicate {
+    return (_step, idx) => getWatchpointHit(wp, trace, idx) !== undefined;
+}
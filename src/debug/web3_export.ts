@@ -0,0 +1,241 @@
+import { Transaction } from "@ethereumjs/tx";
+import { assert } from "solc-typed-ast";
+import { bigEndianBufToBigint, bigEndianBufToNumber, HexString, wordToAddress } from "..";
+import { createsContract, increasesDepth, OPCODES } from "./opcodes";
+import { RevertKind } from "./revert";
+import {
+    ExternalFrame,
+    FrameKind,
+    lastExternalFrame,
+    readMemory,
+    StepState,
+    Web3DbgState
+} from "./sol_debugger";
+
+/**
+ * A call in the nested call tree produced by geth's `callTracer`
+ */
+export interface Web3CallTrace {
+    type: string;
+    from: HexString;
+    to?: HexString;
+    value?: HexString;
+    gas: HexString;
+    gasUsed: HexString;
+    input: HexString;
+    output?: HexString;
+    error?: string;
+    revertReason?: string;
+    calls?: Web3CallTrace[];
+}
+
+function toHex(n: bigint | number): HexString {
+    return "0x" + n.toString(16);
+}
+
+function toHexBuf(buf: Buffer): HexString {
+    return "0x" + buf.toString("hex");
+}
+
+/**
+ * Convert `trace` to the `structLogs` format returned by geth's `debug_traceTransaction` (with memory
+ * enabled). As in geth, the storage is only reported on SLOAD and SSTORE steps, and contains all slots
+ * accessed so far in the current external frame.
+ */
+export function toWeb3StructLogs(trace: StepState[]): Web3DbgState[] {
+    const accessedSlots = new Map<ExternalFrame, { [slot: string]: string }>();
+
+    return trace.map((step, i) => {
+        const evmStack = step.evmStack;
+        const stackTop = evmStack.length - 1;
+        const res: Web3DbgState = {
+            pc: step.pc,
+            op: step.op.mnemonic,
+            gas: Number(step.gas),
+            gasCost: Number(step.dynamicGasCost),
+            depth: step.depth,
+            stack: evmStack.map((word) => toHex(bigEndianBufToBigint(word))),
+            memory: step.memory.toString("hex").match(/.{64}/g) || []
+        };
+
+        const opcode = step.op.opcode;
+
+        if (step.stack.length === 0 || (opcode !== OPCODES.SLOAD && opcode !== OPCODES.SSTORE)) {
+            return res;
+        }
+
+        const frame = lastExternalFrame(step.stack);
+        let slots = accessedSlots.get(frame);
+
+        if (slots === undefined) {
+            slots = {};
+            accessedSlots.set(frame, slots);
+        }
+
+        const slot = evmStack[stackTop].toString("hex");
+
+        if (opcode === OPCODES.SSTORE) {
+            slots[slot] = evmStack[stackTop - 1].toString("hex");
+        } else {
+            // The loaded value is on the top of the stack in the next step
+            const next = trace[i + 1];
+
+            if (next !== undefined && next.depth === step.depth) {
+                slots[slot] = next.evmStack[next.evmStack.length - 1].toString("hex");
+            }
+        }
+
+        res.storage = { ...slots };
+
+        return res;
+    });
+}
+
+/**
+ * Compute the outcome (gas used, output and error) of the external frame `frame`
+ */
+function getFrameOutcome(
+    frame: ExternalFrame,
+    trace: StepState[]
+): Pick<Web3CallTrace, "gasUsed" | "output" | "error" | "revertReason"> {
+    const startGas = trace[frame.startStep].gas;
+    const exitStep = trace[frame.exitStep === undefined ? trace.length - 1 : frame.exitStep];
+    const opcode = exitStep.op.opcode;
+    const gasLeft = exitStep.gas - exitStep.dynamicGasCost;
+
+    if (opcode === OPCODES.STOP || opcode === OPCODES.SELFDESTRUCT) {
+        return { gasUsed: toHex(startGas - gasLeft), output: "0x" };
+    }
+
+    if (opcode === OPCODES.RETURN || opcode === OPCODES.REVERT) {
+        const stackTop = exitStep.evmStack.length - 1;
+        const off = bigEndianBufToNumber(exitStep.evmStack[stackTop]);
+        const size = bigEndianBufToNumber(exitStep.evmStack[stackTop - 1]);
+        const output = toHexBuf(readMemory(exitStep.memory, off, size));
+
+        if (opcode === OPCODES.RETURN) {
+            return { gasUsed: toHex(startGas - gasLeft), output };
+        }
+
+        const reason = frame.revertReason;
+
+        return {
+            gasUsed: toHex(startGas - gasLeft),
+            output,
+            error: "execution reverted",
+            revertReason:
+                reason !== undefined && reason.kind === RevertKind.ErrorString
+                    ? reason.message
+                    : undefined
+        };
+    }
+
+    // Exceptional halts consume all gas
+    return {
+        gasUsed: toHex(startGas),
+        error: exitStep.op.valid ? "execution failed" : `invalid opcode: ${exitStep.op.mnemonic}`
+    };
+}
+
+/**
+ * Build the `callTracer` entry for the call or contract creation made by the step `step`
+ */
+function makeCall(step: StepState): Web3CallTrace {
+    const evmStack = step.evmStack;
+    const stackTop = evmStack.length - 1;
+    const opcode = step.op.opcode;
+    const res: Web3CallTrace = {
+        type: step.op.mnemonic,
+        from: step.address.toString(),
+        gas: toHex(bigEndianBufToBigint(evmStack[stackTop])),
+        gasUsed: "0x0",
+        input: "0x"
+    };
+
+    if (opcode === OPCODES.CREATE || opcode === OPCODES.CREATE2) {
+        const off = bigEndianBufToNumber(evmStack[stackTop - 1]);
+        const size = bigEndianBufToNumber(evmStack[stackTop - 2]);
+
+        res.value = toHex(bigEndianBufToBigint(evmStack[stackTop]));
+        res.input = toHexBuf(readMemory(step.memory, off, size));
+
+        return res;
+    }
+
+    const hasValue = opcode === OPCODES.CALL || opcode === OPCODES.CALLCODE;
+    const argStackOff = hasValue ? 3 : 2;
+    const argOff = bigEndianBufToNumber(evmStack[stackTop - argStackOff]);
+    const argSize = bigEndianBufToNumber(evmStack[stackTop - argStackOff - 1]);
+
+    res.to = wordToAddress(evmStack[stackTop - 1]).toString();
+    res.input = toHexBuf(readMemory(step.memory, argOff, argSize));
+
+    if (hasValue) {
+        res.value = toHex(bigEndianBufToBigint(evmStack[stackTop - 2]));
+    }
+
+    return res;
+}
+
+/**
+ * Convert `trace` to the nested call tree produced by geth's `callTracer`. If `tx` is given, it's used
+ * to fill in the value and gas limit of the outermost call. Note that the gas used by the outermost
+ * call only includes the gas used during execution (i.e. not the intrinsic gas of the transaction).
+ */
+export function toWeb3CallTree(trace: StepState[], tx?: Transaction): Web3CallTrace {
+    assert(trace.length > 0, `Can't build a call tree for an empty trace`);
+
+    const topFrame = lastExternalFrame(trace[0].stack[0]);
+    const root: Web3CallTrace = {
+        type: topFrame.kind === FrameKind.Creation ? "CREATE" : "CALL",
+        from: topFrame.sender,
+        to: trace[0].address.toString(),
+        gas: toHex(tx === undefined ? trace[0].gas : BigInt(tx.gasLimit.toString())),
+        gasUsed: "0x0",
+        input: toHexBuf(topFrame.msgData)
+    };
+
+    if (tx !== undefined) {
+        root.value = toHex(BigInt(tx.value.toString()));
+    }
+
+    Object.assign(root, getFrameOutcome(topFrame, trace));
+
+    const calls = new Map<ExternalFrame, Web3CallTrace>([[topFrame, root]]);
+
+    for (let i = 0; i < trace.length - 1; i++) {
+        const step = trace[i];
+
+        if (!increasesDepth(step.op) || step.stack.length === 0) {
+            continue;
+        }
+
+        const parent = calls.get(lastExternalFrame(step.stack)) as Web3CallTrace;
+        const call = makeCall(step);
+        const next = trace[i + 1];
+
+        // Calls to accounts without code (and precompiles) don't enter a new frame
+        if (next.depth > step.depth) {
+            const frame = lastExternalFrame(next.stack);
+
+            // The address of created contracts is only known once their constructor runs. For other
+            // calls the target is on the stack (and differs from the address of the new frame for
+            // DELEGATECALL and CALLCODE).
+            if (createsContract(step.op)) {
+                call.to = next.address.toString();
+            }
+
+            call.gas = toHex(next.gas);
+            Object.assign(call, getFrameOutcome(frame, trace));
+            calls.set(frame, call);
+        }
+
+        if (parent.calls === undefined) {
+            parent.calls = [];
+        }
+
+        parent.calls.push(call);
+    }
+
+    return root;
+}
@@ -1,7 +1,7 @@
 import { Transaction, TxData } from "@ethereumjs/tx";
 import { Address, BN } from "ethereumjs-util";
 import fse from "fs-extra";
-import { join } from "path";
+import { join, resolve } from "path";
 import {
     assert,
     ContractDefinition,
@@ -10,7 +10,7 @@ import {
     SourceUnit
 } from "solc-typed-ast";
 import { ABIEncoderVersion } from "solc-typed-ast/dist/types/abi";
-import { HexString, UnprefixedHexString } from "..";
+import { HexString, PartialSolcOutput, UnprefixedHexString } from "..";
 import { DataLocation, DataLocationKind, DataView, Stack, Storage } from "../debug/sol_debugger";
 
 export const ZERO_ADDRESS_STRING: HexString = "0x0000000000000000000000000000000000000000";
@@ -130,6 +130,29 @@ export function lsJson(path: string): string[] {
     return ls(path, ".json");
 }
 
+/**
+ * Load the solc standard JSON artifacts in `path` (either a single file or a directory of artifacts). Since
+ * the standard JSON output doesn't include the source contents, we try to fill them in from the files on disk
+ * (resolved relative to `sourceRoot`).
+ */
+export function loadArtifacts(path: string, sourceRoot: string): PartialSolcOutput[] {
+    const files = isDir(path) ? lsJson(path) : [path];
+    const artifacts: PartialSolcOutput[] = files.map((name) => fse.readJsonSync(name));
+
+    for (const artifact of artifacts) {
+        for (const fileName in artifact.sources) {
+            const source = artifact.sources[fileName];
+            const filePath = resolve(sourceRoot, fileName);
+
+            if (source.contents === undefined && isFile(filePath)) {
+                source.contents = fse.readFileSync(filePath, { encoding: "utf-8" });
+            }
+        }
+    }
+
+    return artifacts;
+}
+
 export function isDir(path: string): boolean {
     try {
         return fse.statSync(path).isDirectory();
@@ -151,13 +174,12 @@ export function isFile(path: string): boolean {
  */
 export function limits(typ: IntType): [bigint, bigint] {
     if (typ.signed) {
-        const min = -(BigInt(2) << BigInt(typ.nBits - 1));
-        const max = BigInt(2) << (BigInt(typ.nBits - 1) - BigInt(1));
+        const range = BigInt(1) << BigInt(typ.nBits - 1);
 
-        return [min, max];
+        return [-range, range - BigInt(1)];
     }
 
-    return [BigInt(0), (BigInt(2) << BigInt(typ.nBits)) - BigInt(1)];
+    return [BigInt(0), (BigInt(1) << BigInt(typ.nBits)) - BigInt(1)];
 }
 
 export function fits(val: bigint, typ: IntType): boolean {
@@ -0,0 +1,43 @@
+pragma solidity 0.8.13;
+
+contract Coverage {
+    uint256 public count;
+
+    function classify(uint256 x) public returns (uint256) {
+        uint256 res;
+
+        if (x < 10) {
+            res = 1;
+        } else if (x < 100) {
+            res = 2;
+        } else {
+            res = 3;
+        }
+
+        count += res;
+
+        return res;
+    }
+
+    function clamp(uint256 x) public returns (uint256) {
+        if (x > 50) {
+            x = 50;
+        }
+
+        count = x > 25 ? x - 25 : 0;
+
+        return x;
+    }
+
+    function sum(uint256 n) public returns (uint256 total) {
+        for (uint256 i = 0; i < n; i++) {
+            total += i;
+        }
+
+        count = total;
+    }
+
+    function unused() public {
+        /* ¿sin uso? */ count = 0;
+    }
+}
@@ -0,0 +1,88 @@
+pragma solidity 0.8.13;
+
+contract Wallet {
+    uint256 received;
+
+    function deposit() external payable returns (uint256) {
+        received += msg.value;
+        return received;
+    }
+
+    function fail() external pure {
+        revert("nope");
+    }
+}
+
+contract Context {
+    Wallet wallet;
+    uint256 stamp;
+    address origin;
+
+    function setup() public {
+        wallet = new Wallet();
+    }
+
+    function forward() public payable returns (uint256 total) {
+        total = wallet.deposit{value: msg.value / 2}();
+
+        try wallet.fail() {} catch {}
+
+        stamp = block.timestamp;
+        origin = tx.origin;
+    }
+
+    function delegate() public payable returns (bytes memory res) {
+        (, res) = address(this).delegatecall(abi.encodeWithSignature("forward()"));
+    }
+
+    function delegateFail() public returns (bool ok) {
+        (ok, ) = address(wallet).delegatecall(abi.encodeWithSignature("fail()"));
+    }
+
+    fallback() external payable {
+        stamp = block.number;
+    }
+
+    function makeCounters(uint256 start) public returns (uint256) {
+        uint256 count = new Counter(start).count();
+
+        count += new Child().count();
+
+        return count + new Doubler(true, start).count();
+    }
+
+    function sizes(uint256 n) public pure returns (uint256) {
+        return size(n) + size("abc") + size(n + 1);
+    }
+
+    function size(uint256 n) internal pure returns (uint256) {
+        return n;
+    }
+
+    function size(string memory s) internal pure returns (uint256) {
+        return bytes(s).length;
+    }
+
+    function precompile() public view {
+        assembly {
+            mstore(0, 5)
+            // The identity precompile copies [0, 0x20) to [0x20, 0x40), and the MSTORE right after
+            // the call writes to the offset returned by it (1)
+            mstore(staticcall(gas(), 4, 0, 0x20, 0x20, 0x20), not(0))
+        }
+    }
+}
+
+contract Counter {
+    uint256 public count;
+
+    constructor(uint256 start) {
+        count = start;
+    }
+}
+
+contract Child is Counter(3) {}
+
+contract Doubler is Counter {
+    constructor(bool twice, uint256 half) Counter(twice ? half * 2 : half) {}
+}
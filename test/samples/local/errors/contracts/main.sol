@@ -0,0 +1,31 @@
+error InsufficientBalance(uint256 available, uint256 required);
+
+contract Errors {
+    error Unauthorized(address caller, string reason);
+
+    uint public balance = 10;
+
+    function withdraw(uint amount) public {
+        if (amount > balance) {
+            revert InsufficientBalance(balance, amount);
+        }
+
+        balance -= amount;
+    }
+
+    function onlyOwner() public {
+        revert Unauthorized(msg.sender, "not the owner");
+    }
+
+    function requireBig(uint x) public {
+        require(x > 5, "x too small");
+    }
+
+    function divide(uint a, uint b) public returns (uint) {
+        return a / b;
+    }
+
+    function withdrawExternal(uint amount) public {
+        this.withdraw(amount);
+    }
+}
@@ -0,0 +1,46 @@
+pragma solidity 0.8.13;
+
+contract Token {
+    event Transfer(address indexed from, address indexed to, uint256 value);
+}
+
+contract Logger {
+    event Logged(string indexed tag, string message, uint[] nums);
+
+    function log(string memory tag, string memory message) public {
+        uint[] memory nums = new uint[](2);
+        nums[0] = 1;
+        nums[1] = 2;
+
+        emit Logged(tag, message, nums);
+    }
+}
+
+contract Events is Token {
+    struct Point {
+        uint x;
+        int y;
+    }
+
+    enum Dir {
+        Up,
+        Down
+    }
+
+    event Moved(Point p, bytes32 indexed tag, Dir indexed dir);
+    event Anon(uint indexed a, bool b) anonymous;
+
+    Logger logger;
+
+    constructor() {
+        logger = new Logger();
+    }
+
+    function emitAll() public {
+        emit Transfer(msg.sender, address(0x42), 100);
+        emit Moved(Point(1, -2), "tag", Dir.Down);
+        emit Anon(7, true);
+
+        logger.log("greeting", "hello");
+    }
+}
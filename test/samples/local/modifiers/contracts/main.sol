@@ -0,0 +1,44 @@
+pragma solidity 0.8.13;
+
+contract Base {
+    uint256 count;
+
+    modifier counted(uint256 by) {
+        uint256 before = count;
+        count += by;
+        _;
+        require(count >= before);
+    }
+
+    modifier guarded() virtual {
+        _;
+    }
+
+    // `guarded` resolves to the overriding modifier in Modifiers
+    function run(uint256 a) public counted(a + 1) guarded returns (uint256 r) {
+        uint256 b = a * 2;
+        require(b < 10, "too big");
+        r = b + 1;
+    }
+}
+
+contract Modifiers is Base {
+    modifier guarded() override {
+        bool flag = count > 0;
+        if (flag) {
+            uint256 pad = 7;
+            _;
+        }
+    }
+
+    modifier twice() {
+        _;
+        _;
+    }
+
+    function repeat(uint256 a) public twice returns (uint256 r) {
+        uint256 c = a + count;
+        require(c < 20);
+        r = c;
+    }
+}
@@ -0,0 +1,86 @@
+pragma solidity 0.8.13;
+
+contract Owned {
+    address owner;
+    uint8 version;
+    bool paused;
+    uint8 constant VERSION = 1;
+
+    constructor() {
+        owner = msg.sender;
+        version = VERSION;
+    }
+}
+
+contract Bank is Owned {
+    struct Account {
+        uint128 amount;
+        uint64 nonce;
+        address delegate;
+    }
+
+    uint256 total;
+    mapping(address => Account) balances;
+    mapping(address => mapping(address => uint256)) allowances;
+    uint256[] items;
+    uint16[3] recent;
+    Account last;
+    string name;
+    address immutable treasury;
+    uint128 immutable limit;
+
+    enum Kind {
+        Checking,
+        Savings
+    }
+
+    bytes32 constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    uint256 constant MAX_SUPPLY = 21_000_000 * 10**18;
+    uint256 constant HALF = MAX_SUPPLY / 2;
+    int8 constant NEG = -5;
+    address constant ZERO = address(0);
+    bytes4 constant SEL = bytes4(keccak256("transfer(address,uint256)"));
+    string constant NAME = "Bank";
+    uint256 constant DELAY = 2 days;
+    uint256 constant MAXU = type(uint256).max;
+    Kind constant DEFAULT_KIND = Kind.Savings;
+
+    constructor() {
+        treasury = address(this);
+        limit = 1000;
+    }
+
+    function deposit(address who, uint128 amount) public {
+        require(amount <= limit);
+        total += amount;
+        balances[who].amount += amount;
+        balances[who].nonce++;
+        last = balances[who];
+        paused = !paused;
+    }
+
+    function approve(address spender, uint256 amount) public {
+        allowances[msg.sender][spender] = amount;
+    }
+
+    function push(uint256 v) public {
+        items.push(v);
+        recent[items.length % 3] = uint16(v);
+    }
+
+    function setName(string memory n) public {
+        name = n;
+    }
+
+    function tryWithdraw(uint256 v) public {
+        try this.withdraw(v) {} catch {}
+
+        total += 1;
+    }
+
+    function withdraw(uint256 v) public {
+        total -= v;
+        balances[treasury].amount = 0;
+        revert("no funds");
+    }
+}
@@ -0,0 +1,11 @@
+pragma solidity 0.8.13;
+
+contract Overflow {
+    uint256 constant POW = 2**type(uint256).max;
+    uint256 constant SHL = 1 << type(uint256).max;
+    uint8 constant SHL8 = uint8(255) << 1;
+    uint8 constant MID = uint8(200) + uint8(100) - uint8(100);
+    int8 constant NEG_MIN = -type(int8).min;
+    uint256 constant MAXL = 2**256 - 1;
+    int16 constant SMALL = int16(-3)**3;
+}
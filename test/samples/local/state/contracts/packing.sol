@@ -0,0 +1,11 @@
+pragma solidity 0.8.13;
+
+contract Callbacks {
+    uint8 flag;
+    function(uint256) internal returns (uint256) hook;
+    function(uint256) external returns (uint256) callback;
+    uint16 count;
+    function() internal[3] hooks;
+    function() external view[2] views;
+    bool done;
+}
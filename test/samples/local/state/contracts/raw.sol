@@ -0,0 +1,7 @@
+pragma solidity 0.8.13;
+
+contract RawBytes {
+    // Neither is valid UTF-8
+    bytes2 constant LOW = hex"80ff";
+    bytes2 constant HIGH = hex"81fe";
+}
@@ -0,0 +1,131 @@
+import expect from "expect";
+import fse from "fs-extra";
+import {
+    ArtifactManager,
+    breakpointPredicate,
+    DebugSession,
+    findBreakpointHits,
+    getLineRange,
+    lsJson,
+    resolveBreakpoint,
+    SolTxDebugger,
+    StepState
+} from "../../src";
+import { TestCase, VMTestRunner } from "../utils";
+
+describe("Source-level breakpoints", () => {
+    let artifactManager: ArtifactManager;
+    let trace: StepState[];
+
+    before(async () => {
+        const artifacts = lsJson(`test/samples/local/test02/artifacts`).map((name) =>
+            fse.readJsonSync(name)
+        );
+
+        // Breakpoints need the source contents, which are not included in the standard JSON output
+        for (const artifact of artifacts) {
+            for (const fileName in artifact.sources) {
+                artifact.sources[fileName].contents = fse.readFileSync(fileName, {
+                    encoding: "utf-8"
+                });
+            }
+        }
+
+        artifactManager = new ArtifactManager(artifacts);
+
+        const solDbg = new SolTxDebugger(artifactManager);
+        const runner = new VMTestRunner();
+
+        await runner.runTestCase(
+            fse.readJsonSync(`test/samples/local/test02/txs/tx00.json`) as TestCase
+        );
+
+        // incBy4(10)
+        const tx = runner.txs[1];
+
+        [trace] = await solDbg.debugTx(tx, runner.getBlock(tx), runner.getStateBeforeTx(tx));
+    });
+
+    it("getLineRange computes line byte ranges", () => {
+        const contents = "a\nbcd\n\nλe";
+
+        expect(getLineRange(contents, 1)).toEqual([0, 1]);
+        expect(getLineRange(contents, 2)).toEqual([2, 5]);
+        expect(getLineRange(contents, 3)).toEqual([6, 6]);
+        expect(getLineRange(contents, 4)).toEqual([7, 10]);
+        expect(getLineRange(contents, 5)).toBeUndefined();
+        expect(getLineRange(contents, 0)).toBeUndefined();
+    });
+
+    it("Breakpoints resolve to instructions on their line", () => {
+        const lineBp = resolveBreakpoint({ file: "main.sol", line: 14 }, artifactManager);
+        const colBp = resolveBreakpoint(
+            { file: "main.sol", line: 14, column: 18 },
+            artifactManager
+        );
+
+        expect(lineBp.locations.length).toBeGreaterThan(0);
+        expect(colBp.locations.length).toBeGreaterThan(0);
+
+        for (const colLoc of colBp.locations) {
+            const lineLoc = lineBp.locations.find(
+                (loc) => loc.contract === colLoc.contract && loc.isCreation === colLoc.isCreation
+            );
+
+            expect(lineLoc).toBeDefined();
+
+            for (const instr of colLoc.instructions) {
+                expect(lineLoc?.instructions.has(instr)).toBeTruthy();
+            }
+        }
+
+        expect(
+            resolveBreakpoint({ file: "missing.sol", line: 14 }, artifactManager).locations
+        ).toEqual([]);
+        expect(
+            resolveBreakpoint({ file: "main.sol", line: 1000 }, artifactManager).locations
+        ).toEqual([]);
+    });
+
+    it("Breakpoints are hit once per execution of their line", () => {
+        // `x = t;` in inc() is executed once for the internal, and once for the external call
+        const incBp = resolveBreakpoint({ file: "main.sol", line: 15 }, artifactManager);
+
+        expect(findBreakpointHits(incBp, trace).length).toEqual(2);
+
+        // `inc(by);` is hit only once, even though execution returns to it after the call
+        const callBp = resolveBreakpoint({ file: "main.sol", line: 9 }, artifactManager);
+
+        expect(findBreakpointHits(callBp, trace).length).toEqual(1);
+    });
+
+    it("Conditional breakpoints see decoded arguments and locals", () => {
+        const seen: Array<{ [name: string]: any }> = [];
+        const bp = resolveBreakpoint(
+            {
+                file: "main.sol",
+                line: 15,
+                condition: (values) => {
+                    seen.push(values);
+
+                    return values.t > BigInt(30);
+                }
+            },
+            artifactManager
+        );
+
+        const hits = findBreakpointHits(bp, trace);
+
+        expect(seen).toEqual([
+            { by: BigInt(20), t: BigInt(21) },
+            { by: BigInt(20), t: BigInt(41) }
+        ]);
+        expect(hits.length).toEqual(1);
+
+        const session = new DebugSession(trace);
+
+        session.addBreakpoint(breakpointPredicate(bp, trace));
+
+        expect(session.continue()).toBe(trace[hits[0]]);
+    });
+});
@@ -0,0 +1,125 @@
+import { spawnSync } from "child_process";
+import expect from "expect";
+import { SolDbgRepl } from "../../src/cli";
+
+const sample = "test/samples/local/test02";
+
+describe("Command-line debugger", () => {
+    let repl: SolDbgRepl;
+
+    before(async () => {
+        // incBy4(10)
+        repl = await SolDbgRepl.load(`${sample}/artifacts`, `${sample}/txs/tx00.json`, 1);
+    });
+
+    it("Breakpoints, stepping and inspection", () => {
+        expect(repl.execute("break main.sol:15")).toEqual("Breakpoint 1 at main.sol:15");
+        expect(repl.execute("break main.sol:1000")).toEqual("No code at main.sol:1000");
+        expect(repl.execute("break")).toEqual("1: main.sol:15");
+
+        expect(repl.execute("c")).toMatch(/main\.sol:15: x = t;$/);
+        expect(repl.execute("bt")).toMatch(
+            /^#0 Failing\.inc at .*main\.sol:15\n#1 Failing\.incBy4 at .*main\.sol:9$/
+        );
+        expect(repl.execute("print by")).toEqual("by = 20");
+        expect(repl.execute("p t")).toEqual("t = 21");
+        expect(repl.execute("p foo")).toEqual("No variable foo in the current frame");
+
+        expect(repl.execute("watch")).toEqual("No watch expressions");
+        expect(repl.execute("watch t + 1")).toEqual("t + 1 = 22");
+        expect(repl.execute("w x * by")).toEqual("t + 1 = 22\nx * by = 420");
+        expect(repl.execute("w foo")).toEqual("t + 1 = 22\nx * by = 420\nfoo = <unavailable>");
+        expect(repl.execute("w t +")).toEqual("Unexpected end of t +");
+
+        const listing = repl.execute("list").split("\n");
+
+        expect(listing.filter((line) => line.startsWith("=>"))).toEqual(["=> 15         x = t;"]);
+
+        expect(repl.execute("memory")).toMatch(/^0x0000: [0-9a-f]{64}\n/);
+        // x = 21
+        expect(repl.execute("storage")).toMatch(/: 0x0{62}15$/m);
+        expect(repl.execute("state")).toEqual("x = 21");
+
+        expect(repl.execute("next")).toMatch(/main\.sol:16: assert\(x < 100\);$/);
+        expect(repl.execute("out")).toMatch(/main\.sol:9: inc\(by\);$/);
+
+        // Second hit is in the external call to inc()
+        expect(repl.execute("c")).toMatch(/main\.sol:15: x = t;$/);
+        expect(repl.execute("p t")).toEqual("t = 41");
+        expect(repl.execute("bt")).toMatch(/#1 Failing\.incBy4 at .*main\.sol:10$/);
+
+        expect(repl.execute("c")).toEqual("Transaction finished");
+
+        expect(repl.execute("foo")).toMatch(/^Unknown command foo/);
+        expect(repl.quit).toBeFalsy();
+        expect(repl.execute("quit")).toEqual("");
+        expect(repl.quit).toBeTruthy();
+    });
+
+    it("Watchpoints", async () => {
+        // incBy4(10)
+        const wpRepl = await SolDbgRepl.load(`${sample}/artifacts`, `${sample}/txs/tx00.json`, 1);
+
+        expect(wpRepl.execute("wp")).toEqual("No watchpoints");
+        expect(wpRepl.execute("wp x")).toEqual("Watchpoint 1: x");
+        expect(wpRepl.execute("wp foo")).toEqual("foo is not a storage location");
+        expect(wpRepl.execute("wp memory 0x80")).toEqual(
+            "Usage: watchpoint memory <offset> <length>"
+        );
+        expect(wpRepl.execute("wp memory 0x80 99999999999999999999")).toEqual(
+            "Usage: watchpoint memory <offset> <length>"
+        );
+        expect(wpRepl.execute("watchpoint memory 0x80 32")).toEqual(
+            "Watchpoint 2: memory[0x80:0xa0]"
+        );
+        expect(wpRepl.execute("wp")).toEqual("1: x\n2: memory[0x80:0xa0]");
+
+        const word = (n: number): string => `0x${n.toString(16).padStart(64, "0")}`;
+
+        expect(wpRepl.execute("c").split("\n")).toEqual([
+            "Watchpoint 1: x",
+            `  old: ${word(1)}`,
+            `  new: ${word(21)}`,
+            expect.stringMatching(/main\.sol:14: uint t = x = x \+ by;$/)
+        ]);
+
+        // ABI-encoding the selector of inc() for the external call
+        expect(wpRepl.execute("c").split("\n")).toEqual([
+            "Watchpoint 2: memory[0x80:0xa0]",
+            `  old: ${word(0)}`,
+            `  new: 0x812600df${"0".repeat(56)}`,
+            expect.stringMatching(/main\.sol:10: return this\.inc\(by\);$/)
+        ]);
+
+        expect(wpRepl.execute("c")).toMatch(
+            new RegExp(`^Watchpoint 1: x\n.*\n  new: ${word(41)}\n`)
+        );
+
+        // The return data of the external call is copied to memory after the call returns
+        expect(wpRepl.execute("c")).toMatch(
+            new RegExp(`^Watchpoint 2: memory\\[0x80:0xa0\\]\n.*\n  new: ${word(41)}\n`)
+        );
+
+        expect(wpRepl.execute("c")).toEqual("Transaction finished");
+    });
+
+    it("Invalid transaction indices print the usage", () => {
+        for (const txIdx of ["1.5", "-1"]) {
+            const res = spawnSync(
+                process.execPath,
+                [
+                    "-r",
+                    "ts-node/register",
+                    "src/cli/main.ts",
+                    `${sample}/artifacts`,
+                    `${sample}/txs/tx00.json`,
+                    txIdx
+                ],
+                { encoding: "utf-8", env: { ...process.env, TS_NODE_TRANSPILE_ONLY: "1" } }
+            );
+
+            expect(res.status).toEqual(1);
+            expect(res.stderr).toMatch(/^Usage: sol-dbg/);
+        }
+    });
+});
@@ -0,0 +1,72 @@
+import expect from "expect";
+import fse from "fs-extra";
+import { ArtifactManager, CompactTrace, lsJson, SolTxDebugger, StepState } from "../../src";
+import { TestCase, VMTestRunner } from "../utils";
+
+const samples = ["test/samples/local/test02", "test/samples/local/events"];
+
+function lowLevelState(step: StepState): [string[], string, Array<[string, string]>] {
+    return [
+        step.evmStack.map((word) => word.toString("hex")),
+        step.memory.toString("hex"),
+        [...step.storage.entries()].map(([k, v]) => [k.toString(16), v.toString("hex")])
+    ];
+}
+
+describe("Compact traces", () => {
+    for (const sample of samples) {
+        describe(sample, () => {
+            let solDbg: SolTxDebugger;
+            let runner: VMTestRunner;
+
+            before(async () => {
+                const artifacts = lsJson(`${sample}/artifacts`).map((name) =>
+                    fse.readJsonSync(name)
+                );
+
+                solDbg = new SolTxDebugger(new ArtifactManager(artifacts));
+                runner = new VMTestRunner();
+
+                await runner.runTestCase(fse.readJsonSync(`${sample}/txs/tx00.json`) as TestCase);
+            });
+
+            it("Reconstructed steps match the full trace", async () => {
+                for (const tx of runner.txs) {
+                    if (tx.to === undefined) {
+                        continue;
+                    }
+
+                    const block = runner.getBlock(tx);
+                    const [trace] = await solDbg.debugTx(
+                        tx,
+                        block,
+                        runner.getStateBeforeTx(tx).copy()
+                    );
+                    const [compact] = await CompactTrace.fromTx(
+                        solDbg,
+                        tx,
+                        block,
+                        runner.getStateBeforeTx(tx).copy(),
+                        7
+                    );
+
+                    expect(compact.length).toEqual(trace.length);
+
+                    // In order
+                    compact.toArray().forEach((step, i) => {
+                        expect(step.pc).toEqual(trace[i].pc);
+                        expect(step.stack.map((frame) => frame.startStep)).toEqual(
+                            trace[i].stack.map((frame) => frame.startStep)
+                        );
+                        expect(lowLevelState(step)).toEqual(lowLevelState(trace[i]));
+                    });
+
+                    // Backwards and out of order
+                    for (let i = trace.length - 1; i >= 0; i -= 3) {
+                        expect(lowLevelState(compact.get(i))).toEqual(lowLevelState(trace[i]));
+                    }
+                }
+            });
+        });
+    }
+});
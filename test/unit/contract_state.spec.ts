@@ -0,0 +1,169 @@
+import expect from "expect";
+import fse from "fs-extra";
+import {
+    ArtifactManager,
+    ContractInfo,
+    DataLocationKind,
+    decodeConstants,
+    decodeContractState,
+    decodeImmutables,
+    DecodedStateVariable,
+    getImmutableViews,
+    getKeccakPreimages,
+    KeccakPreimages,
+    lsJson,
+    ppValue,
+    SolTxDebugger,
+    StepState,
+    TxSession
+} from "../../src";
+
+const sample = "test/samples/local/state";
+
+describe("Decoding contract state", () => {
+    let artifactManager: ArtifactManager;
+    let solDbg: SolTxDebugger;
+    let session: TxSession;
+
+    /**
+     * Debug all transactions up to `txIdx`, and return the last step of the last one, along with the
+     * keccak preimages computed in all of them.
+     */
+    const runUpTo = async (txIdx: number): Promise<[StepState, KeccakPreimages]> => {
+        const preimages: KeccakPreimages = new Map();
+        let lastStep: StepState | undefined;
+
+        for (let i = 1; i <= txIdx; i++) {
+            const [trace] = await session.debugTx(solDbg, i);
+
+            for (const [hash, preimage] of getKeccakPreimages(trace)) {
+                preimages.set(hash, preimage);
+            }
+
+            lastStep = trace[trace.length - 1];
+        }
+
+        return [lastStep as StepState, preimages];
+    };
+
+    before(async () => {
+        const artifacts = lsJson(`${sample}/artifacts`).map((name) => fse.readJsonSync(name));
+
+        artifactManager = new ArtifactManager(artifacts);
+        solDbg = new SolTxDebugger(artifactManager);
+        session = await TxSession.fromDescription(fse.readJsonSync(`${sample}/txs/tx00.json`));
+    });
+
+    it("All state variables are decoded", async () => {
+        // After setName("bank")
+        const [step, preimages] = await runUpTo(5);
+        const vars = decodeContractState(
+            step.contractInfo as ContractInfo,
+            step.storage,
+            preimages
+        );
+
+        expect(vars).toBeDefined();
+        expect((vars || []).map(({ name, type, value }) => [name, ppValue(type, value)])).toEqual([
+            ["owner", "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa0"],
+            ["version", "1"],
+            ["paused", "true"],
+            ["total", "100"],
+            [
+                "balances",
+                "{0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa2: {amount: 100, nonce: 1, delegate: 0x0000000000000000000000000000000000000000}}"
+            ],
+            [
+                "allowances",
+                "{0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa0: {0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa2: 7}}"
+            ],
+            ["items", "[5, 6]"],
+            ["recent", "[0, 5, 6]"],
+            [
+                "last",
+                "{amount: 100, nonce: 1, delegate: 0x0000000000000000000000000000000000000000}"
+            ],
+            ["name", `"bank"`]
+        ]);
+    });
+
+    it("Mappings only include the keys observed in the trace", async () => {
+        const [trace] = await session.debugTx(solDbg, 5);
+        const step = trace[trace.length - 1];
+        const vars = decodeContractState(step.contractInfo as ContractInfo, step.storage) || [];
+        const balances = vars.find((v) => v.name === "balances");
+
+        expect(balances).toBeDefined();
+        expect((balances as DecodedStateVariable).value.size).toEqual(0);
+
+        const total = vars.find((v) => v.name === "total") as DecodedStateVariable;
+
+        expect(total.value).toEqual(BigInt(100));
+    });
+
+    it("Immutables are decoded from the deployed bytecode", async () => {
+        // deposit(0xAaAa...Aa2, 100)
+        const [trace] = await session.debugTx(solDbg, 1);
+        const step = trace[trace.length - 1];
+        const views = getImmutableViews(step.contractInfo as ContractInfo);
+
+        expect(views.map(([name, view]) => [name, view && view.loc.kind])).toEqual([
+            ["treasury", DataLocationKind.Code],
+            ["limit", DataLocationKind.Code]
+        ]);
+
+        expect(
+            decodeImmutables(step).map(({ name, type, value }) => [name, ppValue(type, value)])
+        ).toEqual([
+            ["treasury", "0xf084a83954ce917799e0b4dbd03934a2ea65888c"],
+            ["limit", "1000"]
+        ]);
+    });
+
+    it("Constants are evaluated from their initializers", async () => {
+        const [trace] = await session.debugTx(solDbg, 1);
+        const step = trace[trace.length - 1];
+
+        expect(
+            decodeConstants(step.contractInfo as ContractInfo).map(({ name, type, value }) => [
+                name,
+                ppValue(type, value)
+            ])
+        ).toEqual([
+            ["VERSION", "1"],
+            ["ADMIN_ROLE", "0xa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775"],
+            ["MAX_SUPPLY", "21000000000000000000000000"],
+            ["HALF", "10500000000000000000000000"],
+            ["NEG", "-5"],
+            ["ZERO", "0x0000000000000000000000000000000000000000"],
+            ["SEL", "0xa9059cbb"],
+            ["NAME", `"Bank"`],
+            ["DELAY", "172800"],
+            [
+                "MAXU",
+                "115792089237316195423570985008687907853269984665640564039457584007913129639935"
+            ],
+            ["DEFAULT_KIND", "Kind.Savings"]
+        ]);
+    });
+
+    it("Constants follow the overflow rules of their types", () => {
+        const info = artifactManager
+            .contracts()
+            .find((contract) => contract.contractName === "Overflow") as ContractInfo;
+
+        expect(decodeConstants(info).map(({ name, value }) => [name, value])).toEqual([
+            // The exponent and shift amount exceed the width of uint256
+            ["POW", undefined],
+            ["SHL", undefined],
+            // Bits shifted out are dropped
+            ["SHL8", BigInt(254)],
+            // The intermediate 200 + 100 overflows
+            ["MID", undefined],
+            ["NEG_MIN", undefined],
+            // Literal expressions have arbitrary precision
+            ["MAXL", (BigInt(1) << BigInt(256)) - BigInt(1)],
+            ["SMALL", BigInt(-27)]
+        ]);
+    });
+});
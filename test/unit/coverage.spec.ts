@@ -0,0 +1,131 @@
+import expect from "expect";
+import fse from "fs-extra";
+import {
+    ArtifactManager,
+    CoverageCollector,
+    FileCoverage,
+    loadArtifacts,
+    SolTxDebugger,
+    TxSession
+} from "../../src";
+
+const sample = "test/samples/local/branches";
+const fileName = `${sample}/contracts/main.sol`;
+
+describe("Coverage collection", () => {
+    let collector: CoverageCollector;
+    let coverage: FileCoverage;
+
+    before(async () => {
+        const artifactManager = new ArtifactManager(loadArtifacts(`${sample}/artifacts`, "."));
+        const solDbg = new SolTxDebugger(artifactManager);
+        const session = await TxSession.fromDescription(
+            fse.readJsonSync(`${sample}/txs/tx00.json`)
+        );
+
+        collector = new CoverageCollector(artifactManager);
+
+        // classify(5), classify(50), clamp(7) and sum(3)
+        for (let i = 1; i < session.txs.length; i++) {
+            const [trace] = await session.debugTx(solDbg, i);
+
+            collector.addTrace(trace);
+        }
+
+        const files = collector.getCoverage();
+
+        expect(files.map((file) => file.file.name)).toEqual([fileName]);
+
+        coverage = files[0];
+    });
+
+    it("Statement counts", () => {
+        expect(
+            coverage.statements.map((stmt) => [
+                stmt.loc.start.line,
+                stmt.node.constructor.name,
+                stmt.count
+            ])
+        ).toEqual([
+            [7, "VariableDeclarationStatement", 2],
+            [9, "IfStatement", 2],
+            [10, "ExpressionStatement", 1],
+            [11, "IfStatement", 1],
+            [12, "ExpressionStatement", 1],
+            [14, "ExpressionStatement", 0],
+            [17, "ExpressionStatement", 2],
+            [19, "Return", 2],
+            [23, "IfStatement", 1],
+            [24, "ExpressionStatement", 0],
+            [27, "ExpressionStatement", 1],
+            [29, "Return", 1],
+            [33, "ForStatement", 1],
+            [33, "VariableDeclarationStatement", 1],
+            [33, "ExpressionStatement", 3],
+            [34, "ExpressionStatement", 3],
+            [37, "ExpressionStatement", 1],
+            [41, "ExpressionStatement", 0]
+        ]);
+    });
+
+    it("Function counts", () => {
+        expect(coverage.functions.map((fun) => [fun.name, fun.count])).toEqual([
+            ["Coverage.classify", 2],
+            ["Coverage.clamp", 1],
+            ["Coverage.sum", 1],
+            ["Coverage.unused", 0]
+        ]);
+    });
+
+    it("Branch counts", () => {
+        expect(
+            coverage.branches.map((branch) => [branch.loc.start.line, branch.type, branch.counts])
+        ).toEqual([
+            [9, "if", [1, 1]],
+            [11, "if", [1, 0]],
+            [23, "if", [0, 1]],
+            [27, "cond-expr", [0, 1]]
+        ]);
+    });
+
+    it("LCOV output", () => {
+        const lines = collector.toLcov().split("\n");
+
+        expect(lines.slice(0, 2)).toEqual(["TN:", `SF:${fileName}`]);
+        expect(lines).toContain("FN:40,Coverage.unused");
+        expect(lines).toContain("FNDA:2,Coverage.classify");
+        expect(lines).toContain("FNDA:0,Coverage.unused");
+        expect(lines).toContain("FNH:3");
+        expect(lines).toContain("BRDA:11,1,1,0");
+        expect(lines).toContain("BRF:8");
+        expect(lines).toContain("BRH:5");
+        expect(lines).toContain("DA:14,0");
+        expect(lines).toContain("DA:34,3");
+        expect(lines).toContain("LF:16");
+        expect(lines).toContain("LH:13");
+        expect(lines[lines.length - 2]).toEqual("end_of_record");
+    });
+
+    it("Istanbul output", () => {
+        const istanbul = collector.toIstanbul();
+
+        expect(Object.keys(istanbul)).toEqual([fileName]);
+
+        const fileCov = istanbul[fileName];
+
+        expect(Object.keys(fileCov.statementMap).length).toEqual(coverage.statements.length);
+        expect(fileCov.s["7"]).toEqual(2);
+        expect(fileCov.statementMap["7"].start).toEqual({ line: 19, column: 8 });
+        // Columns count characters, and the comment before `count = 0` has a 2-byte character
+        expect(fileCov.statementMap["17"]).toEqual({
+            start: { line: 41, column: 24 },
+            end: { line: 41, column: 33 }
+        });
+        expect(fileCov.fnMap["3"].name).toEqual("Coverage.unused");
+        expect(fileCov.f["3"]).toEqual(0);
+        expect(fileCov.branchMap["2"].type).toEqual("if");
+        // if without an else - the false branch location is the whole statement
+        expect(fileCov.branchMap["2"].locations[1]).toEqual(fileCov.branchMap["2"].loc);
+        expect(fileCov.b["3"]).toEqual([0, 1]);
+    });
+});
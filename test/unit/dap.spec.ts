@@ -0,0 +1,281 @@
+import expect from "expect";
+import { resolve } from "path";
+import { PassThrough } from "stream";
+import {
+    encodeMessage,
+    Event,
+    MessageDecoder,
+    ProtocolMessage,
+    Response,
+    serveDebugAdapter
+} from "../../src/dap";
+
+/**
+ * Minimal scripted DAP client, talking to a `SolDebugAdapter` over in-memory streams.
+ */
+class TestClient {
+    private input = new PassThrough();
+    private output = new PassThrough();
+    private decoder = new MessageDecoder();
+    private seq = 1;
+    private messages: ProtocolMessage[] = [];
+    private waiters: Array<() => void> = [];
+    readonly done: Promise<void>;
+
+    constructor() {
+        this.done = serveDebugAdapter(this.input, this.output);
+
+        this.output.on("data", (chunk: Buffer) => {
+            this.messages.push(...this.decoder.push(chunk));
+            this.waiters.forEach((waiter) => waiter());
+        });
+    }
+
+    private async waitFor<T extends ProtocolMessage>(
+        pred: (msg: ProtocolMessage) => boolean
+    ): Promise<T> {
+        while (true) {
+            const idx = this.messages.findIndex(pred);
+
+            if (idx !== -1) {
+                return this.messages.splice(idx, 1)[0] as T;
+            }
+
+            await new Promise<void>((res) => this.waiters.push(res));
+        }
+    }
+
+    async request(command: string, args?: any): Promise<Response> {
+        const seq = this.seq++;
+
+        this.input.write(
+            encodeMessage({ seq, type: "request", command, arguments: args } as ProtocolMessage)
+        );
+
+        return this.waitFor<Response>(
+            (msg) => msg.type === "response" && (msg as Response).request_seq === seq
+        );
+    }
+
+    async event(name: string): Promise<Event> {
+        return this.waitFor<Event>((msg) => msg.type === "event" && (msg as Event).event === name);
+    }
+}
+
+const sample = "test/samples/local/test02";
+const mainSol = resolve(`${sample}/contracts/main.sol`);
+
+describe("Debug Adapter Protocol", () => {
+    it("MessageDecoder handles split and merged messages", () => {
+        const decoder = new MessageDecoder();
+        const msg1 = encodeMessage({ seq: 1, type: "request", command: "a" } as ProtocolMessage);
+        const msg2 = encodeMessage({ seq: 2, type: "request", command: "λ" } as ProtocolMessage);
+        const all = Buffer.concat([msg1, msg2]);
+
+        expect(decoder.push(all.slice(0, 10))).toEqual([]);
+        expect(decoder.push(all.slice(10, msg1.length + 3))).toEqual([
+            { seq: 1, type: "request", command: "a" }
+        ]);
+        expect(decoder.push(all.slice(msg1.length + 3))).toEqual([
+            { seq: 2, type: "request", command: "λ" }
+        ]);
+    });
+
+    it("Scripted debugging session", async () => {
+        const client = new TestClient();
+
+        const init = await client.request("initialize", { adapterID: "sol-dbg" });
+
+        expect(init.success).toBeTruthy();
+        expect(init.body.supportsConfigurationDoneRequest).toBeTruthy();
+
+        // incBy4(10)
+        const launch = await client.request("launch", {
+            artifacts: `${sample}/artifacts`,
+            txs: `${sample}/txs/tx00.json`,
+            txIdx: 1
+        });
+
+        expect(launch.success).toBeTruthy();
+
+        await client.event("initialized");
+
+        // Break on `x = t;` in inc()
+        const bps = await client.request("setBreakpoints", {
+            source: { path: mainSol },
+            breakpoints: [{ line: 15 }, { line: 1000 }]
+        });
+
+        expect(bps.body.breakpoints.map((bp: any) => bp.verified)).toEqual([true, false]);
+
+        await client.request("configurationDone");
+
+        let stopped = await client.event("stopped");
+
+        expect(stopped.body.reason).toEqual("breakpoint");
+
+        const threads = await client.request("threads");
+
+        expect(threads.body.threads.length).toEqual(1);
+
+        let trace = await client.request("stackTrace", { threadId: 1 });
+        let frames = trace.body.stackFrames;
+
+        expect(frames.map((frame: any) => [frame.name, frame.line])).toEqual([
+            ["Failing.inc", 15],
+            ["Failing.incBy4", 9]
+        ]);
+        expect(frames[0].source.path).toEqual(mainSol);
+
+        const scopes = await client.request("scopes", { frameId: frames[0].id });
+        const vars = await client.request("variables", {
+            variablesReference: scopes.body.scopes[0].variablesReference
+        });
+
+        expect(vars.body.variables.map((v: any) => [v.name, v.value])).toEqual([
+            ["by", "20"],
+            ["t", "21"]
+        ]);
+
+        expect(scopes.body.scopes.map((scope: any) => scope.name)).toEqual([
+            "Locals",
+            "Contract State"
+        ]);
+
+        const state = await client.request("variables", {
+            variablesReference: scopes.body.scopes[1].variablesReference
+        });
+
+        expect(state.body.variables.map((v: any) => [v.name, v.value])).toEqual([["x", "21"]]);
+
+        const evaluated = await client.request("evaluate", {
+            expression: "t + by",
+            frameId: frames[0].id
+        });
+
+        expect(evaluated.success).toEqual(true);
+        expect(evaluated.body.result).toEqual("41");
+
+        const unavailable = await client.request("evaluate", { expression: "foo" });
+
+        expect(unavailable.success).toEqual(false);
+
+        // The caller's locals are visible as well
+        const callerScopes = await client.request("scopes", { frameId: frames[1].id });
+        const callerVars = await client.request("variables", {
+            variablesReference: callerScopes.body.scopes[0].variablesReference
+        });
+
+        expect(callerVars.body.variables.map((v: any) => [v.name, v.value])).toEqual([
+            ["by", "20"],
+            ["res", "0"]
+        ]);
+
+        await client.request("next");
+        stopped = await client.event("stopped");
+        expect(stopped.body.reason).toEqual("step");
+
+        trace = await client.request("stackTrace", { threadId: 1 });
+        expect(trace.body.stackFrames[0].line).toEqual(16);
+
+        await client.request("stepOut");
+        await client.event("stopped");
+
+        trace = await client.request("stackTrace", { threadId: 1 });
+        frames = trace.body.stackFrames;
+        expect(frames.map((frame: any) => [frame.name, frame.line])).toEqual([
+            ["Failing.incBy4", 9]
+        ]);
+
+        // Second hit is in the external call to inc()
+        await client.request("continue");
+        stopped = await client.event("stopped");
+        expect(stopped.body.reason).toEqual("breakpoint");
+
+        trace = await client.request("stackTrace", { threadId: 1 });
+        frames = trace.body.stackFrames;
+        expect(frames.map((frame: any) => [frame.name, frame.line])).toEqual([
+            ["Failing.inc", 15],
+            ["Failing.incBy4", 10]
+        ]);
+
+        await client.request("continue");
+        await client.event("terminated");
+
+        const unknown = await client.request("foo");
+
+        expect(unknown.success).toBeFalsy();
+
+        await client.request("disconnect");
+        await client.done;
+    });
+
+    it("Data breakpoints", async () => {
+        const client = new TestClient();
+
+        const init = await client.request("initialize", { adapterID: "sol-dbg" });
+
+        expect(init.body.supportsDataBreakpoints).toBeTruthy();
+
+        // incBy4(10)
+        await client.request("launch", {
+            artifacts: `${sample}/artifacts`,
+            txs: `${sample}/txs/tx00.json`,
+            txIdx: 1,
+            stopOnEntry: true
+        });
+        await client.event("initialized");
+        await client.request("configurationDone");
+
+        let stopped = await client.event("stopped");
+
+        expect(stopped.body.reason).toEqual("entry");
+
+        let trace = await client.request("stackTrace", { threadId: 1 });
+        const info = await client.request("dataBreakpointInfo", {
+            name: "x",
+            frameId: trace.body.stackFrames[0].id
+        });
+
+        expect(info.body.dataId).toBeDefined();
+        expect(info.body.accessTypes).toEqual(["write"]);
+
+        const unknown = await client.request("dataBreakpointInfo", { name: "foo" });
+
+        expect(unknown.body.dataId).toBeNull();
+
+        const bps = await client.request("setDataBreakpoints", {
+            breakpoints: [{ dataId: info.body.dataId }, { dataId: "foo" }]
+        });
+
+        expect(bps.body.breakpoints.map((bp: any) => bp.verified)).toEqual([true, false]);
+
+        // x = 1 + 20 in the internal call to inc()
+        await client.request("continue");
+        stopped = await client.event("stopped");
+        expect(stopped.body.reason).toEqual("data breakpoint");
+
+        trace = await client.request("stackTrace", { threadId: 1 });
+        expect(trace.body.stackFrames.map((frame: any) => [frame.name, frame.line])).toEqual([
+            ["Failing.inc", 14],
+            ["Failing.incBy4", 9]
+        ]);
+
+        // x = 21 + 20 in the external call to inc(). `x = t` doesn't change x, and doesn't stop.
+        await client.request("continue");
+        stopped = await client.event("stopped");
+        expect(stopped.body.reason).toEqual("data breakpoint");
+
+        trace = await client.request("stackTrace", { threadId: 1 });
+        expect(trace.body.stackFrames.map((frame: any) => [frame.name, frame.line])).toEqual([
+            ["Failing.inc", 14],
+            ["Failing.incBy4", 10]
+        ]);
+
+        await client.request("continue");
+        await client.event("terminated");
+
+        await client.request("disconnect");
+        await client.done;
+    });
+});
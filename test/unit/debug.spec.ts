@@ -34,13 +34,13 @@ export function findLastNonInternalStepBeforeRevert(trace: StepState[]): StepSta
 
     const stack = trace[i].stack;
 
-    for (let i = stack.length - 1; i >= 0; i--) {
-        if (stack[i].callee instanceof FunctionDefinition) {
-            if (i === stack.length - 1) {
+    for (let j = stack.length - 1; j >= 0; j--) {
+        if (stack[j].callee instanceof FunctionDefinition) {
+            if (j === stack.length - 1) {
                 return trace[i];
             }
 
-            return trace[stack[i + 1].startStep - 1];
+            return trace[stack[j + 1].startStep - 1];
         }
     }
 
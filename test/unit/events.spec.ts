@@ -0,0 +1,78 @@
+import { Address, keccak256 } from "ethereumjs-util";
+import expect from "expect";
+import fse from "fs-extra";
+import { ArtifactManager, DecodedEvent, lsJson, SolTxDebugger, StepState } from "../../src";
+import { TestCase, VMTestRunner } from "../utils";
+
+const SENDER = Address.fromString("0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa0");
+
+function describeEvent(event: DecodedEvent): [string, Array<[string, any]>] {
+    return [event.definition.name, event.args];
+}
+
+describe("Event decoding", () => {
+    let solDbg: SolTxDebugger;
+    let runner: VMTestRunner;
+
+    before(async () => {
+        const artifacts = lsJson(`test/samples/local/events/artifacts`).map((name) =>
+            fse.readJsonSync(name)
+        );
+
+        solDbg = new SolTxDebugger(new ArtifactManager(artifacts));
+        runner = new VMTestRunner();
+
+        await runner.runTestCase(
+            fse.readJsonSync(`test/samples/local/events/txs/tx00.json`) as TestCase
+        );
+    });
+
+    it("Events are decoded against their definitions", async () => {
+        const tx = runner.txs[1];
+        const [trace] = await solDbg.debugTx(tx, runner.getBlock(tx), runner.getStateBeforeTx(tx));
+
+        const logSteps = trace.filter((step: StepState) => step.emittedEvent !== undefined);
+
+        expect(logSteps.length).toEqual(4);
+
+        for (const step of logSteps) {
+            expect(step.decodedEvent).toBeDefined();
+        }
+
+        const events = logSteps.map((step) => describeEvent(step.decodedEvent as DecodedEvent));
+
+        expect(events).toEqual([
+            [
+                "Transfer",
+                [
+                    ["from", SENDER],
+                    ["to", Address.fromString("0x0000000000000000000000000000000000000042")],
+                    ["value", BigInt(100)]
+                ]
+            ],
+            [
+                "Moved",
+                [
+                    ["p", { x: BigInt(1), y: BigInt(-2) }],
+                    ["tag", Buffer.from("tag".padEnd(32, "\0"), "utf-8")],
+                    ["dir", BigInt(1)]
+                ]
+            ],
+            [
+                "Anon",
+                [
+                    ["a", BigInt(7)],
+                    ["b", true]
+                ]
+            ],
+            [
+                "Logged",
+                [
+                    ["tag", keccak256(Buffer.from("greeting", "utf-8"))],
+                    ["message", "hello"],
+                    ["nums", [BigInt(1), BigInt(2)]]
+                ]
+            ]
+        ]);
+    });
+});
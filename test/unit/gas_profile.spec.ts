@@ -0,0 +1,140 @@
+import expect from "expect";
+import fse from "fs-extra";
+import { FunctionDefinition } from "solc-typed-ast";
+import {
+    ArtifactManager,
+    FunctionGas,
+    GasProfile,
+    getStepGasCosts,
+    loadArtifacts,
+    ppFoldedStacks,
+    ppLineGasReport,
+    profileGas,
+    SolTxDebugger,
+    StepState,
+    TxSession
+} from "../../src";
+
+const sample = "test/samples/local/state";
+
+describe("Gas profiling", () => {
+    let trace: StepState[];
+    let profile: GasProfile;
+
+    before(async () => {
+        const artifactManager = new ArtifactManager(loadArtifacts(`${sample}/artifacts`, "."));
+        const session = await TxSession.fromDescription(
+            fse.readJsonSync(`${sample}/txs/tx00.json`)
+        );
+
+        // tryWithdraw(3) - makes a reverting external call to withdraw()
+        [trace] = await session.debugTx(new SolTxDebugger(artifactManager), 6);
+        profile = profileGas(trace);
+    });
+
+    it("Step costs add up to the gas spent by the transaction", () => {
+        const costs = getStepGasCosts(trace);
+        const lastStep = trace[trace.length - 1];
+        const spent = trace[0].gas - lastStep.gas + lastStep.dynamicGasCost;
+
+        expect(costs.length).toEqual(trace.length);
+        expect(costs.every((cost) => cost >= BigInt(0))).toBeTruthy();
+        expect(costs.reduce((a, b) => a + b, BigInt(0))).toEqual(spent);
+        expect(profile.totalGas).toEqual(spent);
+    });
+
+    it("Gas is attributed to functions and external calls", () => {
+        const findFun = (name: string): FunctionGas => {
+            const fun = profile.functions.find((f) => f.name === name);
+
+            expect(fun).toBeDefined();
+
+            return fun as FunctionGas;
+        };
+
+        const tryWithdraw = findFun("Bank.tryWithdraw");
+        const withdraw = findFun("Bank.withdraw");
+
+        expect(tryWithdraw.calls).toEqual(1);
+        expect(withdraw.calls).toEqual(1);
+        expect(tryWithdraw.exclusive < tryWithdraw.inclusive).toBeTruthy();
+        expect(withdraw.exclusive <= withdraw.inclusive).toBeTruthy();
+        expect(withdraw.inclusive < tryWithdraw.inclusive).toBeTruthy();
+
+        expect(profile.externalCalls.map((call) => call.name)).toEqual([
+            "Bank.tryWithdraw",
+            "Bank.withdraw"
+        ]);
+
+        const [outer, inner] = profile.externalCalls;
+
+        expect(outer.inclusive).toEqual(profile.totalGas);
+        expect(outer.exclusive + inner.inclusive).toEqual(outer.inclusive);
+        expect(inner.exclusive).toEqual(inner.inclusive);
+    });
+
+    it("Gas is attributed to source lines", () => {
+        const reports = ppLineGasReport(profile);
+        const report = reports.get(`${sample}/contracts/main.sol`);
+
+        expect(report).toBeDefined();
+
+        const lines = (report as string).split("\n");
+
+        expect(lines.length).toEqual(
+            fse.readFileSync(`${sample}/contracts/main.sol`, "utf-8").split("\n").length
+        );
+        expect(lines.some((line) => /^ *[0-9]+ \| +total -= v;$/.test(line))).toBeTruthy();
+        expect(lines.some((line) => /^ +\| +function setName/.test(line))).toBeTruthy();
+
+        const rangeGas = profile.sourceRanges.reduce((sum, range) => sum + range.gas, BigInt(0));
+        const lineGas = [...profile.lines.values()]
+            .map((fileLines) => [...fileLines.values()].reduce((a, b) => a + b, BigInt(0)))
+            .reduce((a, b) => a + b, BigInt(0));
+
+        expect(lineGas).toEqual(rangeGas);
+        expect(rangeGas <= profile.totalGas).toBeTruthy();
+    });
+
+    it("Folded stacks add up to the total gas", () => {
+        const folded = ppFoldedStacks(profile).split("\n");
+        let total = BigInt(0);
+
+        for (const line of folded) {
+            const m = line.match(/^(.+) ([0-9]+)$/);
+
+            expect(m).not.toBeNull();
+
+            total += BigInt((m as RegExpMatchArray)[2]);
+        }
+
+        expect(folded).toContain(
+            `Bank.tryWithdraw;Bank.withdraw ${profile.stacks.get("Bank.tryWithdraw;Bank.withdraw")}`
+        );
+        expect(total).toEqual(profile.totalGas);
+    });
+
+    it("Overloaded functions are profiled separately", async () => {
+        const contextSample = "test/samples/local/context";
+        const contextDbg = new SolTxDebugger(
+            new ArtifactManager(loadArtifacts(`${contextSample}/artifacts`, "."))
+        );
+        const contextSession = await TxSession.fromDescription(
+            fse.readJsonSync(`${contextSample}/txs/tx00.json`)
+        );
+
+        // sizes(4) - calls size(uint256) twice and size(string) once
+        const [sizesTrace] = await contextSession.debugTx(contextDbg, 7);
+        const sizes = profileGas(sizesTrace).functions.filter((fun) => fun.name === "Context.size");
+
+        expect(
+            sizes.map((fun) => [
+                (fun.callee as FunctionDefinition).vParameters.vParameters[0].typeString,
+                fun.calls
+            ])
+        ).toEqual([
+            ["uint256", 2],
+            ["string", 1]
+        ]);
+    });
+});
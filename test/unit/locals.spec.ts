@@ -0,0 +1,122 @@
+import expect from "expect";
+import fse from "fs-extra";
+import { FunctionDefinition } from "solc-typed-ast";
+import {
+    ArtifactManager,
+    decodeValue,
+    FrameKind,
+    getLocals,
+    lsJson,
+    SolTxDebugger,
+    StepState
+} from "../../src";
+import { TestCase, VMTestRunner } from "../utils";
+
+/**
+ * Find the last step executing in a Solidity function body before the first REVERT.
+ * (the REVERT itself usually happens in a compiler-generated function)
+ */
+function findStepBeforeRevert(trace: StepState[]): StepState | undefined {
+    const revertStep = trace.find((step) => step.op.mnemonic === "REVERT");
+
+    if (revertStep === undefined) {
+        return undefined;
+    }
+
+    const stack = revertStep.stack;
+
+    for (let i = stack.length - 1; i >= 0; i--) {
+        if (stack[i].callee instanceof FunctionDefinition) {
+            return i === stack.length - 1 ? revertStep : trace[stack[i + 1].startStep - 1];
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Decode all locals at `step` into a name-value object
+ */
+function decodeLocals(step: StepState): { [name: string]: any } | undefined {
+    const locals = getLocals(step);
+
+    if (locals === undefined) {
+        return undefined;
+    }
+
+    const res: { [name: string]: any } = {};
+
+    for (const [name, view] of locals) {
+        res[name] = view ? decodeValue(view, step) : undefined;
+    }
+
+    return res;
+}
+
+const samples: Array<[string, Array<{ [name: string]: bigint }>]> = [
+    ["test01", [{ t: BigInt(100) }]],
+    ["misc", [{ i: BigInt(3), j: BigInt(2) }, { i: BigInt(3) }]],
+    // The arguments and locals of modifiers are on the stack below the locals of the function
+    [
+        "modifiers",
+        [
+            { r: BigInt(0), b: BigInt(14) },
+            { r: BigInt(0), c: BigInt(23) }
+        ]
+    ]
+];
+
+describe("Local variable decoding", () => {
+    for (const [sample, expectedLocals] of samples) {
+        describe(`Sample ${sample}`, () => {
+            let solDbg: SolTxDebugger;
+            let runner: VMTestRunner;
+
+            before(async () => {
+                const artifacts = lsJson(`test/samples/local/${sample}/artifacts`).map((name) =>
+                    fse.readJsonSync(name)
+                );
+
+                solDbg = new SolTxDebugger(new ArtifactManager(artifacts));
+                runner = new VMTestRunner();
+
+                await runner.runTestCase(
+                    fse.readJsonSync(`test/samples/local/${sample}/txs/tx00.json`) as TestCase
+                );
+            });
+
+            it("Locals at each revert are decoded correctly", async () => {
+                const revertingTxs = runner.txs.filter(
+                    (tx, i) => runner.results[i].execResult.exceptionError !== undefined
+                );
+
+                expect(revertingTxs.length).toBeGreaterThanOrEqual(expectedLocals.length);
+
+                for (let i = 0; i < expectedLocals.length; i++) {
+                    const tx = revertingTxs[i];
+                    const [trace] = await solDbg.debugTx(
+                        tx,
+                        runner.getBlock(tx),
+                        runner.getStateBeforeTx(tx)
+                    );
+
+                    const step = findStepBeforeRevert(trace);
+
+                    expect(step).toBeDefined();
+
+                    const topFrame = (step as StepState).stack[
+                        (step as StepState).stack.length - 1
+                    ];
+
+                    expect(topFrame.kind).toEqual(FrameKind.InternalCall);
+                    expect(topFrame.callee).toBeInstanceOf(FunctionDefinition);
+
+                    const locals = decodeLocals(step as StepState);
+
+                    expect(locals).toBeDefined();
+                    expect(locals).toEqual(expectedLocals[i]);
+                }
+            });
+        });
+    }
+});
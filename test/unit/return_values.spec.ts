@@ -0,0 +1,130 @@
+import expect from "expect";
+import fse from "fs-extra";
+import { FunctionDefinition } from "solc-typed-ast";
+import {
+    ArtifactManager,
+    ContractInfo,
+    DataView,
+    decodeValue,
+    ExternalFrame,
+    Frame,
+    FrameKind,
+    lsJson,
+    SolTxDebugger,
+    StepState
+} from "../../src";
+import { TestCase, VMTestRunner } from "../utils";
+
+/**
+ * Collect all distinct frames that appear in the trace, in the order they were pushed
+ */
+function collectFrames(trace: StepState[]): Frame[] {
+    const res = new Set<Frame>();
+
+    for (const step of trace) {
+        for (const frame of step.stack) {
+            res.add(frame);
+        }
+    }
+
+    return [...res];
+}
+
+function decodeReturns(frame: Frame, trace: StepState[]): any[] | undefined {
+    if (frame.returnValues === undefined || frame.exitStep === undefined) {
+        return undefined;
+    }
+
+    const exitStep = trace[frame.exitStep];
+
+    return frame.returnValues.map(([, view]) =>
+        view === undefined ? undefined : decodeValue(view, exitStep)
+    );
+}
+
+describe("Return value decoding", () => {
+    for (const sample of ["test02", "test03"]) {
+        describe(`Sample ${sample}`, () => {
+            let solDbg: SolTxDebugger;
+            let runner: VMTestRunner;
+
+            before(async () => {
+                const artifacts = lsJson(`test/samples/local/${sample}/artifacts`).map((name) =>
+                    fse.readJsonSync(name)
+                );
+
+                solDbg = new SolTxDebugger(new ArtifactManager(artifacts));
+                runner = new VMTestRunner();
+
+                await runner.runTestCase(
+                    fse.readJsonSync(`test/samples/local/${sample}/txs/tx00.json`) as TestCase
+                );
+            });
+
+            it("Return values of frames match the tx results", async () => {
+                for (let i = 0; i < runner.txs.length; i++) {
+                    const tx = runner.txs[i];
+                    const txRes = runner.results[i];
+
+                    if (tx.to === undefined || txRes.execResult.exceptionError !== undefined) {
+                        continue;
+                    }
+
+                    const [trace] = await solDbg.debugTx(
+                        tx,
+                        runner.getBlock(tx),
+                        runner.getStateBeforeTx(tx)
+                    );
+
+                    const expected = BigInt("0x" + txRes.execResult.returnValue.toString("hex"));
+                    const frames = collectFrames(trace);
+
+                    for (const frame of frames) {
+                        expect(frame.exitStep).toBeDefined();
+                        expect(frame.exitStep as number).toBeGreaterThanOrEqual(frame.startStep);
+
+                        // The returning JUMP of internal frames is already in the caller, while
+                        // the exit step of external frames is still inside them
+                        const exitStep = trace[frame.exitStep as number];
+
+                        expect(exitStep.stack.includes(frame)).toEqual(
+                            frame.kind !== FrameKind.InternalCall
+                        );
+
+                        if (frame.kind === FrameKind.InternalCall) {
+                            expect(exitStep.op.mnemonic).toEqual("JUMP");
+                            expect(
+                                trace[(frame.exitStep as number) - 1].stack.includes(frame)
+                            ).toEqual(true);
+                        }
+                    }
+
+                    // The top-level external frame returns the tx result
+                    expect(frames[0].kind).toEqual(FrameKind.Call);
+                    expect(decodeReturns(frames[0], trace)).toEqual([expected]);
+
+                    // Return data is decoded with the encoder version of the called contract
+                    const topFrame = frames[0] as ExternalFrame;
+
+                    for (const [, view] of topFrame.returnValues || []) {
+                        expect((view as DataView).loc).toMatchObject({
+                            abiEncoderVersion: (topFrame.info as ContractInfo).artifact
+                                .abiEncoderVersion
+                        });
+                    }
+
+                    // The internal frame for the called function returns the same result
+                    const internalFrame = frames.find(
+                        (frame) =>
+                            frame.kind === FrameKind.InternalCall &&
+                            frame.callee === frames[0].callee
+                    );
+
+                    expect(internalFrame).toBeDefined();
+                    expect((internalFrame as Frame).callee).toBeInstanceOf(FunctionDefinition);
+                    expect(decodeReturns(internalFrame as Frame, trace)).toEqual([expected]);
+                }
+            });
+        });
+    }
+});
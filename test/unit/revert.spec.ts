@@ -0,0 +1,119 @@
+import expect from "expect";
+import fse from "fs-extra";
+import {
+    ArtifactManager,
+    DecodedRevert,
+    ExternalFrame,
+    FrameKind,
+    lsJson,
+    RevertKind,
+    SolTxDebugger,
+    StepState
+} from "../../src";
+import { TestCase, VMTestRunner } from "../utils";
+
+/**
+ * Simplify a decoded revert to a plain object that is easy to compare
+ */
+function simplifyRevert(revert: DecodedRevert | undefined): any {
+    if (revert === undefined) {
+        return undefined;
+    }
+
+    switch (revert.kind) {
+        case RevertKind.ErrorString:
+            return { kind: revert.kind, message: revert.message };
+        case RevertKind.Panic:
+            return { kind: revert.kind, code: revert.code, description: revert.description };
+        case RevertKind.CustomError:
+            return {
+                kind: revert.kind,
+                name: revert.definition.name,
+                args: revert.args.map(([name, val]) => [name, String(val)])
+            };
+        default:
+            return { kind: revert.kind };
+    }
+}
+
+function externalFrames(trace: StepState[]): ExternalFrame[] {
+    const res = new Set<ExternalFrame>();
+
+    for (const step of trace) {
+        for (const frame of step.stack) {
+            if (frame.kind !== FrameKind.InternalCall) {
+                res.add(frame);
+            }
+        }
+    }
+
+    return [...res];
+}
+
+const insufficientBalance = (available: number, required: number) => ({
+    kind: RevertKind.CustomError,
+    name: "InsufficientBalance",
+    args: [
+        ["available", `${available}`],
+        ["required", `${required}`]
+    ]
+});
+
+/**
+ * Expected decoded revert reasons for each external frame in each tx of the `errors` sample
+ */
+const expectedReverts: any[][] = [
+    [],
+    [undefined],
+    [insufficientBalance(7, 42)],
+    [
+        {
+            kind: RevertKind.CustomError,
+            name: "Unauthorized",
+            args: [
+                ["caller", "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa0"],
+                ["reason", "not the owner"]
+            ]
+        }
+    ],
+    [{ kind: RevertKind.ErrorString, message: "x too small" }],
+    [{ kind: RevertKind.Panic, code: BigInt(0x12), description: "Division or modulo by zero" }],
+    [insufficientBalance(7, 100), insufficientBalance(7, 100)]
+];
+
+describe("Revert reason decoding", () => {
+    const sample = "errors";
+
+    let solDbg: SolTxDebugger;
+    let runner: VMTestRunner;
+
+    before(async () => {
+        const artifacts = lsJson(`test/samples/local/${sample}/artifacts`).map((name) =>
+            fse.readJsonSync(name)
+        );
+
+        solDbg = new SolTxDebugger(new ArtifactManager(artifacts));
+        runner = new VMTestRunner();
+
+        await runner.runTestCase(
+            fse.readJsonSync(`test/samples/local/${sample}/txs/tx00.json`) as TestCase
+        );
+    });
+
+    it("Revert reasons of external frames are decoded correctly", async () => {
+        for (let i = 1; i < runner.txs.length; i++) {
+            const tx = runner.txs[i];
+            const [trace] = await solDbg.debugTx(
+                tx,
+                runner.getBlock(tx),
+                runner.getStateBeforeTx(tx)
+            );
+
+            const reverts = externalFrames(trace).map((frame) =>
+                simplifyRevert(frame.revertReason)
+            );
+
+            expect(reverts).toEqual(expectedReverts[i]);
+        }
+    });
+});
@@ -0,0 +1,149 @@
+import expect from "expect";
+import fse from "fs-extra";
+import { ArtifactManager, DebugSession, lsJson, SolTxDebugger, StepState } from "../../src";
+import { TestCase, VMTestRunner } from "../utils";
+
+/**
+ * Collect the indices of all boundary steps in `session`
+ */
+function getBoundaries(session: DebugSession): number[] {
+    const res: number[] = [];
+
+    for (let i = 0; i < session.trace.length; i++) {
+        if (session.isBoundary(i)) {
+            res.push(i);
+        }
+    }
+
+    return res;
+}
+
+describe("DebugSession", () => {
+    let solDbg: SolTxDebugger;
+    let runner: VMTestRunner;
+    const traces: StepState[][] = [];
+
+    before(async () => {
+        const artifacts = lsJson(`test/samples/local/test02/artifacts`).map((name) =>
+            fse.readJsonSync(name)
+        );
+
+        solDbg = new SolTxDebugger(new ArtifactManager(artifacts));
+        runner = new VMTestRunner();
+
+        await runner.runTestCase(
+            fse.readJsonSync(`test/samples/local/test02/txs/tx00.json`) as TestCase
+        );
+
+        for (const tx of runner.txs) {
+            if (tx.to === undefined) {
+                continue;
+            }
+
+            const [trace] = await solDbg.debugTx(
+                tx,
+                runner.getBlock(tx),
+                runner.getStateBeforeTx(tx)
+            );
+
+            traces.push(trace);
+        }
+    });
+
+    it("stepInto visits all source-level steps in order", () => {
+        for (const trace of traces) {
+            const session = new DebugSession(trace);
+            const boundaries = getBoundaries(session);
+            const visited: number[] = [session.curIdx];
+
+            expect(boundaries.length).toBeGreaterThan(0);
+
+            while (!session.finished) {
+                session.stepInto();
+                visited.push(session.curIdx);
+            }
+
+            if (!boundaries.includes(trace.length - 1)) {
+                visited.pop();
+            }
+
+            expect(visited).toEqual(boundaries);
+        }
+    });
+
+    it("stepBackInto undoes stepInto", () => {
+        for (const trace of traces) {
+            const session = new DebugSession(trace);
+            const boundaries = getBoundaries(session);
+
+            for (let i = 0; i < boundaries.length - 1; i++) {
+                session.goto(boundaries[i]);
+                expect(session.stepInto()).toBe(trace[boundaries[i + 1]]);
+                expect(session.stepBackInto()).toBe(trace[boundaries[i]]);
+            }
+        }
+    });
+
+    it("stepOver skips calls and stepOut leaves the current frame", () => {
+        let nCallsSkipped = 0;
+
+        for (const trace of traces) {
+            const session = new DebugSession(trace);
+
+            for (const idx of getBoundaries(session)) {
+                const depth = trace[idx].stack.length;
+
+                session.goto(idx);
+                session.stepOver();
+
+                const overIdx = session.curIdx;
+
+                if (!session.finished) {
+                    expect(session.isBoundary(overIdx)).toBeTruthy();
+                    expect(trace[overIdx].stack.length).toBeLessThanOrEqual(depth);
+                }
+
+                // All skipped steps are in deeper frames
+                for (let i = idx + 1; i < overIdx; i++) {
+                    if (session.isBoundary(i)) {
+                        expect(trace[i].stack.length).toBeGreaterThan(depth);
+                        nCallsSkipped++;
+                    }
+                }
+
+                session.goto(idx);
+                session.stepOut();
+
+                if (!session.finished) {
+                    expect(trace[session.curIdx].stack.length).toBeLessThan(depth);
+
+                    // stepBackOut returns to the caller before the frame was entered
+                    expect(session.stepBackOut().stack.length).toBeLessThan(depth);
+                    expect(session.curIdx).toBeLessThan(idx);
+                }
+            }
+        }
+
+        expect(nCallsSkipped).toBeGreaterThan(0);
+    });
+
+    it("continue stops at breakpoints", () => {
+        const trace = traces[traces.length - 1];
+        const session = new DebugSession(trace);
+        const revertIdx = trace.findIndex((step) => step.op.mnemonic === "REVERT");
+
+        expect(revertIdx).toBeGreaterThan(0);
+
+        const bpId = session.addBreakpoint((step) => step.op.mnemonic === "REVERT");
+
+        expect(session.continue()).toBe(trace[revertIdx]);
+
+        const first = getBoundaries(session)[0];
+
+        expect(session.reverseContinue()).toBe(trace[first]);
+
+        expect(session.removeBreakpoint(bpId)).toBeTruthy();
+        expect(session.continue()).toBe(trace[trace.length - 1]);
+        expect(session.finished).toBeTruthy();
+    });
+});
@@ -0,0 +1,248 @@
+import expect from "expect";
+import fse from "fs-extra";
+import {
+    ArtifactManager,
+    bigEndianBufToNumber,
+    ContractInfo,
+    DataView,
+    decodeValue,
+    evalWatchExpression,
+    ExternalFrame,
+    FrameKind,
+    getStepSourceLoc,
+    lastExternalFrame,
+    loadArtifacts,
+    OPCODES,
+    parseWatchExpression,
+    ppValue,
+    SolTxDebugger,
+    StepState,
+    TxSession
+} from "../../src";
+
+const sample = "test/samples/local/context";
+const sender = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa0";
+const contextAddr = "0xf084a83954ce917799e0b4dbd03934a2ea65888c";
+
+/**
+ * Return the first step of `trace` on the given source line, at the given depth
+ */
+function stepOnLine(trace: StepState[], line: number, depth = 1): StepState {
+    const step = trace.find((s) => {
+        const loc = getStepSourceLoc(s);
+
+        return loc !== undefined && loc.line === line && s.depth === depth;
+    });
+
+    expect(step).toBeDefined();
+
+    return step as StepState;
+}
+
+function frameOnLine(trace: StepState[], line: number, depth = 1): ExternalFrame {
+    return lastExternalFrame(stepOnLine(trace, line, depth).stack);
+}
+
+function word(n: number): string {
+    return n.toString(16).padStart(64, "0");
+}
+
+/**
+ * Return the creation frames in `trace`, each with the step at which it starts
+ */
+function getCreationFrames(trace: StepState[]): Array<[ExternalFrame, StepState]> {
+    const res: Array<[ExternalFrame, StepState]> = [];
+
+    for (const step of trace) {
+        const frame = step.stack[step.stack.length - 1];
+
+        if (frame.kind === FrameKind.Creation && !res.some(([other]) => other === frame)) {
+            res.push([frame, step]);
+        }
+    }
+
+    return res;
+}
+
+function decodeArgs(frame: ExternalFrame, step: StepState): Array<[string, any]> {
+    return (frame.arguments as Array<[string, DataView]>).map(([name, view]) => [
+        name,
+        decodeValue(view, step)
+    ]);
+}
+
+function evalAt(step: StepState, expr: string): string | undefined {
+    const val = evalWatchExpression(parseWatchExpression(expr), step);
+
+    return val === undefined ? undefined : ppValue(val.type, val.value);
+}
+
+describe("Step context", () => {
+    let solDbg: SolTxDebugger;
+    let session: TxSession;
+
+    before(async () => {
+        solDbg = new SolTxDebugger(new ArtifactManager(loadArtifacts(`${sample}/artifacts`, ".")));
+        session = await TxSession.fromDescription(fse.readJsonSync(`${sample}/txs/tx00.json`));
+
+        // setup()
+        await session.debugTx(solDbg, 1);
+    });
+
+    it("Call values and senders", async () => {
+        // forward() with 100 wei
+        const [trace] = await session.debugTx(solDbg, 2);
+        const top = frameOnLine(trace, 26);
+        // received += msg.value;
+        const deposit = frameOnLine(trace, 7, 2);
+
+        expect([top.sender, top.value]).toEqual([sender, BigInt(100)]);
+        expect([deposit.sender, deposit.value]).toEqual([contextAddr, BigInt(50)]);
+
+        // delegate() with 16 wei
+        const [delegateTrace] = await session.debugTx(solDbg, 3);
+        const delegated = frameOnLine(delegateTrace, 26, 2);
+
+        // The delegate call keeps the sender and value of its caller
+        expect([delegated.sender, delegated.value]).toEqual([sender, BigInt(16)]);
+        expect(frameOnLine(delegateTrace, 7, 3).value).toEqual(BigInt(8));
+    });
+
+    it("Constructor arguments", async () => {
+        // makeCounters(4)
+        const frames = getCreationFrames((await session.debugTx(solDbg, 6))[0]);
+
+        expect(frames.map(([frame]) => (frame.info as ContractInfo).contractName)).toEqual([
+            "Counter",
+            "Child",
+            "Doubler"
+        ]);
+
+        // new Counter(start)
+        expect(decodeArgs(...frames[0])).toEqual([["start", BigInt(4)]]);
+
+        // new Doubler(true, start) only gets its own arguments, and not those of Counter
+        expect(decodeArgs(...frames[2])).toEqual([
+            ["twice", true],
+            ["half", BigInt(4)]
+        ]);
+    });
+
+    it("Inherited constructors don't decode arguments", async () => {
+        // makeCounters(4)
+        const [, [child]] = getCreationFrames((await session.debugTx(solDbg, 6))[0]);
+
+        // Child inherits the constructor of Counter, whose argument is passed in the inheritance
+        // specifier. The creation code of Child isn't followed by any arguments.
+        expect((child.info as ContractInfo).contractName).toEqual("Child");
+        expect(child.msgData.length).toEqual(
+            (child.info as ContractInfo).contractArtifact.evm.bytecode.object.length / 2
+        );
+        expect(child.callee).toBeUndefined();
+        expect(child.arguments).toBeUndefined();
+    });
+
+    it("Return data", async () => {
+        const [trace] = await session.debugTx(solDbg, 2);
+
+        // Return data is empty until the first call returns
+        expect(stepOnLine(trace, 26).returnData.length).toEqual(0);
+        expect(stepOnLine(trace, 7, 2).returnData.length).toEqual(0);
+
+        // try wallet.fail() {} catch {}
+        expect(stepOnLine(trace, 28).returnData.toString("hex")).toEqual(word(50));
+
+        // The revert data of fail() is Error("nope")
+        const revertData = stepOnLine(trace, 30).returnData;
+
+        expect(revertData.slice(0, 4).toString("hex")).toEqual("08c379a0");
+        expect(revertData.slice(68, 72).toString()).toEqual("nope");
+
+        const [delegateTrace] = await session.debugTx(solDbg, 3);
+
+        // The return data of the delegated forward() call, once it returns
+        expect(stepOnLine(delegateTrace, 35).returnData.length).toEqual(0);
+        expect(delegateTrace[delegateTrace.length - 1].returnData.toString("hex")).toEqual(
+            word(58)
+        );
+    });
+
+    it("Transaction context", async () => {
+        const [trace] = await session.debugTx(solDbg, 2);
+        const step = stepOnLine(trace, 30);
+        const ctx = step.txContext;
+
+        // All steps share the same context
+        expect(trace.every((s) => s.txContext === ctx)).toEqual(true);
+
+        expect(ctx.origin.toString()).toEqual(sender);
+        expect(ctx.gasPrice).toEqual(BigInt(1));
+        expect(ctx.block.number).toEqual(BigInt(3));
+        expect(ctx.block.timestamp).toEqual(BigInt(3));
+        // The sample uses the sender as the coinbase
+        expect(ctx.block.coinbase.toString()).toEqual(sender);
+        expect(ctx.block.gasLimit).toEqual(BigInt(0xff0000));
+        expect(ctx.block.chainId).toEqual(BigInt(1));
+    });
+
+    it("Globals in watch expressions", async () => {
+        const [trace] = await session.debugTx(solDbg, 2);
+        // stamp = block.timestamp;
+        const step = stepOnLine(trace, 30);
+
+        expect(evalAt(step, "msg.value")).toEqual("100");
+        expect(evalAt(step, "msg.value / 2 + block.timestamp")).toEqual("53");
+        expect(evalAt(step, "msg.sender == tx.origin")).toEqual("true");
+        expect(evalAt(step, "msg.sig")).toEqual("0xd264e05e");
+        expect(evalAt(step, "tx.gasprice")).toEqual("1");
+        expect(evalAt(step, "block.number")).toEqual("3");
+        expect(evalAt(step, "block.chainid")).toEqual("1");
+        expect(evalAt(step, "block.coinbase")).toEqual(sender);
+        expect(evalAt(step, "block.foo")).toBeUndefined();
+
+        // msg.value in the called contract
+        expect(evalAt(stepOnLine(trace, 7, 2), "msg.value")).toEqual("50");
+
+        // fallback() called with a single byte of calldata
+        const [fallbackTrace] = await session.debugTx(solDbg, 5);
+
+        expect(evalAt(stepOnLine(fallbackTrace, 43), "msg.data")).toEqual("0x12");
+        expect(evalAt(stepOnLine(fallbackTrace, 43), "msg.sig")).toEqual("0x12000000");
+    });
+});
+
+describe("Step memory", () => {
+    it("Memory grows when instructions read past its end", async () => {
+        const solDbg = new SolTxDebugger(
+            new ArtifactManager(loadArtifacts(`${sample}/artifacts`, "."))
+        );
+        const session = await TxSession.fromDescription(
+            fse.readJsonSync(`${sample}/txs/tx00.json`)
+        );
+
+        await session.debugTx(solDbg, 1);
+        await session.debugTx(solDbg, 2);
+
+        // delegate(), where abi.encodeWithSignature() loads the word past the end of memory
+        const [trace] = await session.debugTx(solDbg, 3);
+        let nExpansions = 0;
+
+        for (let i = 0; i < trace.length - 1; i++) {
+            const step = trace[i];
+
+            if (step.op.opcode !== OPCODES.MLOAD || trace[i + 1].depth !== step.depth) {
+                continue;
+            }
+
+            const off = bigEndianBufToNumber(step.evmStack[step.evmStack.length - 1]);
+            const size = Math.ceil((off + 32) / 32) * 32;
+
+            if (size > step.memory.length) {
+                nExpansions++;
+                expect(trace[i + 1].memory.length).toEqual(size);
+            }
+        }
+
+        expect(nExpansions).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,310 @@
+import expect from "expect";
+import fse from "fs-extra";
+import { assert, ContractDefinition, StructDefinition } from "solc-typed-ast";
+import {
+    ArtifactManager,
+    compareStorageLayouts,
+    computeStorageDiff,
+    ContractInfo,
+    fetchStorageWord,
+    findSlotVariables,
+    getContractStorageLayout,
+    getKeccakPreimages,
+    getStorageLayout,
+    getStructFieldLocation,
+    isDir,
+    loadArtifacts,
+    lsJson,
+    OPCODES,
+    SolTxDebugger,
+    StorageChange,
+    StepState,
+    StorageLayout,
+    StorageLayoutEntry,
+    StructLayout,
+    StructLayouts,
+    TxSession,
+    TxStorageDiff,
+    typeStorageSize
+} from "../../src";
+
+const sample = "test/samples/local/state";
+const bank = "0xf084a83954ce917799e0b4dbd03934a2ea65888c";
+
+function summarize(changes: StorageChange[]): Array<[string, string, string, string | undefined]> {
+    return changes.map((change) => [
+        change.slot.toString(16),
+        change.oldValue.toString("hex").replace(/^0+/, ""),
+        change.newValue.toString("hex").replace(/^0+/, ""),
+        change.path
+    ]);
+}
+
+describe("Storage diffs", () => {
+    let solDbg: SolTxDebugger;
+    let artifactManager: ArtifactManager;
+    let session: TxSession;
+    let bankInfo: ContractInfo;
+
+    const getDiff = async (txIdx: number): Promise<TxStorageDiff> => {
+        const [trace] = await session.debugTx(solDbg, txIdx);
+
+        return computeStorageDiff(trace, session.getStateBefore(txIdx));
+    };
+
+    before(async () => {
+        const artifacts = lsJson(`${sample}/artifacts`).map((name) => fse.readJsonSync(name));
+
+        artifactManager = new ArtifactManager(artifacts);
+        solDbg = new SolTxDebugger(artifactManager);
+        bankInfo = artifactManager
+            .contracts()
+            .find((info) => info.contractName === "Bank") as ContractInfo;
+        session = await TxSession.fromDescription(fse.readJsonSync(`${sample}/txs/tx00.json`));
+    });
+
+    it("Storage layout follows inheritance order and packing", () => {
+        const layout = getStorageLayout(bankInfo.ast as ContractDefinition);
+
+        assert(layout !== undefined, `Failed computing the layout`);
+
+        expect(layout.map((entry) => [entry.name, Number(entry.slot), entry.offset])).toEqual([
+            ["owner", 0, 0],
+            ["version", 0, 20],
+            ["paused", 0, 21],
+            ["total", 1, 0],
+            ["balances", 2, 0],
+            ["allowances", 3, 0],
+            ["items", 4, 0],
+            ["recent", 5, 0],
+            ["last", 6, 0],
+            ["name", 8, 0]
+        ]);
+
+        const slot7 = findSlotVariables(layout, BigInt(7));
+
+        expect(slot7.map((v) => v.path)).toEqual(["last.delegate"]);
+
+        const slot5 = findSlotVariables(layout, BigInt(5));
+
+        expect(slot5.map((v) => [v.path, v.offset])).toEqual([
+            ["recent[0]", 0],
+            ["recent[1]", 2],
+            ["recent[2]", 4]
+        ]);
+    });
+
+    it("Function pointers are packed", () => {
+        const callbacks = artifactManager
+            .contracts()
+            .find((info) => info.contractName === "Callbacks") as ContractInfo;
+        const layout = getStorageLayout(callbacks.ast as ContractDefinition);
+
+        assert(layout !== undefined, `Failed computing the layout`);
+
+        // Internal function pointers take 8 bytes, and external ones 24
+        expect(layout.map((entry) => [entry.name, Number(entry.slot), entry.offset])).toEqual([
+            ["flag", 0, 0],
+            ["hook", 0, 1],
+            ["callback", 1, 0],
+            ["count", 1, 24],
+            ["hooks", 2, 0],
+            ["views", 3, 0],
+            ["done", 5, 0]
+        ]);
+        expect(compareStorageLayouts(callbacks.storageLayout as StorageLayout, layout)).toEqual([]);
+    });
+
+    it("Computed layouts match the layouts reported by the compiler", () => {
+        const samples = fse.readdirSync("test/samples/local");
+        let checked = 0;
+
+        for (const name of samples) {
+            if (!isDir(`test/samples/local/${name}/artifacts`)) {
+                continue;
+            }
+
+            const artifacts = lsJson(`test/samples/local/${name}/artifacts`).map((file) =>
+                fse.readJsonSync(file)
+            );
+
+            for (const info of new ArtifactManager(artifacts).contracts()) {
+                if (info.storageLayout === undefined || info.ast === undefined) {
+                    continue;
+                }
+
+                const computed = getStorageLayout(info.ast) as StorageLayout;
+
+                expect([
+                    info.contractName,
+                    compareStorageLayouts(info.storageLayout, computed)
+                ]).toEqual([info.contractName, []]);
+
+                checked++;
+            }
+        }
+
+        expect(checked).toBeGreaterThan(10);
+
+        // The compiler-provided layout is preferred
+        expect(bankInfo.storageLayout).toBeDefined();
+        expect(getContractStorageLayout(bankInfo)).toBe(bankInfo.storageLayout);
+    });
+
+    it("Struct layouts reported by the compiler are preferred", () => {
+        const layout = getContractStorageLayout(bankInfo) as StorageLayout;
+        const structs = bankInfo.structLayouts as StructLayouts;
+        const account = [...structs.keys()].find(
+            (def) => def.name === "Account"
+        ) as StructDefinition;
+        const { members, nSlots } = structs.get(account) as StructLayout;
+
+        expect(members.map((member) => [member.name, Number(member.slot), member.offset])).toEqual([
+            ["amount", 0, 0],
+            ["nonce", 0, 16],
+            ["delegate", 1, 0]
+        ]);
+        expect(nSlots).toEqual(2);
+
+        // A struct layout differing from the computed one, with delegate one slot further
+        const moved: StructLayouts = new Map([
+            [
+                account,
+                {
+                    members: members.map((member) =>
+                        member.name === "delegate" ? { ...member, slot: BigInt(2) } : member
+                    ),
+                    nSlots: 3
+                }
+            ]
+        ]);
+        const last = layout.find((entry) => entry.name === "last") as StorageLayoutEntry;
+
+        expect(typeStorageSize(last.type, moved)).toEqual(96);
+        expect(getStructFieldLocation(account, "delegate", last.slot)).toMatchObject({
+            slot: BigInt(7)
+        });
+        expect(getStructFieldLocation(account, "delegate", last.slot, moved)).toMatchObject({
+            slot: BigInt(8)
+        });
+        expect(findSlotVariables(layout, BigInt(7), undefined, moved)).toEqual([]);
+        expect(findSlotVariables(layout, BigInt(8), undefined, moved).map((v) => v.path)).toEqual([
+            "last.delegate",
+            "name"
+        ]);
+    });
+
+    it("Changes of a transaction are annotated with variable paths", async () => {
+        // deposit(0xAaAa...Aa2, 100)
+        const diff = await getDiff(1);
+
+        expect(diff.changes.every((change) => change.address.toString() === bank)).toBeTruthy();
+        expect(summarize(diff.changes)).toEqual([
+            ["1", "", "64", "total"],
+            [
+                "c8fc4dbe23017c8d373a73648f420a48b3aebc0f92909255f373e491b680c748",
+                "",
+                "100000000000000000000000000000064",
+                "balances[0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa2].amount, balances[0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa2].nonce"
+            ],
+            ["6", "", "100000000000000000000000000000064", "last.amount, last.nonce"],
+            [
+                "0",
+                "1aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa0",
+                "101aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa0",
+                "paused"
+            ]
+        ]);
+
+        expect(diff.frames.length).toEqual(1);
+        expect(diff.frames[0].reverted).toBeFalsy();
+        expect(summarize(diff.frames[0].changes)).toEqual(summarize(diff.changes));
+    });
+
+    it("Changes in reverted frames are rolled back", async () => {
+        // tryWithdraw(3)
+        const diff = await getDiff(6);
+
+        expect(summarize(diff.changes)).toEqual([["1", "64", "65", "total"]]);
+        expect(diff.frames.map((frame) => frame.reverted)).toEqual([false, true]);
+        expect(summarize(diff.frames[1].changes)).toEqual([["1", "64", "61", "total"]]);
+    });
+
+    it("Step storage is reloaded when calls return or revert", async () => {
+        // tryWithdraw(3), where withdraw() reverts after decrementing total
+        const [trace] = await session.debugTx(solDbg, 6);
+        const total = (step: StepState): string =>
+            fetchStorageWord(BigInt(1), step.storage).toString("hex").replace(/^0+/, "");
+        const sstoreIdx = trace.findIndex((step) => step.op.opcode === OPCODES.SSTORE);
+        const returnIdx = trace.findIndex((step, i) => i > sstoreIdx && step.depth === 1);
+
+        // The write of withdraw() is visible in the called frame...
+        expect(trace[sstoreIdx].depth).toEqual(2);
+        expect(total(trace[sstoreIdx])).toEqual("64");
+        expect(total(trace[sstoreIdx + 1])).toEqual("61");
+        // ...and rolled back when it reverts
+        expect(total(trace[returnIdx])).toEqual("64");
+    });
+
+    it("Step storage is reloaded when entering calls to other contracts", async () => {
+        const contextSample = "test/samples/local/context";
+        const contextDbg = new SolTxDebugger(
+            new ArtifactManager(loadArtifacts(`${contextSample}/artifacts`, "."))
+        );
+        const contextSession = await TxSession.fromDescription(
+            fse.readJsonSync(`${contextSample}/txs/tx00.json`)
+        );
+
+        // setup() and forward() with 100 wei, which deposits 50 wei in the wallet
+        await contextSession.debugTx(contextDbg, 1);
+        await contextSession.debugTx(contextDbg, 2);
+
+        // delegate() with 16 wei
+        const [trace] = await contextSession.debugTx(contextDbg, 3);
+        const wallet = trace.find((step) => step.depth === 3) as StepState;
+
+        // The first step of Wallet.deposit() sees the storage of the wallet, not of the caller
+        expect(fetchStorageWord(BigInt(0), wallet.storage).toString("hex")).toEqual(
+            (50).toString(16).padStart(64, "0")
+        );
+    });
+
+    it("Packed slots are annotated with the changed variables only", async () => {
+        // push(6)
+        const diff = await getDiff(4);
+        const summary = summarize(diff.changes);
+
+        expect(summary[0]).toEqual(["4", "1", "2", "items.length"]);
+        expect(summary[2]).toEqual(["5", "50000", "600050000", "recent[2]"]);
+    });
+
+    it("Mapping values and dynamic array elements are resolved from keccak preimages", async () => {
+        const layout = getStorageLayout(bankInfo.ast as ContractDefinition) as StorageLayout;
+
+        // approve(0xAaAa...Aa2, 7)
+        const [approveTrace] = await session.debugTx(solDbg, 2);
+        const approveSlot = BigInt(
+            "0xfb7198001864889130feab1580e08c2d2bb7beaa770f7a96bba41a129474b539"
+        );
+
+        // Without the preimages only the statically allocated slots can be resolved
+        expect(findSlotVariables(layout, approveSlot)).toEqual([]);
+        expect(
+            findSlotVariables(layout, approveSlot, getKeccakPreimages(approveTrace)).map(
+                (v) => v.path
+            )
+        ).toEqual([
+            "allowances[0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa0][0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa2]"
+        ]);
+
+        // push(6)
+        const [pushTrace] = await session.debugTx(solDbg, 4);
+        const elementSlot = BigInt(
+            "0x8a35acfbc15ff81a39ae7d344fd709f28e8600b4aa8c65c6b64bfe7fe36bd19c"
+        );
+
+        expect(
+            findSlotVariables(layout, elementSlot, getKeccakPreimages(pushTrace)).map((v) => v.path)
+        ).toEqual(["items[1]"]);
+    });
+});
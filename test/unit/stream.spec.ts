@@ -0,0 +1,90 @@
+import expect from "expect";
+import fse from "fs-extra";
+import { ArtifactManager, lsJson, SolTxDebugger, StepState } from "../../src";
+import { TestCase, VMTestRunner } from "../utils";
+
+const sample = "test/samples/local/test02";
+
+describe("Streaming traces", () => {
+    let solDbg: SolTxDebugger;
+    let runner: VMTestRunner;
+
+    before(async () => {
+        const artifacts = lsJson(`${sample}/artifacts`).map((name) => fse.readJsonSync(name));
+
+        solDbg = new SolTxDebugger(new ArtifactManager(artifacts));
+        runner = new VMTestRunner();
+
+        await runner.runTestCase(fse.readJsonSync(`${sample}/txs/tx00.json`) as TestCase);
+    });
+
+    it("Streamed steps match the materialized trace", async () => {
+        // incBy4(10)
+        const tx = runner.txs[1];
+        const [trace] = await solDbg.debugTx(
+            tx,
+            runner.getBlock(tx),
+            runner.getStateBeforeTx(tx).copy()
+        );
+        const streamed: StepState[] = [];
+        const idxs: number[] = [];
+
+        await solDbg.debugTxStream(
+            tx,
+            runner.getBlock(tx),
+            runner.getStateBeforeTx(tx).copy(),
+            async (step, idx) => {
+                streamed.push(step);
+                idxs.push(idx);
+            }
+        );
+
+        expect(idxs).toEqual(trace.map((step, i) => i));
+
+        const describe = (step: StepState) => [
+            step.pc,
+            step.depth,
+            step.op.mnemonic,
+            step.src === undefined ? undefined : step.src.start,
+            step.stack.map((frame) => [frame.kind, frame.startStep, frame.exitStep]),
+            step.evmStack.length,
+            step.memory.length
+        ];
+
+        expect(streamed.map(describe)).toEqual(trace.map(describe));
+    });
+
+    it("Low-level state can be dropped", async () => {
+        const tx = runner.txs[1];
+        const window: StepState[] = [];
+        let nSteps = 0;
+
+        const res = await solDbg.debugTxStream(
+            tx,
+            runner.getBlock(tx),
+            runner.getStateBeforeTx(tx).copy(),
+            (step) => {
+                nSteps++;
+                window.push(step);
+
+                if (window.length > 10) {
+                    window.shift();
+                }
+            },
+            { dropLowLevelState: true }
+        );
+
+        expect(res.execResult.exceptionError).toBeUndefined();
+        expect(nSteps).toBeGreaterThan(10);
+        expect(window.length).toEqual(10);
+
+        for (const step of window) {
+            expect(step.evmStack).toEqual([]);
+            expect(step.memory.length).toEqual(0);
+            expect([...step.storage.entries()]).toEqual([]);
+            expect(step.stack.length).toBeGreaterThan(0);
+        }
+
+        expect(window[window.length - 1].op.mnemonic).toEqual("RETURN");
+    });
+});
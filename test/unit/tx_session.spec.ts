@@ -0,0 +1,110 @@
+import expect from "expect";
+import fse from "fs-extra";
+import {
+    ArtifactManager,
+    evalWatchExpression,
+    lsJson,
+    makeBlock,
+    makeTransaction,
+    parseWatchExpression,
+    ppValue,
+    SolTxDebugger,
+    TxSequenceDescription,
+    TxSession
+} from "../../src";
+
+const sample = "test/samples/local/test02";
+
+describe("Transaction sessions", () => {
+    let desc: TxSequenceDescription;
+    let solDbg: SolTxDebugger;
+
+    before(() => {
+        const artifacts = lsJson(`${sample}/artifacts`).map((name) => fse.readJsonSync(name));
+
+        solDbg = new SolTxDebugger(new ArtifactManager(artifacts));
+        desc = fse.readJsonSync(`${sample}/txs/tx00.json`);
+    });
+
+    it("Replaying a transaction sequence", async () => {
+        const session = await TxSession.fromDescription(desc);
+
+        expect(session.txs.length).toEqual(4);
+
+        const [created, first, second, failed] = session.txs.map((tx) => tx.result);
+
+        expect((created.createdAddress as any).toString()).toEqual(
+            "0xf084a83954ce917799e0b4dbd03934a2ea65888c"
+        );
+        expect(first.execResult.returnValue.toString("hex")).toEqual("29".padStart(64, "0"));
+        expect(second.execResult.returnValue.toString("hex")).toEqual("51".padStart(64, "0"));
+        expect(failed.execResult.exceptionError).toBeDefined();
+    });
+
+    it("Running transactions one at a time", async () => {
+        const session = await TxSession.create(desc.initialState);
+
+        for (const txDesc of desc.steps.slice(0, 2)) {
+            await session.runTxDescription(txDesc);
+        }
+
+        expect(session.txs.length).toEqual(2);
+        expect(session.txs[1].result.execResult.returnValue.toString("hex")).toEqual(
+            "29".padStart(64, "0")
+        );
+    });
+
+    it("Debugging transactions on demand", async () => {
+        const session = await TxSession.fromDescription(desc);
+
+        // Debugging doesn't affect the state of the session, so it can be repeated
+        const [trace1, res1] = await session.debugTx(solDbg, 2);
+        const [trace2, res2] = await session.debugTx(solDbg, 2);
+
+        expect(trace1.length).toBeGreaterThan(0);
+        expect(trace2.length).toEqual(trace1.length);
+        expect(res1.execResult.returnValue.toString("hex")).toEqual("51".padStart(64, "0"));
+        expect(res2.execResult.returnValue).toEqual(res1.execResult.returnValue);
+
+        const [trace3, res3] = await session.debugTx(solDbg, 3);
+
+        expect(trace3[trace3.length - 1].op.mnemonic).toEqual("REVERT");
+        expect(res3.execResult.exceptionError).toBeDefined();
+
+        await expect(session.debugTx(solDbg, 4)).rejects.toThrow(/out of range/);
+    });
+
+    it("Transactions run with the described gas price and coinbase", async () => {
+        const session = await TxSession.create(desc.initialState);
+        const coinbase = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb0";
+        const steps = desc.steps.map((step) => ({
+            ...step,
+            gasPrice: "0x7",
+            blockCoinbase: coinbase
+        }));
+
+        for (const txDesc of steps) {
+            await session.runTxDescription(txDesc);
+        }
+
+        const tx = await makeTransaction(session.vm, steps[1]);
+
+        expect(tx.gasPrice.toNumber()).toEqual(7);
+        expect(makeBlock(steps[1]).header.coinbase.toString()).toEqual(coinbase);
+
+        // incBy4(10)
+        const [trace] = await session.debugTx(solDbg, 1);
+        const step = trace[trace.length - 1];
+        const eval_ = (expr: string): string => {
+            const val = evalWatchExpression(parseWatchExpression(expr), step);
+
+            expect(val).toBeDefined();
+
+            return val === undefined ? "" : ppValue(val.type, val.value);
+        };
+
+        expect(eval_("tx.gasprice")).toEqual("7");
+        expect(eval_("block.coinbase")).toEqual(coinbase);
+        expect(eval_("tx.origin")).toEqual(steps[1].origin.toLowerCase());
+    });
+});
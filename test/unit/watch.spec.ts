@@ -0,0 +1,188 @@
+import expect from "expect";
+import fse from "fs-extra";
+import {
+    ArtifactManager,
+    ContractInfo,
+    evalWatchExpression,
+    loadArtifacts,
+    parseWatchExpression,
+    ppValue,
+    SolTxDebugger,
+    StepState,
+    TxSession,
+    WatchList
+} from "../../src";
+
+const sample = "test/samples/local/state";
+
+/**
+ * Render the changes of the watch expressions `exprs` in `trace` as `[expression, old, new]` triples
+ */
+function ppChanges(trace: StepState[], exprs: string[]): Array<[string, string, string]> {
+    const watches = new WatchList();
+
+    exprs.forEach((expr) => watches.add(expr));
+
+    const changes = watches.findChanges(trace);
+
+    // Changes are reported in trace order
+    for (let i = 1; i < changes.length; i++) {
+        expect(changes[i].stepIdx).toBeGreaterThanOrEqual(changes[i - 1].stepIdx);
+    }
+
+    return changes.map(({ expression, type, oldValue, newValue }) => [
+        expression,
+        oldValue === undefined ? "-" : ppValue(type, oldValue),
+        ppValue(type, newValue)
+    ]);
+}
+
+/**
+ * Evaluate the watch expression `expr` at `step`, and render its value
+ */
+function evalAt(expr: string, step: StepState): string | undefined {
+    const val = evalWatchExpression(parseWatchExpression(expr), step);
+
+    return val === undefined ? undefined : ppValue(val.type, val.value);
+}
+
+describe("Watch expressions", () => {
+    let artifactManager: ArtifactManager;
+    let solDbg: SolTxDebugger;
+    let session: TxSession;
+
+    before(async () => {
+        artifactManager = new ArtifactManager(loadArtifacts(`${sample}/artifacts`, "."));
+        solDbg = new SolTxDebugger(artifactManager);
+        session = await TxSession.fromDescription(fse.readJsonSync(`${sample}/txs/tx00.json`));
+    });
+
+    it("Malformed expressions are rejected", () => {
+        expect(() => parseWatchExpression("a +")).toThrow("Unexpected end of a +");
+        expect(() => parseWatchExpression("a[1")).toThrow("Expected ] in a[1");
+        expect(() => parseWatchExpression("a.")).toThrow("Expected a member name in a.");
+        expect(() => parseWatchExpression("a # b")).toThrow(
+            "Unexpected character at offset 2 in a # b"
+        );
+
+        const watches = new WatchList();
+
+        expect(() => watches.add("(x")).toThrow();
+        expect(watches.expressions).toEqual([]);
+
+        watches.add("x");
+        watches.add("x");
+        expect(watches.expressions).toEqual(["x"]);
+        expect(watches.remove("x")).toEqual(true);
+        expect(watches.remove("x")).toEqual(false);
+    });
+
+    it("Storage variables, mappings and struct fields", async () => {
+        // deposit(0xAaAa...Aa2, 100)
+        const [trace] = await session.debugTx(solDbg, 1);
+
+        expect(
+            ppChanges(trace, [
+                "total",
+                "balances[who].amount",
+                "balances[who].nonce + 1",
+                "last.amount * 2",
+                "paused"
+            ])
+        ).toEqual([
+            ["total", "-", "0"],
+            ["balances[who].amount", "-", "0"],
+            ["balances[who].nonce + 1", "-", "1"],
+            ["last.amount * 2", "-", "0"],
+            ["paused", "-", "false"],
+            ["total", "0", "100"],
+            ["balances[who].amount", "0", "100"],
+            ["balances[who].nonce + 1", "1", "2"],
+            ["last.amount * 2", "0", "200"],
+            ["paused", "false", "true"]
+        ]);
+    });
+
+    it("Nested mappings and msg.sender", async () => {
+        // approve(0xAaAa...Aa2, 7)
+        const [trace] = await session.debugTx(solDbg, 2);
+
+        expect(ppChanges(trace, ["allowances[msg.sender][spender]"])).toEqual([
+            ["allowances[msg.sender][spender]", "-", "0"],
+            ["allowances[msg.sender][spender]", "0", "7"]
+        ]);
+    });
+
+    it("Arrays, arithmetic and constants", async () => {
+        await session.debugTx(solDbg, 3);
+
+        // push(6)
+        const [trace] = await session.debugTx(solDbg, 4);
+
+        expect(
+            ppChanges(trace, [
+                "items.length",
+                "items[1]",
+                "recent",
+                "v - 10",
+                "-v",
+                "MAX_SUPPLY / 2 == HALF"
+            ])
+        ).toEqual([
+            ["items.length", "-", "1"],
+            ["recent", "-", "[0, 5, 0]"],
+            ["-v", "-", "-6"],
+            ["MAX_SUPPLY / 2 == HALF", "-", "true"],
+            ["items.length", "1", "2"],
+            // items[1] is out of bounds until the array is extended
+            ["items[1]", "-", "0"],
+            ["items[1]", "0", "6"],
+            ["recent", "[0, 5, 0]", "[0, 5, 6]"]
+        ]);
+    });
+
+    it("Expressions are evaluated at a single step", async () => {
+        // setName("bank")
+        const [trace] = await session.debugTx(solDbg, 5);
+        const step = trace[trace.length - 1];
+        const eval_ = (expr: string): string | undefined => evalAt(expr, step);
+
+        expect(eval_("name")).toEqual(`"bank"`);
+        expect(eval_("n.length")).toEqual("4");
+        expect(eval_("this")).toEqual("0xf084a83954ce917799e0b4dbd03934a2ea65888c");
+        expect(eval_("NAME")).toEqual(`"Bank"`);
+        expect(eval_("foo")).toBeUndefined();
+        expect(eval_("items[5]")).toBeUndefined();
+
+        // Huge powers and shifts are rejected without computing them
+        expect(eval_("2 ** 10")).toEqual("1024");
+        expect(eval_("1 ** 100000000")).toEqual("1");
+        expect(eval_("2 ** 100000000")).toBeUndefined();
+        expect(eval_("1 << 8")).toEqual("256");
+        expect(eval_("1 << 100000000")).toBeUndefined();
+        expect(eval_("256 >> 8")).toEqual("1");
+        expect(eval_("8 >> -1")).toBeUndefined();
+
+        // Bits shifted out of signed types are dropped as well
+        expect(eval_("NEG << 1")).toEqual("-10");
+        expect(eval_("NEG << 5")).toEqual("96");
+    });
+
+    it("Bytes and addresses are compared by their raw bytes", async () => {
+        const [trace] = await session.debugTx(solDbg, 5);
+        const step = trace[trace.length - 1];
+
+        expect(evalAt("this == this", step)).toEqual("true");
+        expect(evalAt("msg.sender == this", step)).toEqual("false");
+
+        // Evaluate the constants of RawBytes, which differ only in bytes that aren't valid UTF-8
+        const rawBytes = artifactManager
+            .contracts()
+            .find((info) => info.contractName === "RawBytes") as ContractInfo;
+        const rawStep = { ...step, contractInfo: rawBytes };
+
+        expect(evalAt("LOW == LOW", rawStep)).toEqual("true");
+        expect(evalAt("LOW == HIGH", rawStep)).toEqual("false");
+        expect(evalAt("LOW != HIGH", rawStep)).toEqual("true");
+    });
+});
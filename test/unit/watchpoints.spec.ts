@@ -0,0 +1,158 @@
+import expect from "expect";
+import fse from "fs-extra";
+import {
+    ArtifactManager,
+    findWatchpointHits,
+    getStepSourceLoc,
+    lastExternalFrame,
+    loadArtifacts,
+    resolveStorageWatchpoint,
+    SolTxDebugger,
+    StepState,
+    TxSession,
+    Watchpoint
+} from "../../src";
+
+const sample = "test/samples/local/state";
+
+/**
+ * Return the first step of `trace` on the given source line
+ */
+function stepOnLine(trace: StepState[], line: number): StepState {
+    const step = trace.find((s) => {
+        const loc = getStepSourceLoc(s);
+
+        return loc !== undefined && loc.line === line;
+    });
+
+    expect(step).toBeDefined();
+
+    return step as StepState;
+}
+
+/**
+ * Render the hits of `wp` in `trace` as `[line, old value, new value]` triples
+ */
+function ppHits(wp: Watchpoint, trace: StepState[]): Array<[number, string, string]> {
+    return findWatchpointHits(wp, trace).map((hit) => [
+        hit.loc === undefined ? -1 : hit.loc.line,
+        hit.oldValue.toString("hex"),
+        hit.newValue.toString("hex")
+    ]);
+}
+
+function word(n: number, size = 32): string {
+    return n.toString(16).padStart(size * 2, "0");
+}
+
+describe("Watchpoints", () => {
+    let solDbg: SolTxDebugger;
+    let session: TxSession;
+
+    before(async () => {
+        solDbg = new SolTxDebugger(new ArtifactManager(loadArtifacts(`${sample}/artifacts`, ".")));
+        session = await TxSession.fromDescription(fse.readJsonSync(`${sample}/txs/tx00.json`));
+    });
+
+    it("Storage watchpoints on state variables, mapping entries and structs", async () => {
+        // deposit(0xAaAa...Aa2, 100)
+        const [trace] = await session.debugTx(solDbg, 1);
+        // require(amount <= limit);
+        const step = stepOnLine(trace, 54);
+
+        const total = resolveStorageWatchpoint("total", step);
+
+        expect([total.slot, total.offset, total.size]).toEqual([BigInt(1), 0, 32]);
+        expect(ppHits(total, trace)).toEqual([[55, word(0), word(100)]]);
+
+        // Only the bytes of `amount` are watched
+        const amount = resolveStorageWatchpoint("balances[who].amount", step);
+
+        expect(ppHits(amount, trace)).toEqual([[56, word(0, 16), word(100, 16)]]);
+
+        // A struct spans multiple slots
+        const last = resolveStorageWatchpoint("last", step);
+
+        expect([last.slot, last.size]).toEqual([BigInt(6), 64]);
+        expect(ppHits(last, trace).map(([line]) => line)).toEqual([58, 58]);
+
+        // `paused` is packed in the same slot as `owner` and `version`
+        expect(ppHits(resolveStorageWatchpoint("paused", step), trace)).toEqual([[59, "00", "01"]]);
+        expect(ppHits(resolveStorageWatchpoint("version", step), trace)).toEqual([]);
+
+        expect(() => resolveStorageWatchpoint("amount", step)).toThrow(
+            "amount is not a storage location"
+        );
+        expect(() => resolveStorageWatchpoint("total +", step)).toThrow();
+    });
+
+    it("Nested mappings", async () => {
+        // approve(0xAaAa...Aa2, 7)
+        const [trace] = await session.debugTx(solDbg, 2);
+        const wp = resolveStorageWatchpoint(
+            "allowances[msg.sender][spender]",
+            stepOnLine(trace, 63)
+        );
+
+        expect(ppHits(wp, trace)).toEqual([[63, word(0), word(7)]]);
+    });
+
+    it("Writes in reverted calls", async () => {
+        // tryWithdraw(3), where withdraw() reverts after decrementing total
+        const [trace] = await session.debugTx(solDbg, 6);
+        const step = stepOnLine(trace, 76);
+
+        expect(ppHits(resolveStorageWatchpoint("total", step), trace)).toEqual([
+            [82, word(100), word(97)],
+            // The write in the reverted call is rolled back
+            [78, word(100), word(101)]
+        ]);
+    });
+
+    it("Memory watchpoints", async () => {
+        const [trace] = await session.debugTx(solDbg, 6);
+        const step = stepOnLine(trace, 76);
+        const frame = lastExternalFrame(step.stack);
+
+        // The selector of withdraw() is written to the free memory for the external call
+        expect(ppHits({ kind: "memory", frame, start: 0x80, length: 4 }, trace)).toEqual([
+            [76, "00000000", "2e1a7d4d"]
+        ]);
+
+        // Writes in the called frame are only seen by its own watchpoints
+        const inner = lastExternalFrame(stepOnLine(trace, 82).stack);
+        const innerLines = ppHits(
+            { kind: "memory", frame: inner, start: 0x80, length: 0x80 },
+            trace
+        ).map(([line]) => line);
+
+        // Encoding the revert reason. The rest of the writes are in compiler-generated code
+        expect(innerLines[0]).toEqual(84);
+        expect(innerLines).not.toContain(76);
+    });
+
+    it("Writes right after calls to precompiles", async () => {
+        const contextSample = "test/samples/local/context";
+        const contextDbg = new SolTxDebugger(
+            new ArtifactManager(loadArtifacts(`${contextSample}/artifacts`, "."))
+        );
+        const contextSession = await TxSession.fromDescription(
+            fse.readJsonSync(`${contextSample}/txs/tx00.json`)
+        );
+
+        // precompile()
+        const [trace] = await contextSession.debugTx(contextDbg, 8);
+        const frame = lastExternalFrame(stepOnLine(trace, 71).stack);
+        const ones = "ff".repeat(32);
+
+        // Only written by the MSTORE right after the call
+        expect(ppHits({ kind: "memory", frame, start: 1, length: 16 }, trace)).toEqual([
+            [71, word(0, 16), ones.slice(0, 32)]
+        ]);
+
+        // Written by both the call and the MSTORE
+        expect(ppHits({ kind: "memory", frame, start: 0x20, length: 0x20 }, trace)).toEqual([
+            [71, word(0), "ff" + word(5).slice(2)]
+        ]);
+    });
+});
@@ -0,0 +1,350 @@
+import { Transaction } from "@ethereumjs/tx";
+import VM from "@ethereumjs/vm";
+import { InterpreterStep } from "@ethereumjs/vm/dist/evm/interpreter";
+import { StateManager } from "@ethereumjs/vm/dist/state";
+import { Address } from "ethereumjs-util";
+import expect from "expect";
+import fse from "fs-extra";
+import {
+    ArtifactManager,
+    bigEndianBufToBigint,
+    FrameKind,
+    getFrameName,
+    lsJson,
+    padStart,
+    SolTxDebugger,
+    StepState,
+    toWeb3CallTree,
+    toWeb3StructLogs,
+    Web3CallTrace,
+    Web3DbgState,
+    Web3PreState
+} from "../../src";
+import { TestCase, VMTestRunner } from "../utils";
+
+const samples = [
+    "test/samples/local/test02",
+    "test/samples/local/events",
+    "test/samples/local/context",
+    "test/samples/local/state"
+];
+
+/**
+ * Re-run `tx` and record its trace in the format of geth's struct logger, along with the pre-state
+ * of all executed contracts. As in geth's `prestateTracer`, the pre-state contains the code and nonce
+ * of each contract, and the original values of the storage slots accessed by the transaction.
+ */
+async function recordWeb3Trace(
+    tx: Transaction,
+    runner: VMTestRunner
+): Promise<[Web3DbgState[], Web3PreState]> {
+    const stateBefore = runner.getStateBeforeTx(tx).copy();
+    const preState: Web3PreState = {};
+    const addresses = new Set<string>();
+    const preStorage = new Map<string, { [slot: string]: string }>();
+    const accessedSlots = new Map<string, { [slot: string]: string }>();
+    const structLogs: Web3DbgState[] = [];
+    const vm = new VM({ stateManager: stateBefore.copy() as StateManager });
+
+    vm.on("step", async (step: InterpreterStep, next: any) => {
+        const memory = Buffer.from(step.memory).toString("hex");
+        const log: Web3DbgState = {
+            pc: step.pc,
+            op: step.opcode.name,
+            gas: step.gasLeft.toNumber(),
+            gasCost: step.opcode.fee,
+            depth: step.depth + 1,
+            stack: step.stack.map((word) => "0x" + word.toString(16)),
+            memory: memory.match(/.{64}/g) || []
+        };
+
+        const address = step.address.toString();
+
+        addresses.add(address);
+        addresses.add(step.codeAddress.toString());
+
+        // Like geth, report all slots accessed so far by the contract on SLOADs and SSTOREs
+        if (step.opcode.name === "SLOAD" || step.opcode.name === "SSTORE") {
+            const stackTop = step.stack.length - 1;
+            const slotBuf = step.stack[stackTop].toArrayLike(Buffer, "be", 32);
+            const slot = slotBuf.toString("hex");
+            const pre = preStorage.get(address) || {};
+            const slots = accessedSlots.get(address) || {};
+
+            if (!(slot in pre)) {
+                const val = await stateBefore.getContractStorage(step.address, slotBuf);
+
+                pre[slot] = padStart(val, 32, 0).toString("hex");
+            }
+
+            slots[slot] = (
+                step.opcode.name === "SSTORE"
+                    ? step.stack[stackTop - 1].toArrayLike(Buffer, "be", 32)
+                    : padStart(
+                          await step.stateManager.getContractStorage(step.address, slotBuf),
+                          32,
+                          0
+                      )
+            ).toString("hex");
+
+            preStorage.set(address, pre);
+            accessedSlots.set(address, slots);
+            log.storage = { ...slots };
+        }
+
+        structLogs.push(log);
+        next();
+    });
+
+    await vm.runTx({
+        tx,
+        block: runner.getBlock(tx),
+        skipBalance: true,
+        skipNonce: true,
+        skipBlockGasLimitValidation: true
+    });
+
+    for (const address of addresses) {
+        const account = await stateBefore.getAccount(Address.fromString(address));
+        const code = await stateBefore.getContractCode(Address.fromString(address));
+
+        preState[address] = {
+            nonce: account.nonce.toNumber(),
+            code: "0x" + code.toString("hex"),
+            storage: preStorage.get(address)
+        };
+    }
+
+    return [structLogs, preState];
+}
+
+/**
+ * Collect the storage keys known in each contract in an imported trace. Since the pre-state only
+ * contains the accessed slots, the storage of VM traces is only compared on these keys.
+ */
+function getStorageKeys(trace: StepState[]): Map<string, Set<bigint>> {
+    const res = new Map<string, Set<bigint>>();
+
+    for (const step of trace) {
+        const address = step.address.toString();
+        const keys = res.get(address) || new Set<bigint>();
+
+        for (const [key] of step.storage.entries()) {
+            keys.add(key);
+        }
+
+        res.set(address, keys);
+    }
+
+    return res;
+}
+
+function describeStep(step: StepState, storageKeys: Map<string, Set<bigint>>): any[] {
+    const keys = storageKeys.get(step.address.toString()) || new Set<bigint>();
+    const storage = [...keys]
+        .sort()
+        .map((key) => step.storage.get(key))
+        .map((val) => (val === undefined ? "0" : bigEndianBufToBigint(val).toString(16)));
+
+    return [
+        step.pc,
+        step.depth,
+        step.op.mnemonic,
+        step.address.toString(),
+        step.codeAddress.toString(),
+        step.src === undefined ? undefined : step.src.start,
+        step.astNode === undefined ? undefined : step.astNode.id,
+        step.decodedEvent === undefined ? undefined : step.decodedEvent.definition.name,
+        step.stack.map((frame) => [
+            frame.kind,
+            getFrameName(frame),
+            frame.startStep,
+            frame.exitStep,
+            frame.kind === FrameKind.InternalCall ? undefined : frame.value
+        ]),
+        step.evmStack.map((word) => word.toString("hex")),
+        step.memory.toString("hex"),
+        step.returnData.toString("hex"),
+        storage
+    ];
+}
+
+describe("Debugging Web3 traces", () => {
+    for (const sample of samples) {
+        describe(sample, () => {
+            let solDbg: SolTxDebugger;
+            let runner: VMTestRunner;
+
+            before(async () => {
+                const artifacts = lsJson(`${sample}/artifacts`).map((name) =>
+                    fse.readJsonSync(name)
+                );
+
+                solDbg = new SolTxDebugger(new ArtifactManager(artifacts));
+                runner = new VMTestRunner();
+
+                await runner.runTestCase(fse.readJsonSync(`${sample}/txs/tx00.json`) as TestCase);
+            });
+
+            it("Imported traces match the VM traces", async () => {
+                for (const tx of runner.txs) {
+                    if (tx.to === undefined) {
+                        continue;
+                    }
+
+                    const [structLogs, preState] = await recordWeb3Trace(tx, runner);
+                    const [trace] = await solDbg.debugTx(
+                        tx,
+                        runner.getBlock(tx),
+                        runner.getStateBeforeTx(tx).copy()
+                    );
+                    const imported = await solDbg.debugWeb3Trace(
+                        tx,
+                        structLogs,
+                        preState,
+                        runner.getBlock(tx)
+                    );
+
+                    const keys = getStorageKeys(imported);
+
+                    expect(imported.map((step) => describeStep(step, keys))).toEqual(
+                        trace.map((step) => describeStep(step, keys))
+                    );
+                    expect(imported[0].txContext).toEqual(trace[0].txContext);
+                }
+            });
+
+            it("Exported struct logs round-trip", async () => {
+                for (const tx of runner.txs) {
+                    if (tx.to === undefined) {
+                        continue;
+                    }
+
+                    const [, preState] = await recordWeb3Trace(tx, runner);
+                    const [trace] = await solDbg.debugTx(
+                        tx,
+                        runner.getBlock(tx),
+                        runner.getStateBeforeTx(tx).copy()
+                    );
+                    const structLogs = toWeb3StructLogs(trace);
+                    const imported = await solDbg.debugWeb3Trace(tx, structLogs, preState);
+
+                    const keys = getStorageKeys(imported);
+
+                    expect(imported.map((step) => describeStep(step, keys))).toEqual(
+                        trace.map((step) => describeStep(step, keys))
+                    );
+                }
+            });
+        });
+    }
+});
+
+describe("Exporting Web3 traces", () => {
+    const sample = "test/samples/local/test02";
+    const contract = "0xf084a83954ce917799e0b4dbd03934a2ea65888c";
+    let solDbg: SolTxDebugger;
+    let runner: VMTestRunner;
+
+    /**
+     * Keep only the fields of a call tree that don't depend on gas accounting
+     */
+    function describeCall(call: Web3CallTrace): any {
+        return {
+            type: call.type,
+            from: call.from,
+            to: call.to,
+            input: call.input,
+            output: call.output,
+            error: call.error,
+            calls: call.calls === undefined ? undefined : call.calls.map(describeCall)
+        };
+    }
+
+    before(async () => {
+        const artifacts = lsJson(`${sample}/artifacts`).map((name) => fse.readJsonSync(name));
+
+        solDbg = new SolTxDebugger(new ArtifactManager(artifacts));
+        runner = new VMTestRunner();
+
+        await runner.runTestCase(fse.readJsonSync(`${sample}/txs/tx00.json`) as TestCase);
+    });
+
+    it("Call trees", async () => {
+        // incBy4(10)
+        let tx = runner.txs[1];
+        let [trace] = await solDbg.debugTx(
+            tx,
+            runner.getBlock(tx),
+            runner.getStateBeforeTx(tx).copy()
+        );
+        let tree = toWeb3CallTree(trace, tx);
+        const sender = tx.getSenderAddress().toString();
+        const word = (n: number) => n.toString(16).padStart(64, "0");
+
+        expect(describeCall(tree)).toEqual({
+            type: "CALL",
+            from: sender,
+            to: contract,
+            input: "0x8afc039d" + word(10),
+            output: "0x" + word(41),
+            calls: [
+                {
+                    type: "CALL",
+                    from: contract,
+                    to: contract,
+                    // inc(20)
+                    input: "0x812600df" + word(20),
+                    output: "0x" + word(41)
+                }
+            ]
+        });
+
+        expect(tree.value).toEqual("0x0");
+        const innerCall = (tree.calls as Web3CallTrace[])[0];
+
+        expect(BigInt(tree.gasUsed)).toBeGreaterThan(BigInt(innerCall.gasUsed));
+        expect(BigInt(innerCall.gasUsed)).toBeGreaterThan(BigInt(0));
+
+        // incBy4(5) fails the assert in the external call to inc()
+        tx = runner.txs[3];
+        [trace] = await solDbg.debugTx(tx, runner.getBlock(tx), runner.getStateBeforeTx(tx).copy());
+        tree = toWeb3CallTree(trace);
+
+        expect(tree.error).toEqual("execution reverted");
+        expect((tree.calls as Web3CallTrace[])[0].error).toEqual("execution reverted");
+        expect((tree.calls as Web3CallTrace[])[0].output).toMatch(/^0x4e487b71/);
+    });
+
+    it("Delegate calls target the called code", async () => {
+        const contextSample = "test/samples/local/context";
+        const contextRunner = new VMTestRunner();
+        const contextDbg = new SolTxDebugger(
+            new ArtifactManager(
+                lsJson(`${contextSample}/artifacts`).map((name) => fse.readJsonSync(name))
+            )
+        );
+
+        await contextRunner.runTestCase(
+            fse.readJsonSync(`${contextSample}/txs/tx00.json`) as TestCase
+        );
+
+        // delegateFail(), which delegate calls Wallet.fail()
+        const tx = contextRunner.txs[4];
+        const [trace] = await contextDbg.debugTx(
+            tx,
+            contextRunner.getBlock(tx),
+            contextRunner.getStateBeforeTx(tx).copy()
+        );
+        const call = (toWeb3CallTree(trace, tx).calls as Web3CallTrace[])[0];
+        const wallet = "0x2a524b768d15d5491e413cc42e8c3459959b60bf";
+
+        expect([call.type, call.from, call.to, call.input]).toEqual([
+            "DELEGATECALL",
+            contract,
+            wallet,
+            "0xa9cc4718"
+        ]);
+        expect(call.error).toEqual("execution reverted");
+    });
+});
@@ -1,49 +1,20 @@
 import { Block } from "@ethereumjs/block";
 import Common from "@ethereumjs/common";
-import { Transaction, TxData } from "@ethereumjs/tx";
+import { Transaction } from "@ethereumjs/tx";
 import VM from "@ethereumjs/vm";
 import { RunTxResult } from "@ethereumjs/vm/dist/runTx";
 import { StateManager } from "@ethereumjs/vm/dist/state";
 import { VMContext } from "@remix-project/remix-simulator/src/vm-context";
 import { VmProxy } from "@remix-project/remix-simulator/src/VmProxy";
-import { Account, Address, BN } from "ethereumjs-util";
 import { assert } from "solc-typed-ast";
-import { HexString } from "../../src/artifacts";
-import { hexStrToBuf32, makeFakeTransaction, ZERO_ADDRESS_STRING } from "../../src/utils/misc";
-
-interface BaseTestStep {
-    address: HexString;
-    gasLimit: HexString;
-    gasPrice: HexString;
-    input: HexString;
-    origin: HexString;
-    value: HexString;
-    blockCoinbase: HexString;
-    blockDifficulty: HexString;
-    blockGasLimit: HexString;
-    blockNumber: HexString;
-    blockTime: HexString;
-}
-
-interface AccountDescription {
-    nonce: number;
-    balance: HexString;
-    code: HexString;
-    storage: {
-        [storageAddr: HexString]: HexString;
-    };
-}
-
-interface InitialState {
-    accounts: {
-        [address: HexString]: AccountDescription;
-    };
-}
-
-interface BaseTestCase {
-    initialState: InitialState;
-    steps: BaseTestStep[];
-}
+import {
+    HexString,
+    makeBlock,
+    makeTransaction,
+    setupInitialState,
+    TxDescription,
+    TxSequenceDescription
+} from "../../src";
 
 export enum ResultKind {
     ContractCreated = "contract_created",
@@ -65,7 +36,7 @@ interface ResultRevert {
     kind: ResultKind.Revert;
 }
 
-export interface TestStep extends BaseTestStep {
+export interface TestStep extends TxDescription {
     // Expected result of the transaction
     result: ResultContractCreated | ResultValueReturned | ResultRevert;
     // Stack trace at the first error in the tx
@@ -74,7 +45,7 @@ export interface TestStep extends BaseTestStep {
     errorString?: string;
 }
 
-export interface TestCase extends BaseTestCase {
+export interface TestCase extends TxSequenceDescription {
     steps: TestStep[];
 }
 
@@ -134,84 +105,18 @@ export class VMTestRunner {
         this._txToBlock = new Map();
     }
 
-    async runTestCase(testCaseJSON: BaseTestCase): Promise<void> {
-        await this.setupInitialState(testCaseJSON.initialState);
+    async runTestCase(testCaseJSON: TxSequenceDescription): Promise<void> {
+        await setupInitialState(this._provider.vm, testCaseJSON.initialState);
 
         for (let i = 0; i < testCaseJSON.steps.length; i++) {
-            const tx = await this.harveyStepToTransaction(testCaseJSON.steps[i]);
-            const block = this.harveyStepToBlock(testCaseJSON.steps[i]);
+            const tx = await makeTransaction(this._provider.vm, testCaseJSON.steps[i]);
+            const block = makeBlock(testCaseJSON.steps[i]);
             const res = await this._runTxInt(tx, block);
 
             this._results.push(res);
         }
     }
 
-    private async setupInitialState(initialState: InitialState): Promise<void> {
-        const vm = this._provider.vm;
-        const state = vm.stateManager;
-
-        await state.checkpoint();
-
-        for (const addressStr of Object.keys(initialState.accounts)) {
-            const { nonce, balance, code, storage } = initialState.accounts[addressStr];
-
-            const address = Address.fromString(addressStr);
-            const codeBuf = Buffer.from(code.slice(2), "hex");
-
-            const acct = new Account();
-
-            acct.nonce = new BN(nonce.toString(16), 16);
-            acct.balance = new BN(balance.slice(2), 16);
-
-            state.putAccount(address, acct);
-
-            for (const [key, val] of Object.entries(storage)) {
-                const keyBuf = hexStrToBuf32(key.slice(2));
-                const valBuf = hexStrToBuf32(val.slice(2));
-
-                await state.putContractStorage(address, keyBuf, valBuf);
-            }
-
-            await state.putContractCode(address, codeBuf);
-        }
-
-        await state.commit();
-    }
-
-    async harveyStepToTransaction(step: BaseTestStep): Promise<Transaction> {
-        const vm = this._provider.vm;
-
-        const senderAddress = Address.fromString(step.origin);
-        const senderAccount = await vm.stateManager.getAccount(senderAddress);
-        const senderNonce = senderAccount.nonce;
-
-        const txData: TxData = {
-            value: step.value,
-            gasLimit: step.gasLimit,
-            gasPrice: 1,
-            data: step.input,
-            nonce: senderNonce
-        };
-
-        if (step.address !== ZERO_ADDRESS_STRING) {
-            txData.to = step.address;
-        }
-
-        return makeFakeTransaction(txData, step.origin);
-    }
-
-    harveyStepToBlock(step: BaseTestStep): Block {
-        return Block.fromBlockData({
-            header: {
-                coinbase: step.origin,
-                difficulty: step.blockDifficulty,
-                gasLimit: step.blockGasLimit,
-                number: new BN(step.blockNumber.slice(2), 16),
-                timestamp: new BN(step.blockTime.slice(2), 16)
-            }
-        });
-    }
-
     private async _runTxInt(tx: Transaction, block: Block): Promise<RunTxResult> {
         const vm = this._provider.vm;
         const txHash = tx.hash().toString("hex");